@@ -41,6 +41,10 @@ describe('App.vue', () => {
             name: 'AuditContent',
             template: '<div class="audit-content-stub">Audit Content</div>',
           },
+          RequestLog: {
+            name: 'RequestLog',
+            template: '<div class="request-log-stub">Request Log</div>',
+          },
           WhatsNew: {
             name: 'WhatsNew',
             template: '<div class="whats-new-stub">WhatsNew</div>',
@@ -91,6 +95,11 @@ describe('App.vue', () => {
       expect(apiConfig.exists()).toBe(true)
     })
 
+    it('renders RequestLog component', () => {
+      const wrapper = createWrapper()
+      expect(wrapper.findComponent({ name: 'RequestLog' }).exists()).toBe(true)
+    })
+
     it('renders Tabs component', () => {
       const wrapper = createWrapper()
       const tabs = wrapper.findComponent({ name: 'Tabs' })
@@ -154,6 +163,16 @@ describe('App.vue', () => {
       expect(auditTab!.props('icon')).toBe('⚠️')
       expect(auditTab!.props('index')).toBe(1)
     })
+
+    it('Translations tab has correct props', () => {
+      const wrapper = createWrapper()
+      const tabPanels = wrapper.findAllComponents({ name: 'TabPanel' })
+      const translationsTab = tabPanels.find((t) => t.props('label') === 'Translations')
+
+      expect(translationsTab).toBeDefined()
+      expect(translationsTab!.props('icon')).toBe('🌐')
+      expect(translationsTab!.props('index')).toBe(3)
+    })
   })
 
   describe('Tab Panels', () => {
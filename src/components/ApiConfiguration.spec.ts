@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach } from 'vitest'
-import { mount } from '@vue/test-utils'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
 import { createPinia, setActivePinia } from 'pinia'
 import type { ComponentPublicInstance } from 'vue'
 import ApiConfiguration from './ApiConfiguration.vue'
@@ -9,23 +9,23 @@ import Toggle from './Toggle.vue'
 import Btn from './Btn.vue'
 import Chip from './Chip.vue'
 import { useStore } from '@/stores/index'
+import { DEMO_CONFIG, DEMO_TOKEN } from '@/core/demo'
+import { validateConfig, type ConfigValidation } from '@/core/configValidation'
+import { recordApiCalls } from '@/core/apiUsage'
 
-const EXAMPLE_TOKEN = '4f4433c31718b6821b9850fe1921255020be6dc2'
-const EXAMPLE_PAGE_TYPES = ['landing-page', 'product_page']
-const EXAMPLE_COLLECTION_KEYS = ['navigation_menu', 'recipe']
-const EXAMPLE_KNOWN_COMPONENTS = [
-  'features',
-  'hero',
-  'seo',
-  'two_column_with_image',
-  'some_unused_component',
-]
+vi.mock('@/core/configValidation', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/core/configValidation')>()),
+  validateConfig: vi.fn(),
+}))
+
+const mockValidateConfig = vi.mocked(validateConfig)
 
 // Type helper for accessing component internals in tests
 interface ApiConfigurationInstance extends ComponentPublicInstance {
   store: ReturnType<typeof useStore>
   pageTypeInput: string
   collectionKeyInput: string
+  localeInput: string
   knownComponentInput: string
 }
 
@@ -477,6 +477,35 @@ describe('ApiConfiguration.vue', () => {
     })
   })
 
+  describe('Locales Section', () => {
+    it('shows empty state when no locales configured', () => {
+      const wrapper = mount(ApiConfiguration)
+      expect(wrapper.text()).toContain('No locales configured yet')
+    })
+
+    it('adds comma-separated locales to the store, skipping duplicates', async () => {
+      const wrapper = mount(ApiConfiguration)
+      getVm(wrapper).store.locales = ['en']
+      getVm(wrapper).localeInput = 'fr, en, de'
+      await wrapper.vm.$nextTick()
+      await wrapper
+        .find('#locale-input')
+        .element.closest('form')!
+        .dispatchEvent(new Event('submit'))
+      expect(getVm(wrapper).store.locales).toEqual(['en', 'fr', 'de'])
+      expect(getVm(wrapper).localeInput).toBe('')
+    })
+
+    it('removes a locale when its chip is removed', async () => {
+      const wrapper = mount(ApiConfiguration)
+      getVm(wrapper).store.locales = ['en', 'fr']
+      await wrapper.vm.$nextTick()
+      const frChip = wrapper.findAllComponents(Chip).find((chip) => chip.text().includes('fr'))!
+      await frChip.vm.$emit('remove')
+      expect(getVm(wrapper).store.locales).toEqual(['en'])
+    })
+  })
+
   describe('Comma-Separated Values', () => {
     describe('Page Types', () => {
       it('adds multiple page types when separated by commas', async () => {
@@ -951,14 +980,14 @@ describe('ApiConfiguration.vue', () => {
     })
   })
 
-  describe('Example Configuration', () => {
-    it('renders the example config block when token is empty', () => {
+  describe('Demo Account', () => {
+    it('renders the demo account block when token is empty', () => {
       const wrapper = mount(ApiConfiguration)
       const block = wrapper.find('.api-config__example')
       expect(block.exists()).toBe(true)
     })
 
-    it('does not render the example config block when token is set', async () => {
+    it('does not render the demo account block when token is set', async () => {
       const wrapper = mount(ApiConfiguration)
       getVm(wrapper).store.token = 'my_real_token'
       await wrapper.vm.$nextTick()
@@ -966,24 +995,24 @@ describe('ApiConfiguration.vue', () => {
       expect(block.exists()).toBe(false)
     })
 
-    it('renders descriptive text inside the example block', () => {
+    it('renders descriptive text inside the demo account block', () => {
       const wrapper = mount(ApiConfiguration)
       const text = wrapper.find('.api-config__example-text')
       expect(text.exists()).toBe(true)
       expect(text.text()).toContain('New to Butter CMS Utilities?')
     })
 
-    it('renders a "Load Example Configuration" button', () => {
+    it('renders a "Load Demo Account" button', () => {
       const wrapper = mount(ApiConfiguration)
       const btn = wrapper.find('.api-config__example-btn')
       expect(btn.exists()).toBe(true)
-      expect(btn.text()).toBe('Load Example Configuration')
+      expect(btn.text()).toBe('Load Demo Account')
     })
 
-    it('sets store.token to the example token when clicked', async () => {
+    it('sets store.token to the demo token when clicked', async () => {
       const wrapper = mount(ApiConfiguration)
       await wrapper.find('.api-config__example-btn').trigger('click')
-      expect(getVm(wrapper).store.token).toBe(EXAMPLE_TOKEN)
+      expect(getVm(wrapper).store.token).toBe(DEMO_TOKEN)
     })
 
     it('sets store.lockToken to true when clicked', async () => {
@@ -992,66 +1021,86 @@ describe('ApiConfiguration.vue', () => {
       expect(getVm(wrapper).store.lockToken).toBe(true)
     })
 
-    it('adds example page types to store.pageTypes when clicked', async () => {
+    it('adds demo page types to store.pageTypes when clicked', async () => {
       const wrapper = mount(ApiConfiguration)
       getVm(wrapper).store.pageTypes = []
       await wrapper.find('.api-config__example-btn').trigger('click')
-      EXAMPLE_PAGE_TYPES.forEach((pt) => {
+      DEMO_CONFIG.pageTypes.forEach((pt) => {
         expect(getVm(wrapper).store.pageTypes).toContain(pt)
       })
     })
 
-    it('adds example collection keys to store.collectionKeys when clicked', async () => {
+    it('adds demo collection keys to store.collectionKeys when clicked', async () => {
       const wrapper = mount(ApiConfiguration)
       getVm(wrapper).store.collectionKeys = []
       await wrapper.find('.api-config__example-btn').trigger('click')
-      EXAMPLE_COLLECTION_KEYS.forEach((ck) => {
+      DEMO_CONFIG.collectionKeys.forEach((ck) => {
         expect(getVm(wrapper).store.collectionKeys).toContain(ck)
       })
     })
 
-    it('overwrites existing page types when loading example config', async () => {
+    it('overwrites existing page types when loading the demo account', async () => {
       const wrapper = mount(ApiConfiguration)
       getVm(wrapper).store.pageTypes = ['my_existing_type']
       await wrapper.find('.api-config__example-btn').trigger('click')
       expect(getVm(wrapper).store.pageTypes).not.toContain('my_existing_type')
-      EXAMPLE_PAGE_TYPES.forEach((pt) => {
+      DEMO_CONFIG.pageTypes.forEach((pt) => {
         expect(getVm(wrapper).store.pageTypes).toContain(pt)
       })
     })
 
-    it('overwrites existing collection keys when loading example config', async () => {
+    it('overwrites existing collection keys when loading the demo account', async () => {
       const wrapper = mount(ApiConfiguration)
       getVm(wrapper).store.collectionKeys = ['my_existing_key']
       await wrapper.find('.api-config__example-btn').trigger('click')
       expect(getVm(wrapper).store.collectionKeys).not.toContain('my_existing_key')
-      EXAMPLE_COLLECTION_KEYS.forEach((ck) => {
+      DEMO_CONFIG.collectionKeys.forEach((ck) => {
         expect(getVm(wrapper).store.collectionKeys).toContain(ck)
       })
     })
 
-    it('sets page types to exactly the example values', async () => {
+    it('sets page types to exactly the demo values', async () => {
       const wrapper = mount(ApiConfiguration)
       getVm(wrapper).store.pageTypes = ['some_other_type']
       await wrapper.find('.api-config__example-btn').trigger('click')
-      expect(getVm(wrapper).store.pageTypes).toEqual(EXAMPLE_PAGE_TYPES)
+      expect(getVm(wrapper).store.pageTypes).toEqual(DEMO_CONFIG.pageTypes)
     })
 
-    it('sets collection keys to exactly the example values', async () => {
+    it('sets collection keys to exactly the demo values', async () => {
       const wrapper = mount(ApiConfiguration)
       getVm(wrapper).store.collectionKeys = ['some_other_key']
       await wrapper.find('.api-config__example-btn').trigger('click')
-      expect(getVm(wrapper).store.collectionKeys).toEqual(EXAMPLE_COLLECTION_KEYS)
+      expect(getVm(wrapper).store.collectionKeys).toEqual(DEMO_CONFIG.collectionKeys)
     })
 
-    it('hides example block after loading example config', async () => {
+    it('shows a demo notice instead of the demo account block after loading it', async () => {
       const wrapper = mount(ApiConfiguration)
       await wrapper.find('.api-config__example-btn').trigger('click')
       await wrapper.vm.$nextTick()
-      expect(wrapper.find('.api-config__example').exists()).toBe(false)
+      expect(wrapper.find('.api-config__example-text').text()).toContain(
+        'You are using the demo account.',
+      )
+      expect(wrapper.find('.api-config__token-preview').text()).toBe('Demo account')
     })
 
-    it.each(EXAMPLE_KNOWN_COMPONENTS)(
+    it('clears the demo configuration on exit', async () => {
+      const wrapper = mount(ApiConfiguration)
+      await wrapper.find('.api-config__example-btn').trigger('click')
+      await wrapper.vm.$nextTick()
+
+      const exit = wrapper.find('.api-config__example-btn')
+      expect(exit.text()).toBe('Exit Demo')
+      await exit.trigger('click')
+
+      const { store } = getVm(wrapper)
+      expect(store.token).toBe('')
+      expect(store.lockToken).toBe(false)
+      expect(store.pageTypes).toEqual([])
+      expect(store.collectionKeys).toEqual([])
+      expect(store.knownComponents).toEqual([])
+    })
+
+    it.each(DEMO_CONFIG.knownComponents)(
       'adds "%s" to store.knownComponents when clicked',
       async (component) => {
         const wrapper = mount(ApiConfiguration)
@@ -1061,21 +1110,253 @@ describe('ApiConfiguration.vue', () => {
       },
     )
 
-    it('overwrites existing known components when loading example config', async () => {
+    it('overwrites existing known components when loading the demo account', async () => {
       const wrapper = mount(ApiConfiguration)
       getVm(wrapper).store.knownComponents = ['my_existing_component']
       await wrapper.find('.api-config__example-btn').trigger('click')
       expect(getVm(wrapper).store.knownComponents).not.toContain('my_existing_component')
-      EXAMPLE_KNOWN_COMPONENTS.forEach((c) => {
+      DEMO_CONFIG.knownComponents.forEach((c) => {
         expect(getVm(wrapper).store.knownComponents).toContain(c)
       })
     })
 
-    it('sets known components to exactly the example values', async () => {
+    it('sets known components to exactly the demo values', async () => {
       const wrapper = mount(ApiConfiguration)
-      getVm(wrapper).store.knownComponents = [...EXAMPLE_KNOWN_COMPONENTS]
+      getVm(wrapper).store.knownComponents = [...DEMO_CONFIG.knownComponents]
       await wrapper.find('.api-config__example-btn').trigger('click')
-      expect(getVm(wrapper).store.knownComponents).toEqual(EXAMPLE_KNOWN_COMPONENTS)
+      expect(getVm(wrapper).store.knownComponents).toEqual(DEMO_CONFIG.knownComponents)
+    })
+  })
+
+  describe('Content Cache', () => {
+    it('renders the cache TTL select bound to the store', async () => {
+      const wrapper = mount(ApiConfiguration)
+      const select = wrapper.find('.api-config__select')
+      expect(select.exists()).toBe(true)
+      expect((select.element as HTMLSelectElement).value).toBe('60')
+
+      await select.setValue('0')
+      expect(getVm(wrapper).store.cacheTtlMinutes).toBe(0)
+    })
+
+    it('shows "Not synced yet" when nothing has been cached', () => {
+      const wrapper = mount(ApiConfiguration)
+      expect(wrapper.find('.api-config__last-synced').text()).toBe('Not synced yet')
+    })
+
+    it('shows the last synced time and a refresh button once synced', async () => {
+      const wrapper = mount(ApiConfiguration)
+      const syncedAt = new Date('2026-01-01T12:00:00Z').getTime()
+      getVm(wrapper).store.token = 'test_token'
+      // Let the token watcher finish re-reading the (unavailable) cache first
+      await flushPromises()
+      getVm(wrapper).store.lastSyncedAt = syncedAt
+      await wrapper.vm.$nextTick()
+
+      expect(wrapper.find('.api-config__last-synced').text()).toBe(
+        `Last synced ${new Date(syncedAt).toLocaleString()}`,
+      )
+      const refresh = wrapper.findAllComponents(Btn).find((btn) => btn.text() === 'Refresh')
+      expect(refresh).toBeDefined()
+    })
+
+    it('hides the refresh button when nothing has been cached', () => {
+      const wrapper = mount(ApiConfiguration)
+      const refresh = wrapper.findAllComponents(Btn).find((btn) => btn.text() === 'Refresh')
+      expect(refresh).toBeUndefined()
+    })
+  })
+
+  describe('Request Options', () => {
+    it('binds the base URL input to the store', async () => {
+      const wrapper = mount(ApiConfiguration)
+      const input = wrapper
+        .findAllComponents(TextInput)
+        .find((textInput) => textInput.props('id') === 'api-base-url')!
+      expect(input.props('modelValue')).toBe('https://api.buttercms.com/v2')
+
+      await input.vm.$emit('update:modelValue', 'http://localhost:4000/v2')
+      expect(getVm(wrapper).store.baseUrl).toBe('http://localhost:4000/v2')
+    })
+
+    it('flags a base URL that is not http(s)', async () => {
+      const wrapper = mount(ApiConfiguration)
+      getVm(wrapper).store.baseUrl = 'ftp://example.com'
+      await wrapper.vm.$nextTick()
+
+      const input = wrapper
+        .findAllComponents(TextInput)
+        .find((textInput) => textInput.props('id') === 'api-base-url')!
+      expect(input.props('status')).toBe('error')
+      expect(input.text()).toContain('The default Butter CMS API is used until then')
+    })
+
+    it('binds the page size and levels selects to the store', async () => {
+      const wrapper = mount(ApiConfiguration)
+
+      await wrapper.find('.api-config__select--page-size').setValue('25')
+      await wrapper.find('.api-config__select--levels').setValue('2')
+
+      expect(getVm(wrapper).store.pageSize).toBe(25)
+      expect(getVm(wrapper).store.levels).toBe(2)
+    })
+
+    it('binds the alt media text toggle to the store', async () => {
+      const wrapper = mount(ApiConfiguration)
+      const toggle = wrapper
+        .findAllComponents(Toggle)
+        .find((t) => t.props('id') === 'alt-media-text-toggle')!
+      expect(toggle.props('modelValue')).toBe(true)
+
+      await toggle.vm.$emit('update:modelValue', false)
+      expect(getVm(wrapper).store.altMediaText).toBe(false)
+    })
+
+    it('only offers a reset once an option differs from the defaults', async () => {
+      const wrapper = mount(ApiConfiguration)
+      const findReset = () =>
+        wrapper.findAllComponents(Btn).find((btn) => btn.text() === 'Reset to defaults')
+      expect(findReset()).toBeUndefined()
+
+      getVm(wrapper).store.levels = 1
+      await wrapper.vm.$nextTick()
+      await findReset()!.trigger('click')
+
+      expect(getVm(wrapper).store.levels).toBe(5)
+      expect(findReset()).toBeUndefined()
+    })
+  })
+
+  describe('API Usage', () => {
+    it('shows the calls made today and this month', async () => {
+      const wrapper = mount(ApiConfiguration)
+      getVm(wrapper).store.apiUsage = recordApiCalls({}, 1234)
+      await wrapper.vm.$nextTick()
+
+      expect(wrapper.find('.api-config__usage-totals').text()).toBe(
+        `${(1234).toLocaleString()} calls today, ${(1234).toLocaleString()} this month`,
+      )
+    })
+
+    it('shows the month against the budget once one is set', async () => {
+      const wrapper = mount(ApiConfiguration)
+      getVm(wrapper).store.apiUsage = recordApiCalls({}, 1)
+
+      await wrapper.find('.api-config__select--budget').setValue('50000')
+
+      expect(getVm(wrapper).store.monthlyApiBudget).toBe(50_000)
+      expect(wrapper.find('.api-config__usage-totals').text()).toBe(
+        `1 call today, 1 of ${(50_000).toLocaleString()} this month`,
+      )
+    })
+
+    it('offers to reset the counts once calls have been made', async () => {
+      const wrapper = mount(ApiConfiguration)
+      const findReset = () =>
+        wrapper.findAllComponents(Btn).find((btn) => btn.text() === 'Reset counts')
+      expect(findReset()).toBeUndefined()
+
+      getVm(wrapper).store.apiUsage = recordApiCalls({}, 5)
+      await wrapper.vm.$nextTick()
+      await findReset()!.trigger('click')
+
+      expect(getVm(wrapper).store.apiUsageTotals.thisMonth).toBe(0)
+    })
+  })
+
+  describe('Configuration Validation', () => {
+    const validation: ConfigValidation = {
+      token: { status: 'valid', count: 42 },
+      pageTypes: {
+        landing_page: { status: 'valid', count: 1 },
+        landng_page: { status: 'missing', reason: 'page type "landng_page" does not exist (404)' },
+      },
+      collectionKeys: { recipes: { status: 'unauthorised', reason: 'access denied (403)' } },
+      suggestedPageTypes: ['product_page'],
+    }
+
+    async function mountValidated() {
+      mockValidateConfig.mockReset().mockResolvedValue(validation)
+      const wrapper = mount(ApiConfiguration)
+      const { store } = getVm(wrapper)
+      store.token = 'test_token'
+      store.pageTypes = ['landing_page', 'landng_page']
+      store.collectionKeys = ['recipes']
+      await flushPromises()
+      const validate = wrapper
+        .findAllComponents(Btn)
+        .find((btn) => btn.text() === 'Validate configuration')!
+      await validate.trigger('click')
+      await flushPromises()
+      return wrapper
+    }
+
+    function findChip(wrapper: ReturnType<typeof mount>, key: string) {
+      return wrapper.findAllComponents(Chip).find((chip) => chip.text().startsWith(key))!
+    }
+
+    it('only offers validation once there is a token', async () => {
+      const wrapper = mount(ApiConfiguration)
+      expect(wrapper.find('.api-config__validate').exists()).toBe(false)
+
+      getVm(wrapper).store.token = 'test_token'
+      await wrapper.vm.$nextTick()
+      expect(wrapper.find('.api-config__validate').exists()).toBe(true)
+    })
+
+    it('validates the configured token and scopes', async () => {
+      await mountValidated()
+
+      expect(mockValidateConfig).toHaveBeenCalledWith(
+        expect.objectContaining({
+          token: 'test_token',
+          pageTypes: ['landing_page', 'landng_page'],
+          collectionKeys: ['recipes'],
+        }),
+      )
+    })
+
+    it('summarises the token check', async () => {
+      const wrapper = await mountValidated()
+
+      expect(wrapper.find('.api-config__validate-summary').text()).toBe(
+        'Token valid, 42 blog posts',
+      )
+    })
+
+    it('marks each chip with its status and item count', async () => {
+      const wrapper = await mountValidated()
+
+      expect(findChip(wrapper, 'landing_page').props('status')).toBe('success')
+      expect(findChip(wrapper, 'landing_page').text()).toContain('1 item')
+      expect(findChip(wrapper, 'landng_page').props('status')).toBe('error')
+      expect(findChip(wrapper, 'landng_page').text()).toContain('missing')
+      expect(findChip(wrapper, 'landng_page').attributes('title')).toBe(
+        'page type "landng_page" does not exist (404)',
+      )
+      expect(findChip(wrapper, 'recipes').props('status')).toBe('warning')
+      expect(findChip(wrapper, 'recipes').text()).toContain('unauthorised')
+    })
+
+    it('adds a suggested page type when clicked', async () => {
+      const wrapper = await mountValidated()
+
+      const suggestion = wrapper.find('.api-config__suggestion')
+      expect(suggestion.text()).toBe('+ product_page')
+      await suggestion.trigger('click')
+
+      expect(getVm(wrapper).store.pageTypes).toContain('product_page')
+      expect(wrapper.find('.api-config__suggestions').exists()).toBe(false)
+    })
+
+    it('clears the results when the token changes', async () => {
+      const wrapper = await mountValidated()
+
+      getVm(wrapper).store.token = 'other_token'
+      await flushPromises()
+
+      expect(wrapper.find('.api-config__validate-summary').exists()).toBe(false)
+      expect(findChip(wrapper, 'landing_page').props('status')).toBeUndefined()
     })
   })
 })
@@ -28,6 +28,21 @@ describe('Chip', () => {
       expect(wrapper.classes()).toContain('chip--medium')
     })
 
+    it('should not be tinted without a status', () => {
+      const wrapper = mount(Chip, { slots: { default: 'Test Chip' } })
+
+      expect(wrapper.classes()).toEqual(['chip'])
+    })
+
+    it.each(['success', 'warning', 'error'] as const)(
+      'should be tinted for the %s status',
+      (status) => {
+        const wrapper = mount(Chip, { props: { status }, slots: { default: 'Test Chip' } })
+
+        expect(wrapper.classes()).toContain(`chip--${status}`)
+      },
+    )
+
     it('should render without remove button by default', () => {
       const wrapper = mount(Chip, {
         slots: {
@@ -7,7 +7,8 @@ import { useStore } from '@/stores/index'
 
 // Mock auditContent function
 const mockAuditContent = vi.fn()
-vi.mock('@/features/audit', () => ({
+vi.mock('@/features/audit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/features/audit')>()),
   auditContent: (...args: unknown[]) => mockAuditContent(...args),
   UGLY_HTML_PATTERNS: ['mso-', 'figma=', 'style="'],
 }))
@@ -238,6 +239,8 @@ describe('AuditContent.vue', () => {
       store.selectedScopes.blog = true
       store.selectedScopes.pageTypes = ['landing_page']
       store.selectedScopes.collectionKeys = ['items']
+      store.selectedScopes.fieldFilters = { 'page:landing_page': { region: 'eu' } }
+      store.baseUrl = 'http://localhost:4000/v2'
 
       await wrapper
         .findAll('button')
@@ -251,6 +254,11 @@ describe('AuditContent.vue', () => {
         ['landing_page'],
         ['items'],
         true,
+        expect.objectContaining({
+          cacheTtl: 60 * 60_000,
+          requestOptions: expect.objectContaining({ baseUrl: 'http://localhost:4000/v2' }),
+          fieldFilters: { 'page:landing_page': { region: 'eu' } },
+        }),
       )
     })
 
@@ -395,6 +403,178 @@ describe('AuditContent.vue', () => {
       expect(wrapper.text()).toContain('Partial failure')
       expect(wrapper.text()).toContain('Failed to fetch Blog')
     })
+
+    it('should warn how many items hit the depth limit', async () => {
+      mockAuditContent.mockResolvedValue({
+        success: true,
+        results: [],
+        totalIssues: 0,
+        patternsFound: [],
+        depthLimitedItems: 3,
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'test-token'
+      store.selectedScopes.blog = true
+
+      await wrapper
+        .findAll('button')
+        .find((btn) => btn.text() === 'Run Audit')
+        ?.trigger('click')
+      await flushPromises()
+
+      const warning = wrapper.find('.audit-content__depth-limit').text()
+      expect(warning).toContain('3 items hit the depth limit')
+      // Already at the most levels Butter CMS expands, so there is nothing to raise
+      expect(warning).not.toContain('Raise the reference levels')
+    })
+
+    it('should retry only the failed scopes and merge their issues into the results', async () => {
+      const result = (slug: string, sourceType: string, pattern: string) => ({
+        title: slug,
+        slug,
+        sourceType,
+        issues: [{ pattern, path: 'body', value: pattern, count: 1 }],
+      })
+      mockAuditContent
+        .mockResolvedValueOnce({
+          success: true,
+          results: [result('bravo', 'landing_page', 'mso-')],
+          totalIssues: 1,
+          patternsFound: ['mso-'],
+          failedScopes: ['Blog'],
+          failures: [
+            {
+              scope: { kind: 'post', key: 'Blog' },
+              label: 'Blog',
+              reason: 'Butter CMS server error after 3 attempts (503)',
+            },
+          ],
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          results: [result('alpha', 'Blog', 'figma=')],
+          totalIssues: 1,
+          patternsFound: ['figma='],
+          failedScopes: [],
+          failures: [],
+        })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'test-token'
+      store.selectedScopes.blog = true
+      store.selectedScopes.pageTypes = ['landing_page']
+
+      await wrapper
+        .findAll('button')
+        .find((btn) => btn.text() === 'Run Audit')
+        ?.trigger('click')
+      await flushPromises()
+      await wrapper
+        .findAll('button')
+        .find((btn) => btn.text() === 'Retry failed scopes')
+        ?.trigger('click')
+      await flushPromises()
+
+      expect(mockAuditContent).toHaveBeenLastCalledWith(
+        'test-token',
+        false,
+        [],
+        [],
+        true,
+        expect.any(Object),
+      )
+      expect(wrapper.findAll('.audit-content__result-slug').map((slug) => slug.text())).toEqual([
+        'alpha',
+        'bravo',
+      ])
+      expect(wrapper.text()).toContain('Found 2 potential issues across 2 items')
+      expect(wrapper.text()).not.toContain('Partial failure')
+    })
+  })
+
+  describe('Functionality - Cancellation', () => {
+    it('should abort the signal passed to auditContent when Cancel is clicked', async () => {
+      let signal: AbortSignal | undefined
+      mockAuditContent.mockImplementation((...args: unknown[]) => {
+        signal = (args[5] as { signal: AbortSignal }).signal
+        return new Promise(() => {})
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'test-token'
+      store.selectedScopes.blog = true
+
+      await wrapper
+        .findAll('button')
+        .find((btn) => btn.text() === 'Run Audit')
+        ?.trigger('click')
+      await nextTick()
+
+      await wrapper
+        .findAll('button')
+        .find((btn) => btn.text() === 'Cancel')
+        ?.trigger('click')
+
+      expect(signal?.aborted).toBe(true)
+    })
+
+    it('should stop the audit when unmounted, e.g. by a workspace switch', async () => {
+      let signal: AbortSignal | undefined
+      mockAuditContent.mockImplementation((...args: unknown[]) => {
+        signal = (args[5] as { signal: AbortSignal }).signal
+        return new Promise((resolve) =>
+          signal!.addEventListener('abort', () =>
+            resolve({ success: false, cancelled: true, error: 'Audit cancelled.' }),
+          ),
+        )
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'test-token'
+      store.selectedScopes.blog = true
+      const syncLastSynced = vi.spyOn(store, 'syncLastSynced')
+
+      await wrapper
+        .findAll('button')
+        .find((btn) => btn.text() === 'Run Audit')
+        ?.trigger('click')
+      await nextTick()
+      wrapper.unmount()
+      await flushPromises()
+
+      expect(signal?.aborted).toBe(true)
+      expect(syncLastSynced).not.toHaveBeenCalled()
+    })
+
+    it('should show an info message instead of an error when nothing finished', async () => {
+      mockAuditContent.mockResolvedValue({
+        success: false,
+        results: [],
+        totalIssues: 0,
+        patternsFound: [],
+        cancelled: true,
+        error: 'Audit cancelled before any scope finished.',
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'test-token'
+      store.selectedScopes.blog = true
+
+      await wrapper
+        .findAll('button')
+        .find((btn) => btn.text() === 'Run Audit')
+        ?.trigger('click')
+      await flushPromises()
+
+      expect(wrapper.text()).toContain('Audit cancelled before any scope finished.')
+      expect(wrapper.find('.info-banner--error').exists()).toBe(false)
+    })
   })
 
   describe('Functionality - Reset', () => {
@@ -480,6 +660,39 @@ describe('AuditContent.vue', () => {
       expect(summary.text()).toContain('mso-, figma=')
     })
 
+    it('should show the API calls the audit made', async () => {
+      const store = useStore()
+      mockAuditContent.mockImplementation(async () => {
+        store.sessionApiCalls += 1
+        return {
+          success: true,
+          results: [
+            {
+              title: 'Test',
+              slug: 'test',
+              sourceType: 'Blog',
+              issues: [{ pattern: 'mso-', path: 'body', value: 'test1', count: 1 }],
+            },
+          ],
+          totalIssues: 1,
+          patternsFound: ['mso-'],
+          failedScopes: [],
+        }
+      })
+
+      const wrapper = mountComponent()
+      store.token = 'test-token'
+      store.selectedScopes.blog = true
+
+      await wrapper
+        .findAll('button')
+        .find((btn) => btn.text() === 'Run Audit')
+        ?.trigger('click')
+      await flushPromises()
+
+      expect(wrapper.find('.audit-content__api-calls').text()).toBe('(1 API call)')
+    })
+
     it('should pluralize issue count correctly', async () => {
       mockAuditContent.mockResolvedValue({
         success: true,
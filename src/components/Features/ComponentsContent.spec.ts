@@ -6,7 +6,8 @@ import { useStore } from '@/stores/index'
 import type { ComponentsResponse } from '@/features/components'
 
 const mockAuditComponents = vi.fn()
-vi.mock('@/features/components', () => ({
+vi.mock('@/features/components', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/features/components')>()),
   auditComponents: (...args: unknown[]) => mockAuditComponents(...args),
 }))
 
@@ -311,6 +312,20 @@ describe('ComponentsContent.vue', () => {
       expect(wrapper.text()).toContain('5')
       expect(wrapper.text()).toContain('pages')
     })
+
+    it('shows the API calls the analysis made in the summary', async () => {
+      mockAuditComponents.mockImplementation(async () => {
+        store.sessionApiCalls += 4
+        return makeResponse([{ componentSlug: 'hero_banner', usageCount: 0, usages: [] }])
+      })
+      const wrapper = mountComponent()
+      await wrapper
+        .findAll('button')
+        .find((b) => b.text().includes('Run Analysis'))
+        ?.trigger('click')
+      await flushPromises()
+      expect(wrapper.find('.components-content__api-calls').text()).toBe('4 API calls.')
+    })
   })
 
   describe('Partial failure', () => {
@@ -331,6 +346,101 @@ describe('ComponentsContent.vue', () => {
       expect(wrapper.text()).toContain('bad_page')
     })
 
+    it('explains why each page type failed', async () => {
+      mockAuditComponents.mockResolvedValue({
+        success: true,
+        results: [],
+        totalScanned: 2,
+        failedScopes: ['bad_page'],
+        failures: [
+          {
+            scope: { kind: 'page', key: 'bad_page' },
+            label: 'bad_page',
+            reason: 'page type "bad_page" does not exist (404)',
+          },
+        ],
+      })
+      const wrapper = mountComponent()
+      await wrapper
+        .findAll('button')
+        .find((b) => b.text().includes('Run Analysis'))
+        ?.trigger('click')
+      await flushPromises()
+      expect(wrapper.find('.info-banner--warning li').text()).toBe(
+        'bad_page: page type "bad_page" does not exist (404)',
+      )
+    })
+
+    it('retries only the failed page types and merges their usages', async () => {
+      store.selectedScopes.pageTypes = ['landing_page', 'article']
+      const usage = (slug: string, pageType: string) => ({
+        title: slug,
+        slug,
+        pageType,
+        status: 'published' as const,
+      })
+      mockAuditComponents
+        .mockResolvedValueOnce(
+          makeResponse(
+            [
+              { componentSlug: 'cta_block', usageCount: 0, usages: [] },
+              {
+                componentSlug: 'hero_banner',
+                usageCount: 1,
+                usages: [usage('home', 'landing_page')],
+              },
+            ],
+            {
+              failedScopes: ['article'],
+              failures: [
+                {
+                  scope: { kind: 'page', key: 'article' },
+                  label: 'article',
+                  reason: 'network error after 3 attempts',
+                },
+              ],
+            },
+          ),
+        )
+        .mockResolvedValueOnce(
+          makeResponse(
+            [
+              { componentSlug: 'hero_banner', usageCount: 0, usages: [] },
+              {
+                componentSlug: 'cta_block',
+                usageCount: 2,
+                usages: [usage('a', 'article'), usage('b', 'article')],
+              },
+            ],
+            { totalScanned: 2, failedScopes: [], failures: [] },
+          ),
+        )
+      const wrapper = mountComponent()
+      await wrapper
+        .findAll('button')
+        .find((b) => b.text().includes('Run Analysis'))
+        ?.trigger('click')
+      await flushPromises()
+      await wrapper
+        .findAll('button')
+        .find((b) => b.text() === 'Retry failed page types')
+        ?.trigger('click')
+      await flushPromises()
+
+      expect(mockAuditComponents).toHaveBeenLastCalledWith(
+        'test-token',
+        false,
+        ['article'],
+        ['hero_banner', 'cta_block'],
+        expect.any(Object),
+      )
+      expect(
+        wrapper.findAll('.components-content__component-slug').map((slug) => slug.text()),
+      ).toEqual(['hero_banner', 'cta_block'])
+      expect(wrapper.text()).toContain('3 pages')
+      expect(wrapper.text()).not.toContain('Partial failure')
+    })
+
     it('does not show partial failure warning when there are no failed scopes', async () => {
       mockAuditComponents.mockResolvedValue(
         makeResponse([{ componentSlug: 'hero_banner', usageCount: 0, usages: [] }]),
@@ -345,6 +455,102 @@ describe('ComponentsContent.vue', () => {
     })
   })
 
+  describe('Progress', () => {
+    it('shows per-scope progress reported while analysing', async () => {
+      mockAuditComponents.mockImplementation((...args: unknown[]) => {
+        const { onProgress } = args[4] as { onProgress: (progress: unknown) => void }
+        onProgress({
+          scope: { kind: 'page', key: 'landing_page' },
+          phase: 'scanning',
+          fetched: 50,
+          total: 3000,
+        })
+        return new Promise(() => {})
+      })
+      const wrapper = mountComponent()
+      await wrapper
+        .findAll('button')
+        .find((b) => b.text().includes('Run Analysis'))
+        ?.trigger('click')
+      await flushPromises()
+      expect(wrapper.find('.scan-progress').text()).toContain('Scanning 50 of 3,000')
+    })
+  })
+
+  describe('Cancellation', () => {
+    it('aborts the signal passed to auditComponents when Cancel is clicked', async () => {
+      let signal: AbortSignal | undefined
+      mockAuditComponents.mockImplementation((...args: unknown[]) => {
+        signal = (args[4] as { signal: AbortSignal }).signal
+        return new Promise(() => {})
+      })
+      const wrapper = mountComponent()
+      await wrapper
+        .findAll('button')
+        .find((b) => b.text().includes('Run Analysis'))
+        ?.trigger('click')
+      await flushPromises()
+      await wrapper
+        .findAll('button')
+        .find((b) => b.text() === 'Cancel')
+        ?.trigger('click')
+      expect(signal?.aborted).toBe(true)
+    })
+
+    it('stops the analysis when unmounted, e.g. by a workspace switch', async () => {
+      let signal: AbortSignal | undefined
+      mockAuditComponents.mockImplementation((...args: unknown[]) => {
+        signal = (args[4] as { signal: AbortSignal }).signal
+        return new Promise((resolve) =>
+          signal!.addEventListener('abort', () =>
+            resolve({ success: false, cancelled: true, error: 'Analysis cancelled.' }),
+          ),
+        )
+      })
+      const syncLastSynced = vi.spyOn(store, 'syncLastSynced')
+      const wrapper = mountComponent()
+      await wrapper
+        .findAll('button')
+        .find((b) => b.text().includes('Run Analysis'))
+        ?.trigger('click')
+      await flushPromises()
+      wrapper.unmount()
+      await flushPromises()
+      expect(signal?.aborted).toBe(true)
+      expect(syncLastSynced).not.toHaveBeenCalled()
+    })
+
+    it('shows the cancelled warning when the analysis was cancelled part-way', async () => {
+      mockAuditComponents.mockResolvedValue({
+        ...makeResponse([{ componentSlug: 'hero_banner', usageCount: 0, usages: [] }]),
+        cancelled: true,
+      })
+      const wrapper = mountComponent()
+      await wrapper
+        .findAll('button')
+        .find((b) => b.text().includes('Run Analysis'))
+        ?.trigger('click')
+      await flushPromises()
+      expect(wrapper.text()).toContain('Cancelled:')
+    })
+
+    it('shows how many pages hit the depth limit', async () => {
+      mockAuditComponents.mockResolvedValue({
+        ...makeResponse([{ componentSlug: 'hero_banner', usageCount: 0, usages: [] }]),
+        depthLimitedItems: 1,
+      })
+      const wrapper = mountComponent()
+      await wrapper
+        .findAll('button')
+        .find((b) => b.text().includes('Run Analysis'))
+        ?.trigger('click')
+      await flushPromises()
+      expect(wrapper.find('.components-content__depth-limit').text()).toContain(
+        '1 page hit the depth limit',
+      )
+    })
+  })
+
   describe('API error', () => {
     it('shows error message when auditComponents returns failure', async () => {
       mockAuditComponents.mockResolvedValue({
@@ -428,10 +634,10 @@ describe('ComponentsContent.vue', () => {
   })
 
   describe('ScopeSelection integration', () => {
-    it('passes exclude prop with blog and collectionKeys', () => {
+    it('passes exclude prop with blog, collectionKeys and blogMetadata', () => {
       const wrapper = mountComponent()
       const scopeSel = wrapper.findComponent({ name: 'ScopeSelection' })
-      expect(scopeSel.props('exclude')).toEqual(['blog', 'collectionKeys'])
+      expect(scopeSel.props('exclude')).toEqual(['blog', 'collectionKeys', 'blogMetadata'])
     })
 
     it('disables ScopeSelection after results are shown', async () => {
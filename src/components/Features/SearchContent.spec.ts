@@ -7,7 +7,8 @@ import { useStore } from '@/stores/index'
 
 // Mock searchContent function
 const mockSearchContent = vi.fn()
-vi.mock('@/features/searchContent', () => ({
+vi.mock('@/features/searchContent', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/features/searchContent')>()),
   searchContent: (...args: unknown[]) => mockSearchContent(...args),
 }))
 
@@ -417,6 +418,7 @@ describe('SearchContent.vue', () => {
         [],
         true,
         false,
+        expect.objectContaining({ cacheTtl: 60 * 60_000 }),
       )
     })
 
@@ -448,6 +450,7 @@ describe('SearchContent.vue', () => {
         [],
         true,
         false,
+        expect.objectContaining({ cacheTtl: 60 * 60_000 }),
       )
     })
 
@@ -520,6 +523,7 @@ describe('SearchContent.vue', () => {
         [],
         true,
         false,
+        expect.objectContaining({ cacheTtl: 60 * 60_000 }),
       )
     })
 
@@ -586,6 +590,49 @@ describe('SearchContent.vue', () => {
       expect(skeletons).toHaveLength(3)
     })
 
+    it('should show results as they are found, then the sorted results when done', async () => {
+      const result = (slug: string) => ({
+        title: slug,
+        slug,
+        sourceType: 'Blog',
+        matches: [{ path: 'body', value: 'test', count: 1 }],
+      })
+      let resolveSearch: (value: unknown) => void
+      mockSearchContent.mockImplementation((...args: unknown[]) => {
+        const { onResults } = args[7] as { onResults: (results: unknown[]) => void }
+        onResults([result('zulu')])
+        return new Promise((resolve) => {
+          resolveSearch = resolve
+        })
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'test-token'
+      store.selectedScopes.blog = true
+
+      await wrapper.find('#search-content-search-term').setValue('test')
+      await submitSearchForm(wrapper)
+      await nextTick()
+
+      const slugs = () => wrapper.findAll('.search-content__result-slug').map((slug) => slug.text())
+      expect(wrapper.find('.search-content__loading').exists()).toBe(true)
+      expect(slugs()).toEqual(['zulu'])
+      expect(wrapper.findAll('[data-skeleton="true"]')).toHaveLength(0)
+      expect(wrapper.find('.search-content__summary').exists()).toBe(false)
+
+      resolveSearch!({
+        success: true,
+        results: [result('alpha'), result('zulu')],
+        totalItems: 2,
+        failedScopes: [],
+      })
+      await flushPromises()
+
+      expect(slugs()).toEqual(['alpha', 'zulu'])
+      expect(wrapper.find('.search-content__summary').exists()).toBe(true)
+    })
+
     it('should clear loading state after search completes', async () => {
       mockSearchContent.mockResolvedValue({
         success: true,
@@ -634,6 +681,42 @@ describe('SearchContent.vue', () => {
         [],
         true,
         false,
+        expect.objectContaining({ cacheTtl: 60 * 60_000 }),
+      )
+    })
+
+    it('should pass the selected blog metadata in the options', async () => {
+      mockSearchContent.mockResolvedValue({
+        success: true,
+        results: [],
+        totalItems: 0,
+        failedScopes: [],
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'api-token-123'
+      store.selectedScopes = {
+        blog: false,
+        pageTypes: [],
+        collectionKeys: [],
+        authors: true,
+        tags: true,
+      }
+
+      await wrapper.find('#search-content-search-term').setValue('ada')
+      await submitSearchForm(wrapper)
+      await flushPromises()
+
+      expect(mockSearchContent).toHaveBeenCalledWith(
+        'ada',
+        'api-token-123',
+        false,
+        [],
+        [],
+        false,
+        false,
+        expect.objectContaining({ authors: true, categories: undefined, tags: true }),
       )
     })
 
@@ -664,6 +747,7 @@ describe('SearchContent.vue', () => {
         [],
         false,
         false,
+        expect.objectContaining({ cacheTtl: 60 * 60_000 }),
       )
     })
 
@@ -694,6 +778,7 @@ describe('SearchContent.vue', () => {
         ['items', 'products'],
         false,
         false,
+        expect.objectContaining({ cacheTtl: 60 * 60_000 }),
       )
     })
 
@@ -718,7 +803,101 @@ describe('SearchContent.vue', () => {
       await submitSearchForm(wrapper)
       await flushPromises()
 
-      expect(mockSearchContent).toHaveBeenCalledWith('test', 'api-token', false, [], [], true, true)
+      expect(mockSearchContent).toHaveBeenCalledWith(
+        'test',
+        'api-token',
+        false,
+        [],
+        [],
+        true,
+        true,
+        expect.objectContaining({ cacheTtl: 60 * 60_000 }),
+      )
+    })
+
+    it('should match whole words only when asked and say which mode was used', async () => {
+      mockSearchContent.mockResolvedValue({
+        success: true,
+        results: [{ title: 'Guide', slug: 'guide', sourceType: 'Blog', matches: [] }],
+        totalItems: 3,
+        failedScopes: [],
+        blogSearchMode: 'server',
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'api-token'
+      store.selectedScopes.blog = true
+
+      expect(wrapper.find('.search-content__whole-words-notice').exists()).toBe(false)
+      const toggles = wrapper.findAllComponents({ name: 'Toggle' })
+      await toggles[1]!.vm.$emit('update:modelValue', true)
+      expect(wrapper.find('.search-content__whole-words-notice').text()).toContain(
+        '"legally" or "illegal" for "legal"',
+      )
+      await wrapper.find('#search-content-search-term').setValue('headless')
+      await submitSearchForm(wrapper)
+      await flushPromises()
+
+      expect(mockSearchContent).toHaveBeenCalledWith(
+        'headless',
+        'api-token',
+        false,
+        [],
+        [],
+        true,
+        false,
+        expect.objectContaining({ wholeWords: true }),
+      )
+      expect(wrapper.find('.search-content__search-mode').text()).toContain(
+        "Blog searched for whole words with Butter's search endpoint",
+      )
+    })
+
+    it('should explain why the blog was scanned in full', async () => {
+      mockSearchContent.mockResolvedValue({
+        success: true,
+        results: [],
+        totalItems: 3,
+        blogSearchMode: 'scan',
+        serverSearchFallback: 'excluding matches needs every post',
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'api-token'
+      store.selectedScopes.blog = true
+
+      await wrapper.find('#search-content-search-term').setValue('headless')
+      await submitSearchForm(wrapper)
+      await flushPromises()
+
+      expect(wrapper.find('.search-content__search-mode').text()).toBe(
+        'Blog scanned in full because excluding matches needs every post.',
+      )
+    })
+
+    it('should warn how many items hit the depth limit and suggest more reference levels', async () => {
+      mockSearchContent.mockResolvedValue({
+        success: true,
+        results: [],
+        totalItems: 3,
+        depthLimitedItems: 2,
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'api-token'
+      store.levels = 2
+      store.selectedScopes.blog = true
+
+      await wrapper.find('#search-content-search-term').setValue('headless')
+      await submitSearchForm(wrapper)
+      await flushPromises()
+
+      const warning = wrapper.find('.search-content__depth-limit').text()
+      expect(warning).toContain('2 items hit the depth limit')
+      expect(warning).toContain('Raise the reference levels')
     })
 
     it('should pass includePreview from store', async () => {
@@ -739,7 +918,16 @@ describe('SearchContent.vue', () => {
       await submitSearchForm(wrapper)
       await flushPromises()
 
-      expect(mockSearchContent).toHaveBeenCalledWith('test', 'api-token', true, [], [], true, false)
+      expect(mockSearchContent).toHaveBeenCalledWith(
+        'test',
+        'api-token',
+        true,
+        [],
+        [],
+        true,
+        false,
+        expect.objectContaining({ cacheTtl: 60 * 60_000 }),
+      )
     })
 
     it('should handle mixed scope selection', async () => {
@@ -773,10 +961,120 @@ describe('SearchContent.vue', () => {
         ['items'],
         true,
         false,
+        expect.objectContaining({ cacheTtl: 60 * 60_000 }),
       )
     })
   })
 
+  describe('Search Execution - Progress', () => {
+    it('should show per-scope progress reported while searching', async () => {
+      mockSearchContent.mockImplementation((...args: unknown[]) => {
+        const { onProgress } = args[7] as { onProgress: (progress: unknown) => void }
+        onProgress({
+          scope: { kind: 'post', key: 'Blog' },
+          phase: 'fetching',
+          fetched: 100,
+          total: 250,
+        })
+        return new Promise(() => {})
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'test-token'
+      store.selectedScopes.blog = true
+
+      await wrapper.find('#search-content-search-term').setValue('test')
+      await submitSearchForm(wrapper)
+      await nextTick()
+
+      const progress = wrapper.find('.search-content__loading .scan-progress')
+      expect(progress.exists()).toBe(true)
+      expect(progress.text()).toContain('Fetching 100 of 250')
+    })
+  })
+
+  describe('Search Execution - Cancellation', () => {
+    it('should abort the signal passed to searchContent when Cancel is clicked', async () => {
+      let signal: AbortSignal | undefined
+      mockSearchContent.mockImplementation((...args: unknown[]) => {
+        signal = (args[7] as { signal: AbortSignal }).signal
+        return new Promise(() => {})
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'test-token'
+      store.selectedScopes.blog = true
+
+      await wrapper.find('#search-content-search-term').setValue('test')
+      await submitSearchForm(wrapper)
+      await nextTick()
+
+      const cancelBtn = wrapper.findAll('button').find((btn) => btn.text() === 'Cancel')
+      expect(cancelBtn?.exists()).toBe(true)
+      await cancelBtn!.trigger('click')
+
+      expect(signal?.aborted).toBe(true)
+    })
+
+    it('should stop the search when unmounted, e.g. by a workspace switch', async () => {
+      let signal: AbortSignal | undefined
+      mockSearchContent.mockImplementation((...args: unknown[]) => {
+        signal = (args[7] as { signal: AbortSignal }).signal
+        return new Promise((resolve) =>
+          signal!.addEventListener('abort', () =>
+            resolve({ success: false, cancelled: true, error: 'Search cancelled.' }),
+          ),
+        )
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'test-token'
+      store.selectedScopes.blog = true
+      const syncLastSynced = vi.spyOn(store, 'syncLastSynced')
+
+      await wrapper.find('#search-content-search-term').setValue('test')
+      await submitSearchForm(wrapper)
+      await nextTick()
+      wrapper.unmount()
+      await flushPromises()
+
+      expect(signal?.aborted).toBe(true)
+      expect(syncLastSynced).not.toHaveBeenCalled()
+    })
+
+    it('should show the cancelled warning alongside completed results', async () => {
+      mockSearchContent.mockResolvedValue({
+        success: true,
+        results: [
+          {
+            title: 'Done',
+            slug: 'done',
+            sourceType: 'Blog',
+            matches: [{ path: 'title', value: 'Done', count: 1 }],
+          },
+        ],
+        totalItems: 1,
+        cancelled: true,
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'test-token'
+      store.selectedScopes.blog = true
+
+      await wrapper.find('#search-content-search-term').setValue('done')
+      await submitSearchForm(wrapper)
+      await flushPromises()
+
+      expect(wrapper.text()).toContain('Cancelled:')
+      expect(wrapper.text()).toContain('Done')
+      expect(wrapper.findAll('button').some((btn) => btn.text() === 'Cancel')).toBe(false)
+    })
+  })
+
   describe('Search Execution - Error Handling', () => {
     it('should handle search failure', async () => {
       mockSearchContent.mockResolvedValue({
@@ -1214,6 +1512,73 @@ describe('SearchContent.vue', () => {
       expect(wrapper.text()).toContain('5 matches')
     })
 
+    it('should show the API calls the search made in the summary', async () => {
+      const store = useStore()
+      mockSearchContent.mockImplementation(async () => {
+        store.sessionApiCalls += 3
+        return {
+          success: true,
+          results: [
+            {
+              title: 'Test 1',
+              slug: 'test-1',
+              sourceType: 'Blog',
+              matches: [{ path: 'title', value: 'Test', count: 1 }],
+            },
+          ],
+          totalItems: 1,
+          failedScopes: [],
+        }
+      })
+
+      const wrapper = mountComponent()
+      store.token = 'test-token'
+      store.selectedScopes.blog = true
+
+      await wrapper.find('#search-content-search-term').setValue('test')
+      await submitSearchForm(wrapper)
+      await flushPromises()
+
+      expect(wrapper.find('.search-content__api-calls').text()).toBe('(3 API calls)')
+    })
+
+    it('should search the selected locales and badge each result with its locale', async () => {
+      mockSearchContent.mockResolvedValue({
+        success: true,
+        results: [
+          {
+            title: 'Bonjour',
+            slug: 'hello',
+            sourceType: 'Blog',
+            locale: 'fr',
+            matches: [{ path: 'title', value: 'Bonjour', count: 1 }],
+          },
+        ],
+        totalItems: 2,
+        failedScopes: [],
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'test-token'
+      store.locales = ['en', 'fr']
+      store.selectedScopes = {
+        blog: true,
+        pageTypes: [],
+        collectionKeys: [],
+        locales: ['en', 'fr'],
+      }
+
+      await wrapper.find('#search-content-search-term').setValue('bonjour')
+      await submitSearchForm(wrapper)
+      await flushPromises()
+
+      expect(mockSearchContent.mock.calls[0]![7]).toEqual(
+        expect.objectContaining({ locales: ['en', 'fr'] }),
+      )
+      expect(wrapper.find('.search-content__locale-badge').text()).toBe('fr')
+    })
+
     it('should display scope breakdown in summary', async () => {
       mockSearchContent.mockResolvedValue({
         success: true,
@@ -1715,6 +2080,195 @@ describe('SearchContent.vue', () => {
       expect(wrapper.text()).toContain('items')
     })
 
+    it('should explain why each scope failed', async () => {
+      mockSearchContent.mockResolvedValue({
+        success: true,
+        results: [],
+        totalItems: 0,
+        failedScopes: ['Page Type: landing_page', 'Blog'],
+        failures: [
+          {
+            scope: { kind: 'page', key: 'landing_page' },
+            label: 'Page Type: landing_page',
+            reason: 'page type "landing_page" does not exist (404)',
+          },
+          { scope: { kind: 'post', key: 'Blog' }, label: 'Blog', reason: 'token rejected (401)' },
+        ],
+      })
+
+      const wrapper = mountComponent()
+      const store = useStore()
+      store.token = 'test-token'
+      store.selectedScopes.blog = true
+
+      await wrapper.find('#search-content-search-term').setValue('test')
+      await submitSearchForm(wrapper)
+      await flushPromises()
+
+      const reasons = wrapper.findAll('.info-banner--warning li').map((li) => li.text())
+      expect(reasons).toEqual([
+        'Page Type: landing_page: page type "landing_page" does not exist (404)',
+        'Blog: token rejected (401)',
+      ])
+    })
+
+    describe('Retrying failed scopes', () => {
+      const blogFailure = {
+        scope: { kind: 'post', key: 'Blog' },
+        label: 'Blog',
+        reason: 'token rejected (401)',
+      }
+      const result = (slug: string, sourceType: string) => ({
+        title: slug,
+        slug,
+        sourceType,
+        matches: [{ path: 'body', value: 'test', count: 1 }],
+      })
+
+      const searchWithFailedBlog = async () => {
+        mockSearchContent.mockResolvedValueOnce({
+          success: true,
+          results: [result('charlie', 'landing_page')],
+          totalItems: 1,
+          failedScopes: ['Blog'],
+          failures: [blogFailure],
+        })
+
+        const wrapper = mountComponent()
+        const store = useStore()
+        store.token = 'test-token'
+        store.selectedScopes.blog = true
+        store.selectedScopes.pageTypes = ['landing_page']
+
+        await wrapper.find('#search-content-search-term').setValue('test')
+        await submitSearchForm(wrapper)
+        await flushPromises()
+        return wrapper
+      }
+
+      const retryButton = (wrapper: ReturnType<typeof mount>) =>
+        wrapper.findAll('button').find((button) => button.text() === 'Retry failed scopes')!
+
+      it('should search only the failed scopes with the same term', async () => {
+        const wrapper = await searchWithFailedBlog()
+        mockSearchContent.mockResolvedValueOnce({
+          success: true,
+          results: [],
+          totalItems: 0,
+          failedScopes: [],
+          failures: [],
+        })
+
+        await retryButton(wrapper).trigger('click')
+        await flushPromises()
+
+        expect(mockSearchContent).toHaveBeenLastCalledWith(
+          'test',
+          'test-token',
+          false,
+          [],
+          [],
+          true,
+          false,
+          expect.any(Object),
+        )
+      })
+
+      it('should merge retried results in slug order and clear the warning', async () => {
+        const wrapper = await searchWithFailedBlog()
+        mockSearchContent.mockResolvedValueOnce({
+          success: true,
+          results: [result('alpha', 'Blog')],
+          totalItems: 3,
+          failedScopes: [],
+          failures: [],
+        })
+
+        await retryButton(wrapper).trigger('click')
+        await flushPromises()
+
+        expect(wrapper.findAll('.search-content__result-slug').map((slug) => slug.text())).toEqual([
+          'alpha',
+          'charlie',
+        ])
+        expect(wrapper.text()).toContain('out of 4 total selected items')
+        expect(wrapper.text()).not.toContain('Partial failure')
+      })
+
+      it('should resume incomplete scopes from the page they stopped at', async () => {
+        mockSearchContent.mockResolvedValueOnce({
+          success: true,
+          results: [result('charlie', 'recipes')],
+          totalItems: 3600,
+          failedScopes: ['Collection: recipes'],
+          failures: [
+            {
+              scope: { kind: 'collection', key: 'recipes' },
+              label: 'Collection: recipes',
+              reason: 'Butter CMS server error after 3 attempts (503)',
+              resumePage: 37,
+            },
+          ],
+          incompleteScopes: ['Collection: recipes'],
+        })
+
+        const wrapper = mountComponent()
+        const store = useStore()
+        store.token = 'test-token'
+        store.selectedScopes.collectionKeys = ['recipes']
+
+        await wrapper.find('#search-content-search-term').setValue('test')
+        await submitSearchForm(wrapper)
+        await flushPromises()
+
+        expect(wrapper.find('.info-banner--warning li').text()).toContain(
+          '(incomplete: results stop before page 37)',
+        )
+
+        mockSearchContent.mockResolvedValueOnce({
+          success: true,
+          results: [],
+          totalItems: 400,
+          failedScopes: [],
+          failures: [],
+        })
+        await retryButton(wrapper).trigger('click')
+        await flushPromises()
+
+        expect(mockSearchContent).toHaveBeenLastCalledWith(
+          'test',
+          'test-token',
+          false,
+          [],
+          ['recipes'],
+          false,
+          false,
+          expect.objectContaining({ resumeFrom: { 'collection:recipes': 37 } }),
+        )
+        expect(wrapper.text()).toContain('out of 4000 total selected items')
+      })
+
+      it('should keep the previous results when the retry is cancelled', async () => {
+        const wrapper = await searchWithFailedBlog()
+        mockSearchContent.mockResolvedValueOnce({
+          success: false,
+          results: [],
+          totalItems: null,
+          cancelled: true,
+          error: 'Search cancelled before any scope finished.',
+        })
+
+        await retryButton(wrapper).trigger('click')
+        await flushPromises()
+
+        expect(wrapper.findAll('.search-content__result-slug').map((slug) => slug.text())).toEqual([
+          'charlie',
+        ])
+        expect(wrapper.text()).toContain('Retry cancelled')
+        expect(wrapper.text()).toContain('Partial failure')
+      })
+    })
+
     it('should show warning banner with status="warning"', async () => {
       mockSearchContent.mockResolvedValue({
         success: true,
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
+import { createPinia, setActivePinia } from 'pinia'
+import TranslationsContent from './TranslationsContent.vue'
+import { useStore } from '@/stores/index'
+
+const mockAuditTranslations = vi.fn()
+vi.mock('@/features/translations', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/features/translations')>()),
+  auditTranslations: (...args: unknown[]) => mockAuditTranslations(...args),
+}))
+
+describe('TranslationsContent.vue', () => {
+  const mountComponent = () =>
+    mount(TranslationsContent, {
+      global: {
+        stubs: {
+          ScopeSelection: {
+            name: 'ScopeSelection',
+            props: ['disabled', 'ariaContext', 'exclude'],
+            template: '<div class="scope-selection"><slot name="legend" /></div>',
+          },
+        },
+      },
+    })
+
+  const findButton = (wrapper: ReturnType<typeof mountComponent>, text: string) =>
+    wrapper.findAll('button').find((btn) => btn.text() === text)
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    localStorage.clear()
+    mockAuditTranslations.mockReset()
+  })
+
+  it('should ask for at least two locales until they are configured', () => {
+    const wrapper = mountComponent()
+    expect(wrapper.find('.translations-content__info').text()).toContain('at least two locales')
+  })
+
+  it('should leave collections and blog metadata out of the scope selection', () => {
+    const wrapper = mountComponent()
+    expect(wrapper.findComponent({ name: 'ScopeSelection' }).props('exclude')).toEqual([
+      'collectionKeys',
+      'blogMetadata',
+    ])
+  })
+
+  it('should compare every configured locale when none are selected', async () => {
+    mockAuditTranslations.mockResolvedValue({
+      success: true,
+      gaps: [],
+      totalSlugs: 0,
+      published: {},
+    })
+    const store = useStore()
+    store.token = 'token'
+    store.pageTypes = ['landing_page']
+    store.locales = ['en', 'fr', 'de']
+    store.selectedScopes = { blog: true, pageTypes: ['landing_page'], collectionKeys: [] }
+
+    const wrapper = mountComponent()
+    await findButton(wrapper, 'Check Coverage')!.trigger('click')
+    await flushPromises()
+
+    expect(mockAuditTranslations).toHaveBeenCalledWith(
+      'token',
+      false,
+      ['landing_page'],
+      true,
+      ['en', 'fr', 'de'],
+      expect.objectContaining({ signal: expect.any(AbortSignal) }),
+    )
+  })
+
+  it('should list each gap with its state in every locale', async () => {
+    mockAuditTranslations.mockResolvedValue({
+      success: true,
+      gaps: [
+        {
+          scope: 'landing_page',
+          slug: 'pricing',
+          title: 'Pricing',
+          locales: { en: 'published', fr: 'draft' },
+        },
+      ],
+      totalSlugs: 4,
+      published: { en: 4, fr: 3 },
+    })
+    const store = useStore()
+    store.token = 'token'
+    store.pageTypes = ['landing_page']
+    store.locales = ['en', 'fr']
+    store.selectedScopes = {
+      blog: false,
+      pageTypes: ['landing_page'],
+      collectionKeys: [],
+      locales: ['en', 'fr'],
+    }
+
+    const wrapper = mountComponent()
+    await findButton(wrapper, 'Check Coverage')!.trigger('click')
+    await flushPromises()
+
+    expect(wrapper.find('.translations-content__summary').text()).toContain(
+      '1 of 4 slugs is not published in every locale',
+    )
+    expect(wrapper.find('.translations-content__coverage').text()).toContain(
+      '3 of 4 published (75%)',
+    )
+    const row = wrapper.find('.translations-content__row')
+    expect(row.text()).toContain('pricing')
+    expect(row.find('.translations-content__state--draft').text()).toBe('draft')
+    expect(findButton(wrapper, 'Reset')).toBeDefined()
+  })
+
+  it('should show the error when the check fails', async () => {
+    mockAuditTranslations.mockResolvedValue({
+      success: false,
+      gaps: [],
+      totalSlugs: 0,
+      published: {},
+      error: 'Select at least two locales to compare',
+    })
+    const store = useStore()
+    store.token = 'token'
+
+    const wrapper = mountComponent()
+    await findButton(wrapper, 'Check Coverage')!.trigger('click')
+    await flushPromises()
+
+    expect(wrapper.find('[role="alert"]').text()).toContain('Select at least two locales')
+    expect(wrapper.find('.translations-content__results').exists()).toBe(false)
+  })
+})
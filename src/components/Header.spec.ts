@@ -1,5 +1,6 @@
-import { describe, it, expect, vi, beforeAll } from 'vitest'
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest'
 import { mount } from '@vue/test-utils'
+import { createPinia, setActivePinia } from 'pinia'
 import Header from './Header.vue'
 
 // Mock the favicon to avoid file system errors in tests
@@ -10,6 +11,11 @@ beforeAll(() => {
 })
 
 describe('Header.vue', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
   const createWrapper = () => {
     return mount(Header)
   }
@@ -47,6 +53,11 @@ describe('Header.vue', () => {
       expect(wrapper.text()).toContain('Unofficial client-side tools for Butter CMS')
     })
 
+    it('renders the workspace switcher', () => {
+      const wrapper = createWrapper()
+      expect(wrapper.find('.header__workspaces select').exists()).toBe(true)
+    })
+
     it('renders tagline', () => {
       const wrapper = createWrapper()
       const tagline = wrapper.find('.header__tagline')
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mount } from '@vue/test-utils'
+import { createPinia, setActivePinia } from 'pinia'
+import RequestLog from './RequestLog.vue'
+import Btn from './Btn.vue'
+import { useStore } from '@/stores/index'
+import type { RequestLogEntry } from '@/core/requestLog'
+
+const entry = (overrides: Partial<RequestLogEntry> = {}): RequestLogEntry => ({
+  url: 'https://api.buttercms.com/v2/posts/?auth_token=REDACTED&page=1',
+  attempt: 1,
+  demo: false,
+  startedAt: Date.UTC(2026, 9, 20, 12),
+  durationMs: 1250,
+  status: 200,
+  size: 4096,
+  ...overrides,
+})
+
+describe('RequestLog.vue', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  const findButton = (wrapper: ReturnType<typeof mount>, text: string) =>
+    wrapper.findAllComponents(Btn).find((btn) => btn.text() === text)!
+
+  it('shows an empty state before any requests are made', () => {
+    const wrapper = mount(RequestLog)
+
+    expect(wrapper.find('.request-log__empty').exists()).toBe(true)
+    expect(wrapper.find('.request-log__count').text()).toBe('0 requests')
+    expect(findButton(wrapper, 'Export JSON').props('disabled')).toBe(true)
+  })
+
+  it('lists requests newest first with their status, attempt, duration and size', () => {
+    const store = useStore()
+    store.requestLog = [
+      entry({ url: 'https://api.buttercms.com/v2/posts/?page=1' }),
+      entry({ url: 'https://api.buttercms.com/v2/posts/?page=2', attempt: 2, size: 512 }),
+    ]
+    const wrapper = mount(RequestLog)
+
+    const rows = wrapper.findAll('.request-log__row')
+    expect(rows).toHaveLength(2)
+    const cells = rows[0]!.findAll('td').map((cell) => cell.text())
+    expect(cells.slice(1)).toEqual([
+      '200',
+      'https://api.buttercms.com/v2/posts/?page=2',
+      '2',
+      `${(1250).toLocaleString()} ms`,
+      '512 B',
+    ])
+    expect(rows[1]!.text()).toContain('4.0 KB')
+  })
+
+  it('highlights failed requests and counts them in the title', () => {
+    const store = useStore()
+    store.requestLog = [
+      entry(),
+      entry({ status: 503 }),
+      entry({ status: null, size: null, error: 'Network error' }),
+    ]
+    const wrapper = mount(RequestLog)
+
+    expect(wrapper.find('.request-log__count').text()).toBe('3 requests, 2 failed')
+    const failed = wrapper.findAll('.request-log__row--failed')
+    expect(failed).toHaveLength(2)
+    expect(failed[0]!.find('.request-log__status').text()).toBe('Failed')
+    expect(failed[0]!.find('.request-log__status').attributes('title')).toBe('Network error')
+    expect(failed[0]!.text()).toContain('Unknown')
+  })
+
+  it('labels requests answered by the demo account', () => {
+    useStore().requestLog = [entry({ demo: true })]
+    const wrapper = mount(RequestLog)
+
+    expect(wrapper.find('.request-log__demo').exists()).toBe(true)
+  })
+
+  it('exports the log as a JSON download', async () => {
+    useStore().requestLog = [entry()]
+    const createObjectURL = vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:request-log')
+    const revokeObjectURL = vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {})
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+    const wrapper = mount(RequestLog)
+
+    await findButton(wrapper, 'Export JSON').trigger('click')
+
+    const blob = createObjectURL.mock.calls[0]![0] as Blob
+    expect(JSON.parse(await blob.text()).requests).toEqual([entry()])
+    expect(click).toHaveBeenCalledOnce()
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:request-log')
+  })
+
+  it('clears the log', async () => {
+    const store = useStore()
+    store.requestLog = [entry()]
+    const wrapper = mount(RequestLog)
+
+    await findButton(wrapper, 'Clear').trigger('click')
+
+    expect(store.requestLog).toEqual([])
+    expect(wrapper.find('.request-log__empty').exists()).toBe(true)
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import ScanProgress from './ScanProgress.vue'
+import type { ContentProgress } from '@/core/contentSource'
+
+const blog = { kind: 'post' as const, key: 'Blog' }
+const landing = { kind: 'page' as const, key: 'landing_page' }
+
+describe('ScanProgress', () => {
+  describe('Per-scope bars', () => {
+    it('should render a labelled bar for each scope', () => {
+      const wrapper = mount(ScanProgress, {
+        props: {
+          progress: [
+            { scope: landing, phase: 'fetching', fetched: 1200, total: 3000 },
+            { scope: blog, phase: 'fetching', fetched: 0, total: null },
+          ] satisfies ContentProgress[],
+        },
+      })
+
+      const items = wrapper.findAll('.scan-progress__item')
+      expect(items).toHaveLength(2)
+      expect(items[0]!.text()).toContain('Page Type: landing_page')
+      expect(items[0]!.text()).toContain('Fetching 1,200 of 3,000')
+      expect(items[1]!.text()).toContain('Blog')
+      expect(items[1]!.text()).toContain('Fetching…')
+    })
+
+    it('should leave the bar indeterminate until the total is known', () => {
+      const wrapper = mount(ScanProgress, {
+        props: { progress: [{ scope: blog, phase: 'fetching', fetched: 0, total: null }] },
+      })
+
+      expect(wrapper.find('progress').attributes('value')).toBeUndefined()
+    })
+
+    it('should show an empty scope as complete', () => {
+      const wrapper = mount(ScanProgress, {
+        props: { progress: [{ scope: blog, phase: 'scanning', fetched: 0, total: 0 }] },
+      })
+
+      const bar = wrapper.find('progress').element as HTMLProgressElement
+      expect(bar.value).toBe(bar.max)
+    })
+
+    it('should mark bars with the current phase', () => {
+      const wrapper = mount(ScanProgress, {
+        props: { progress: [{ scope: blog, phase: 'scanning', fetched: 5, total: 10 }] },
+      })
+
+      expect(wrapper.find('progress').classes()).toContain('scan-progress__bar--scanning')
+      expect(wrapper.text()).toContain('Scanning 5 of 10')
+    })
+  })
+
+  describe('Summary', () => {
+    it('should announce progress politely', () => {
+      const wrapper = mount(ScanProgress, { props: { progress: [] } })
+
+      const summary = wrapper.find('.scan-progress__summary')
+      expect(summary.attributes('aria-live')).toBe('polite')
+      expect(summary.attributes('aria-atomic')).toBe('true')
+    })
+
+    it('should summarise fetching progress rounded to the nearest 10%', () => {
+      const wrapper = mount(ScanProgress, {
+        props: {
+          progress: [
+            { scope: landing, phase: 'fetching', fetched: 1130, total: 3000 },
+            { scope: blog, phase: 'fetching', fetched: 100, total: 100 },
+          ],
+        },
+      })
+
+      expect(wrapper.find('.scan-progress__summary').text()).toBe(
+        'Fetching content: 40% (1 of 2 scopes done)',
+      )
+    })
+
+    it('should switch to scanning once every scope has been fetched', () => {
+      const wrapper = mount(ScanProgress, {
+        props: {
+          progress: [
+            { scope: landing, phase: 'scanning', fetched: 10, total: 20 },
+            { scope: blog, phase: 'fetching', fetched: 5, total: 5 },
+          ],
+        },
+      })
+
+      expect(wrapper.find('.scan-progress__summary').text()).toBe(
+        'Scanning content: 50% (0 of 2 scopes done)',
+      )
+    })
+  })
+})
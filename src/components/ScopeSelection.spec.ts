@@ -1,8 +1,20 @@
-import { describe, it, expect, beforeEach } from 'vitest'
-import { mount } from '@vue/test-utils'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { flushPromises, mount } from '@vue/test-utils'
+import { nextTick } from 'vue'
 import ScopeSelection from './ScopeSelection.vue'
 import { createPinia, setActivePinia } from 'pinia'
 import { useStore } from '@/stores/index'
+import { probeScopes, scopeCheckKey, type ScopeCheck } from '@/core/configValidation'
+import { scopeId, type ContentScope } from '@/core/contentSource'
+import { fieldFilterParams } from '@/core/requestOptions'
+import { recordApiCalls } from '@/core/apiUsage'
+
+vi.mock('@/core/configValidation', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/core/configValidation')>()),
+  probeScopes: vi.fn(),
+}))
+
+const mockProbeScopes = vi.mocked(probeScopes)
 
 describe('ScopeSelection.vue', () => {
   beforeEach(() => {
@@ -10,6 +22,7 @@ describe('ScopeSelection.vue', () => {
     const store = useStore()
     store.pageTypes = []
     store.collectionKeys = []
+    store.locales = []
     store.selectedScopes = {
       blog: false,
       pageTypes: [],
@@ -351,6 +364,106 @@ describe('ScopeSelection.vue', () => {
     })
   })
 
+  describe('Blog metadata checkboxes', () => {
+    const findOption = (wrapper: ReturnType<typeof mount>, text: string) =>
+      wrapper.findAll('label').find((label) => label.text() === text)
+
+    it('should offer authors, categories and tags beside the blog', () => {
+      const wrapper = mount(ScopeSelection, { props: { ariaContext: 'search' } })
+      const options = wrapper.find('.scope-selection__blog-options')
+
+      expect(options.findAll('label').map((label) => label.text())).toEqual([
+        'Blog',
+        'Authors',
+        'Categories',
+        'Tags',
+      ])
+      expect(findOption(wrapper, 'Tags')!.find('input').attributes('aria-label')).toBe(
+        'Include blog tags in search',
+      )
+    })
+
+    it('should toggle each in the selection', async () => {
+      const store = useStore()
+      const wrapper = mount(ScopeSelection)
+
+      await findOption(wrapper, 'Authors')!.find('input').setValue(true)
+      expect(store.selectedScopes.authors).toBe(true)
+
+      await findOption(wrapper, 'Authors')!.find('input').setValue(false)
+      expect(store.selectedScopes.authors).toBe(false)
+    })
+
+    it('should be hidden when exclude includes "blogMetadata"', () => {
+      const wrapper = mount(ScopeSelection, { props: { exclude: ['blogMetadata'] } })
+
+      expect(findOption(wrapper, 'Authors')).toBeUndefined()
+      expect(findOption(wrapper, 'Blog')).toBeDefined()
+    })
+  })
+
+  describe('Field filters', () => {
+    beforeEach(() => {
+      const store = useStore()
+      store.pageTypes = ['landing_page', 'product_page']
+      store.selectedScopes = { blog: false, pageTypes: ['product_page'], collectionKeys: [] }
+    })
+
+    const addFilter = async (wrapper: ReturnType<typeof mount>, input: string) => {
+      const field = wrapper.find('[aria-label="Add a field filter for product_page"]')
+      await field.setValue(input)
+      await wrapper.find('.scope-selection__field-filter-form').trigger('submit')
+    }
+
+    it('should offer filters for selected page types only', () => {
+      const wrapper = mount(ScopeSelection)
+
+      const scopes = wrapper.findAll('.scope-selection__field-filter-scope')
+      expect(scopes.map((scope) => scope.text())).toEqual(['product_page'])
+    })
+
+    it('should add a filter typed as field=value to the selection', async () => {
+      const store = useStore()
+      const wrapper = mount(ScopeSelection)
+
+      await addFilter(wrapper, 'fields.region = eu')
+
+      expect(store.selectedScopes.fieldFilters).toEqual({ 'page:product_page': { region: 'eu' } })
+      expect(wrapper.find('.scope-selection__field-filter').text()).toContain('region=eu')
+    })
+
+    it('should reject a filter without a value', async () => {
+      const store = useStore()
+      const wrapper = mount(ScopeSelection)
+
+      await addFilter(wrapper, 'region')
+
+      expect(store.selectedScopes.fieldFilters).toBeUndefined()
+      expect(wrapper.find('.scope-selection__field-filter-error').text()).toBe(
+        'Enter a filter as field=value',
+      )
+    })
+
+    it('should remove a filter', async () => {
+      const store = useStore()
+      store.selectedScopes = {
+        ...store.selectedScopes,
+        fieldFilters: { 'page:product_page': { region: 'eu' } },
+      }
+      const wrapper = mount(ScopeSelection)
+
+      await wrapper.find('.scope-selection__field-filter button').trigger('click')
+
+      expect(store.selectedScopes.fieldFilters).toEqual({})
+    })
+
+    it('should not edit filters while disabled', () => {
+      const wrapper = mount(ScopeSelection, { props: { disabled: true } })
+
+      expect(wrapper.find('.scope-selection__field-filter-form').exists()).toBe(false)
+    })
+  })
+
   describe('Exclude Prop', () => {
     it('hides blog checkbox when exclude includes "blog"', () => {
       const wrapper = mount(ScopeSelection, {
@@ -456,4 +569,282 @@ describe('ScopeSelection.vue', () => {
       expect(wrapper.text()).toContain('Collection Keys')
     })
   })
+
+  describe('Item counts and estimate', () => {
+    beforeEach(() => {
+      mockProbeScopes.mockReset()
+      mockProbeScopes.mockImplementation(async (scopes, config) =>
+        Object.fromEntries(
+          scopes.map((scope) => [scopeCheckKey(scope, config.requestOptions), countOf(scope)]),
+        ),
+      )
+      const store = useStore()
+      store.token = 'test-token'
+      store.pageTypes = ['landing_page']
+      store.collectionKeys = ['faq']
+    })
+
+    const counts: Record<string, ScopeCheck> = {
+      'post:Blog': { status: 'valid', count: 1250 },
+      'post:Blog@fr': { status: 'valid', count: 400 },
+      'page:landing_page': { status: 'valid', count: 8 },
+      'page:landing_page?fields.region=eu': { status: 'valid', count: 3 },
+      'collection:faq': { status: 'missing', reason: 'collection "faq" does not exist (404)' },
+    }
+
+    // The count for the scope as filtered and localised, else for the whole scope
+    function countOf(scope: ContentScope): ScopeCheck {
+      const filters = new URLSearchParams(fieldFilterParams(scope.fields)).toString()
+      const id = `${scopeId(scope)}${filters ? `?${filters}` : ''}`
+      return counts[id] ?? counts[scopeId({ kind: scope.kind, key: scope.key })]!
+    }
+
+    it('should show the item count of each selected scope', async () => {
+      useStore().selectedScopes = {
+        blog: true,
+        pageTypes: ['landing_page'],
+        collectionKeys: ['faq'],
+      }
+      const wrapper = mount(ScopeSelection)
+      await flushPromises()
+
+      const labels = wrapper.findAll('.scope-selection__count').map((count) => count.text())
+      expect(labels).toEqual([(1250).toLocaleString(), '8', 'unavailable'])
+      expect(wrapper.findAll('.scope-selection__count')[2]!.attributes('title')).toContain('404')
+    })
+
+    it('should only count the selected scopes', async () => {
+      useStore().selectedScopes = { blog: false, pageTypes: ['landing_page'], collectionKeys: [] }
+      mount(ScopeSelection)
+      await flushPromises()
+
+      expect(mockProbeScopes).toHaveBeenCalledTimes(1)
+      expect(mockProbeScopes.mock.calls[0]![0]).toEqual([{ kind: 'page', key: 'landing_page' }])
+    })
+
+    it('should wait for typing in the token to pause before counting again', async () => {
+      vi.useFakeTimers()
+      try {
+        const store = useStore()
+        store.selectedScopes = { blog: true, pageTypes: [], collectionKeys: [] }
+        mount(ScopeSelection)
+        await flushPromises()
+        expect(mockProbeScopes).toHaveBeenCalledTimes(1)
+
+        for (const token of ['a', 'ab', 'abc']) {
+          store.token = token
+          await nextTick()
+          vi.advanceTimersByTime(300)
+        }
+        expect(mockProbeScopes).toHaveBeenCalledTimes(1)
+
+        vi.advanceTimersByTime(800)
+        await flushPromises()
+        expect(mockProbeScopes).toHaveBeenCalledTimes(2)
+        expect(mockProbeScopes.mock.calls[1]![1]).toMatchObject({ token: 'abc' })
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should count a newly selected scope', async () => {
+      vi.useFakeTimers()
+      try {
+        const wrapper = mount(ScopeSelection)
+        await flushPromises()
+        expect(mockProbeScopes).not.toHaveBeenCalled()
+
+        await wrapper.find('input[type="checkbox"]').setValue(true)
+        vi.advanceTimersByTime(800)
+        await flushPromises()
+
+        expect(mockProbeScopes.mock.calls[0]![0]).toEqual([{ kind: 'post', key: 'Blog' }])
+        expect(wrapper.find('.scope-selection__count').text()).toBe((1250).toLocaleString())
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should not count scopes without a token', async () => {
+      useStore().token = ''
+      const wrapper = mount(ScopeSelection)
+      await flushPromises()
+
+      expect(mockProbeScopes).not.toHaveBeenCalled()
+      expect(wrapper.find('.scope-selection__count').exists()).toBe(false)
+    })
+
+    it('should summarise the cost of the selected scopes', async () => {
+      const store = useStore()
+      store.pageSize = 100
+      store.selectedScopes = { blog: true, pageTypes: ['landing_page'], collectionKeys: [] }
+      const wrapper = mount(ScopeSelection)
+      await flushPromises()
+
+      const estimate = wrapper.find('.scope-selection__estimate').text()
+      expect(estimate).toContain(`${(1258).toLocaleString()} items`)
+      expect(estimate).toContain('up to 14 API requests at 100 per page')
+      expect(estimate).toContain('about 2 seconds')
+    })
+
+    it('should count filtered scopes with their filters', async () => {
+      const store = useStore()
+      store.selectedScopes = {
+        blog: false,
+        pageTypes: ['landing_page'],
+        collectionKeys: [],
+        fieldFilters: { 'page:landing_page': { region: 'eu' } },
+      }
+      const wrapper = mount(ScopeSelection)
+      await flushPromises()
+
+      expect(mockProbeScopes.mock.calls[0]![0]).toEqual([
+        { kind: 'page', key: 'landing_page', fields: { region: 'eu' } },
+      ])
+      expect(wrapper.find('.scope-selection__count').text()).toBe('3')
+      expect(wrapper.find('.scope-selection__estimate').text()).toMatch(/^3 items/)
+    })
+
+    it('should count again once the field filters change', async () => {
+      vi.useFakeTimers()
+      try {
+        const store = useStore()
+        store.selectedScopes = { blog: false, pageTypes: ['landing_page'], collectionKeys: [] }
+        const wrapper = mount(ScopeSelection)
+        await flushPromises()
+        expect(wrapper.find('.scope-selection__count').text()).toBe('8')
+
+        store.selectedScopes = {
+          ...store.selectedScopes,
+          fieldFilters: { 'page:landing_page': { region: 'eu' } },
+        }
+        await nextTick()
+        vi.advanceTimersByTime(800)
+        await flushPromises()
+
+        expect(mockProbeScopes).toHaveBeenCalledTimes(2)
+        expect(wrapper.find('.scope-selection__count').text()).toBe('3')
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should count every selected locale with its own requests', async () => {
+      const store = useStore()
+      store.pageSize = 100
+      store.locales = ['en', 'fr']
+      store.selectedScopes = {
+        blog: true,
+        pageTypes: ['landing_page'],
+        collectionKeys: [],
+        locales: ['en', 'fr'],
+      }
+      const wrapper = mount(ScopeSelection)
+      await flushPromises()
+
+      expect(mockProbeScopes.mock.calls[0]![0]).toHaveLength(4)
+      expect(wrapper.findAll('.scope-selection__count')[0]!.text()).toBe((1650).toLocaleString())
+      const estimate = wrapper.find('.scope-selection__estimate').text()
+      expect(estimate).toContain(`${(1666).toLocaleString()} items`)
+      expect(estimate).toContain('up to 19 API requests')
+    })
+
+    it('should note selected scopes that could not be counted', async () => {
+      useStore().selectedScopes = { blog: false, pageTypes: [], collectionKeys: ['faq'] }
+      const wrapper = mount(ScopeSelection)
+      await flushPromises()
+
+      expect(wrapper.find('.scope-selection__estimate').text()).toContain(
+        '1 scope could not be counted',
+      )
+    })
+
+    it('should leave excluded scopes out of the estimate', async () => {
+      useStore().selectedScopes = { blog: true, pageTypes: ['landing_page'], collectionKeys: [] }
+      const wrapper = mount(ScopeSelection, { props: { exclude: ['blog', 'collectionKeys'] } })
+      await flushPromises()
+
+      expect(wrapper.find('.scope-selection__estimate').text()).toMatch(/^8 items/)
+    })
+
+    it('should hide the estimate once a run has results', async () => {
+      useStore().selectedScopes = { blog: true, pageTypes: [], collectionKeys: [] }
+      const wrapper = mount(ScopeSelection, { props: { disabled: true } })
+      await flushPromises()
+
+      expect(wrapper.find('.scope-selection__estimate').exists()).toBe(false)
+    })
+  })
+
+  describe('Locales', () => {
+    it('should not offer locales until some are configured', () => {
+      const wrapper = mount(ScopeSelection)
+      expect(wrapper.text()).not.toContain('Locales')
+    })
+
+    it('should toggle each configured locale in the selection', async () => {
+      const store = useStore()
+      store.locales = ['en', 'fr']
+      const wrapper = mount(ScopeSelection, { props: { ariaContext: 'search' } })
+
+      expect(wrapper.find('.scope-selection__hint').text()).toContain('only the default locale')
+
+      const fr = wrapper.find('input[aria-label="Include the fr locale in search"]')
+      await fr.setValue(true)
+      expect(store.selectedScopes.locales).toEqual(['fr'])
+      expect(wrapper.find('.scope-selection__hint').exists()).toBe(false)
+
+      await fr.setValue(false)
+      expect(store.selectedScopes.locales).toEqual([])
+    })
+  })
+
+  describe('API budget', () => {
+    beforeEach(() => {
+      mockProbeScopes.mockReset()
+      mockProbeScopes.mockImplementation(async (scopes, config) =>
+        Object.fromEntries(
+          scopes.map((scope) => [
+            scopeCheckKey(scope, config.requestOptions),
+            { status: 'valid', count: 5000 },
+          ]),
+        ),
+      )
+      const store = useStore()
+      store.token = 'test-token'
+      store.pageSize = 100
+      store.monthlyApiBudget = 0
+      store.selectedScopes = { blog: true, pageTypes: [], collectionKeys: [] }
+    })
+
+    it('should warn when the run could go over the monthly budget', async () => {
+      const store = useStore()
+      store.monthlyApiBudget = 10_000
+      store.apiUsage = recordApiCalls({}, 9_960)
+      const wrapper = mount(ScopeSelection)
+      await flushPromises()
+
+      expect(wrapper.find('.scope-selection__budget-warning').text()).toContain(
+        `${(9_960).toLocaleString()} of ${(10_000).toLocaleString()} used so far`,
+      )
+    })
+
+    it('should not warn while the run fits in the budget', async () => {
+      const store = useStore()
+      store.monthlyApiBudget = 10_000
+      store.apiUsage = recordApiCalls({}, 9_950)
+      const wrapper = mount(ScopeSelection)
+      await flushPromises()
+
+      expect(wrapper.find('.scope-selection__budget-warning').exists()).toBe(false)
+    })
+
+    it('should not warn without a budget', async () => {
+      useStore().apiUsage = recordApiCalls({}, 1_000_000)
+      const wrapper = mount(ScopeSelection)
+      await flushPromises()
+
+      expect(wrapper.find('.scope-selection__budget-warning').exists()).toBe(false)
+    })
+  })
 })
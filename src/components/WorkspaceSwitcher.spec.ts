@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { mount } from '@vue/test-utils'
+import { createPinia, setActivePinia } from 'pinia'
+import WorkspaceSwitcher from './WorkspaceSwitcher.vue'
+import { useStore } from '@/stores/index'
+
+describe('WorkspaceSwitcher.vue', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  const findButton = (wrapper: ReturnType<typeof mount>, text: string) =>
+    wrapper.findAll('button').find((btn) => btn.text() === text)
+
+  it('should list every workspace with the active one selected', () => {
+    const store = useStore()
+    store.createWorkspace('Production')
+
+    const wrapper = mount(WorkspaceSwitcher)
+    const select = wrapper.find<HTMLSelectElement>('.workspace-switcher__select')
+
+    expect(select.findAll('option').map((option) => option.text())).toEqual([
+      'Default',
+      'Production',
+    ])
+    expect(select.element.value).toBe('Production')
+  })
+
+  it('should switch workspace when another is chosen', async () => {
+    const store = useStore()
+    store.token = 'staging-token'
+    store.createWorkspace('Production')
+
+    const wrapper = mount(WorkspaceSwitcher)
+    await wrapper.find('.workspace-switcher__select').setValue('Default')
+
+    expect(store.workspace).toBe('Default')
+    expect(store.token).toBe('staging-token')
+  })
+
+  it('should create a workspace from the name entered', async () => {
+    const store = useStore()
+    const wrapper = mount(WorkspaceSwitcher)
+
+    await findButton(wrapper, 'New')!.trigger('click')
+    await wrapper.find('.workspace-switcher__input').setValue('Client A')
+    await wrapper.find('.workspace-switcher__form').trigger('submit')
+
+    expect(store.workspaceNames).toEqual(['Client A', 'Default'])
+    expect(store.workspace).toBe('Client A')
+    expect(wrapper.find('.workspace-switcher__form').exists()).toBe(false)
+  })
+
+  it('should explain why a name cannot be used', async () => {
+    const wrapper = mount(WorkspaceSwitcher)
+
+    await findButton(wrapper, 'New')!.trigger('click')
+    await wrapper.find('.workspace-switcher__input').setValue('default')
+    await wrapper.find('.workspace-switcher__form').trigger('submit')
+
+    expect(wrapper.find('.workspace-switcher__error').text()).toBe(
+      'A workspace called "default" already exists',
+    )
+  })
+
+  it('should rename the active workspace, starting from its current name', async () => {
+    const store = useStore()
+    const wrapper = mount(WorkspaceSwitcher)
+
+    await findButton(wrapper, 'Rename')!.trigger('click')
+    const input = wrapper.find<HTMLInputElement>('.workspace-switcher__input')
+    expect(input.element.value).toBe('Default')
+    await input.setValue('Staging')
+    await wrapper.find('.workspace-switcher__form').trigger('submit')
+
+    expect(store.workspace).toBe('Staging')
+  })
+
+  it('should only delete the active workspace once confirmed', async () => {
+    const store = useStore()
+    store.createWorkspace('Production')
+    const wrapper = mount(WorkspaceSwitcher)
+
+    await findButton(wrapper, 'Delete')!.trigger('click')
+    expect(store.workspaceNames).toEqual(['Default', 'Production'])
+    expect(wrapper.find('.workspace-switcher__confirm').text()).toContain('Delete "Production"')
+
+    await wrapper.find('.workspace-switcher__confirm button').trigger('click')
+    expect(store.workspaceNames).toEqual(['Default'])
+  })
+
+  it('should not offer to delete the last workspace', () => {
+    const wrapper = mount(WorkspaceSwitcher)
+    expect(findButton(wrapper, 'Delete')).toBeUndefined()
+  })
+})
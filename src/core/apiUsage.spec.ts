@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { apiUsageTotals, exceedsApiBudget, recordApiCalls } from './apiUsage'
+
+const may3 = new Date(2026, 4, 3, 12)
+const may9 = new Date(2026, 4, 9, 8)
+const june1 = new Date(2026, 5, 1, 0, 30)
+
+describe('recordApiCalls', () => {
+  it('should count calls against the local calendar day', () => {
+    let usage = recordApiCalls({}, 3, may3)
+    usage = recordApiCalls(usage, 2, may3)
+    usage = recordApiCalls(usage, 5, may9)
+
+    expect(usage).toEqual({ '2026-05-03': 5, '2026-05-09': 5 })
+  })
+
+  it('should drop days from earlier months', () => {
+    const usage = recordApiCalls({ '2026-04-30': 100, '2026-05-09': 5 }, 1, june1)
+
+    expect(usage).toEqual({ '2026-06-01': 1 })
+  })
+
+  it('should not change the usage it is given', () => {
+    const usage = { '2026-05-03': 1 }
+    recordApiCalls(usage, 1, may3)
+    expect(usage).toEqual({ '2026-05-03': 1 })
+  })
+})
+
+describe('apiUsageTotals', () => {
+  const usage = { '2026-04-30': 100, '2026-05-03': 5, '2026-05-09': 7 }
+
+  it('should total today and the current month', () => {
+    expect(apiUsageTotals(usage, may9)).toEqual({ today: 7, thisMonth: 12 })
+  })
+
+  it('should start each day and month from zero', () => {
+    expect(apiUsageTotals(usage, new Date(2026, 4, 10))).toEqual({ today: 0, thisMonth: 12 })
+    expect(apiUsageTotals(usage, june1)).toEqual({ today: 0, thisMonth: 0 })
+  })
+})
+
+describe('exceedsApiBudget', () => {
+  const totals = { today: 10, thisMonth: 900 }
+
+  it('should compare the month so far plus the planned calls with the budget', () => {
+    expect(exceedsApiBudget(totals, 100, 1000)).toBe(false)
+    expect(exceedsApiBudget(totals, 101, 1000)).toBe(true)
+  })
+
+  it('should never be exceeded without a budget', () => {
+    expect(exceedsApiBudget(totals, 1_000_000, 0)).toBe(false)
+  })
+})
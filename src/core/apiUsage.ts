@@ -0,0 +1,48 @@
+/**
+ * Butter CMS API calls made from this browser, counted per local calendar day and keyed
+ * `YYYY-MM-DD`. Only the current month is kept, which is all the daily and monthly totals need.
+ */
+export type ApiUsage = Record<string, number>
+
+export interface ApiUsageTotals {
+  today: number
+  thisMonth: number
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`
+}
+
+function dayKey(date: Date): string {
+  return `${monthKey(date)}-${pad(date.getDate())}`
+}
+
+/** Add `calls` to today's count, dropping days from earlier months */
+export function recordApiCalls(usage: ApiUsage, calls: number, now = new Date()): ApiUsage {
+  const month = monthKey(now)
+  const today = dayKey(now)
+  const kept = Object.entries(usage).filter(([day]) => day.startsWith(month))
+  return { ...Object.fromEntries(kept), [today]: (usage[today] ?? 0) + calls }
+}
+
+export function apiUsageTotals(usage: ApiUsage, now = new Date()): ApiUsageTotals {
+  const month = monthKey(now)
+  return {
+    today: usage[dayKey(now)] ?? 0,
+    thisMonth: Object.entries(usage)
+      .filter(([day]) => day.startsWith(month))
+      .reduce((sum, [, calls]) => sum + calls, 0),
+  }
+}
+
+/**
+ * Whether making `calls` more requests would take this month's usage over `budget`. A budget of
+ * 0 means there is no budget.
+ */
+export function exceedsApiBudget(totals: ApiUsageTotals, calls: number, budget: number): boolean {
+  return budget > 0 && totals.thisMonth + calls > budget
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { getAllAuthors } from './authors'
+import * as fetchModule from './fetch'
+import { ButterApiError } from './errors'
+
+vi.mock('./fetch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./fetch')>()),
+  fetchWithRetry: vi.fn(),
+}))
+
+const mockFetchWithRetry = fetchModule.fetchWithRetry as ReturnType<typeof vi.fn>
+
+describe('getAllAuthors', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should fetch every author in a single unpaginated request', async () => {
+    const author = { first_name: 'Ada', last_name: 'Lovelace', slug: 'ada', bio: 'Analyst' }
+    mockFetchWithRetry.mockResolvedValueOnce({ data: [author] })
+    const onProgress = vi.fn()
+
+    const result = await getAllAuthors({ token: 'test-token', onProgress })
+
+    expect(result).toEqual([author])
+    expect(mockFetchWithRetry).toHaveBeenCalledOnce()
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      'https://api.buttercms.com/v2/authors/?auth_token=test-token',
+      expect.anything(),
+    )
+    expect(onProgress).toHaveBeenCalledWith({ fetched: 1, total: 1 })
+  })
+
+  it('should honour the configured base URL', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({ data: [] })
+
+    await getAllAuthors({
+      token: 'test-token',
+      requestOptions: { baseUrl: 'https://proxy.example.com/butter/' },
+    })
+
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      'https://proxy.example.com/butter/authors/?auth_token=test-token',
+      expect.anything(),
+    )
+  })
+
+  it('should rethrow abort errors without wrapping them', async () => {
+    const abortError = new DOMException('The operation was aborted.', 'AbortError')
+    mockFetchWithRetry.mockRejectedValueOnce(abortError)
+
+    await expect(getAllAuthors({ token: 'test-token' })).rejects.toBe(abortError)
+  })
+
+  it('should throw error on fetch failure', async () => {
+    mockFetchWithRetry.mockRejectedValueOnce(new Error('API error'))
+
+    await expect(getAllAuthors({ token: 'test-token' })).rejects.toThrow(
+      'Failed to fetch authors: API error',
+    )
+  })
+
+  it('should reject an author without a slug as an unexpected response shape', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({ data: [{ first_name: 'Ada' }] })
+
+    const error = await getAllAuthors({ token: 'test-token' }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(ButterApiError)
+    expect(error.scope).toEqual({ kind: 'author', key: 'Authors' })
+    expect(error.diagnostic).toBe('expected data[0].slug to be a string, got undefined')
+  })
+})
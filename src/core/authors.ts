@@ -0,0 +1,33 @@
+import type { Butter } from '@/types'
+import { isAbortError, type FetchProgress } from './fetch'
+import { fetchList } from './paginate'
+import { ButterApiError } from './errors'
+import { buildApiUrl, resolveRequestOptions, type RequestOptions } from './requestOptions'
+import { validateAuthorsResponse } from './responseShape'
+
+/**
+ * Get all blog authors from ButterCMS. Authors are listed in a single, unpaginated response.
+ * `onProgress` is called once, when the response arrives.
+ */
+export async function getAllAuthors(config: {
+  token: string
+  signal?: AbortSignal
+  onProgress?: (progress: FetchProgress) => void
+  /** Base URL only. Authors take no page size, reference levels or alt-media text settings */
+  requestOptions?: Partial<RequestOptions>
+}): Promise<Butter.Author[]> {
+  const options = resolveRequestOptions(config.requestOptions)
+  try {
+    return await fetchList<Butter.Author>(
+      buildApiUrl(options, 'authors', { auth_token: config.token }),
+      { ...config, validate: validateAuthorsResponse },
+    )
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw ButterApiError.forScope(
+      error,
+      { kind: 'author', key: 'Authors' },
+      `Failed to fetch authors: ${(error as Error).message}`,
+    )
+  }
+}
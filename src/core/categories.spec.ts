@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { getAllCategories } from './categories'
+import * as fetchModule from './fetch'
+import { ButterApiError } from './errors'
+
+vi.mock('./fetch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./fetch')>()),
+  fetchWithRetry: vi.fn(),
+}))
+
+const mockFetchWithRetry = fetchModule.fetchWithRetry as ReturnType<typeof vi.fn>
+
+describe('getAllCategories', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should fetch every category in a single unpaginated request', async () => {
+    const category = { name: 'Recipes', slug: 'recipes' }
+    mockFetchWithRetry.mockResolvedValueOnce({ data: [category] })
+
+    const result = await getAllCategories({ token: 'test-token' })
+
+    expect(result).toEqual([category])
+    expect(mockFetchWithRetry).toHaveBeenCalledOnce()
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      'https://api.buttercms.com/v2/categories/?auth_token=test-token',
+      expect.anything(),
+    )
+  })
+
+  it('should rethrow abort errors without wrapping them', async () => {
+    const abortError = new DOMException('The operation was aborted.', 'AbortError')
+    mockFetchWithRetry.mockRejectedValueOnce(abortError)
+
+    await expect(getAllCategories({ token: 'test-token' })).rejects.toBe(abortError)
+  })
+
+  it('should throw error on fetch failure', async () => {
+    mockFetchWithRetry.mockRejectedValueOnce(new Error('API error'))
+
+    await expect(getAllCategories({ token: 'test-token' })).rejects.toThrow(
+      'Failed to fetch categories: API error',
+    )
+  })
+
+  it('should reject a category without a name as an unexpected response shape', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({ data: [{ slug: 'recipes' }] })
+
+    const error = await getAllCategories({ token: 'test-token' }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(ButterApiError)
+    expect(error.scope).toEqual({ kind: 'category', key: 'Categories' })
+    expect(error.diagnostic).toBe('expected data[0].name to be a string, got undefined')
+  })
+})
@@ -0,0 +1,33 @@
+import type { Butter } from '@/types'
+import { isAbortError, type FetchProgress } from './fetch'
+import { fetchList } from './paginate'
+import { ButterApiError } from './errors'
+import { buildApiUrl, resolveRequestOptions, type RequestOptions } from './requestOptions'
+import { validateTaxonomyResponse } from './responseShape'
+
+/**
+ * Get all blog categories from ButterCMS. Categories are listed in a single, unpaginated response.
+ * `onProgress` is called once, when the response arrives.
+ */
+export async function getAllCategories(config: {
+  token: string
+  signal?: AbortSignal
+  onProgress?: (progress: FetchProgress) => void
+  /** Base URL only. Categories take no page size, reference levels or alt-media text settings */
+  requestOptions?: Partial<RequestOptions>
+}): Promise<Butter.Category[]> {
+  const options = resolveRequestOptions(config.requestOptions)
+  try {
+    return await fetchList<Butter.Category>(
+      buildApiUrl(options, 'categories', { auth_token: config.token }),
+      { ...config, validate: validateTaxonomyResponse },
+    )
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw ButterApiError.forScope(
+      error,
+      { kind: 'category', key: 'Categories' },
+      `Failed to fetch categories: ${(error as Error).message}`,
+    )
+  }
+}
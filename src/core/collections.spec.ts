@@ -2,9 +2,11 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import type { Butter } from '@/types'
 import { getAllCollections } from './collections'
 import * as fetchModule from './fetch'
+import { ButterApiError } from './errors'
 
 // Mock the fetch module
-vi.mock('./fetch', () => ({
+vi.mock('./fetch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./fetch')>()),
   fetchWithRetry: vi.fn(),
 }))
 
@@ -47,14 +49,28 @@ describe('getAllCollections', () => {
     expect(mockFetchWithRetry).toHaveBeenCalledOnce()
     expect(mockFetchWithRetry).toHaveBeenCalledWith(
       expect.stringContaining('https://api.buttercms.com/v2/content/test_collection/'),
+      expect.anything(),
     )
     expect(mockFetchWithRetry).toHaveBeenCalledWith(
       expect.stringContaining('auth_token=test-token'),
+      expect.anything(),
+    )
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('page=1'),
+      expect.anything(),
+    )
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('page_size=100'),
+      expect.anything(),
+    )
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('levels=5'),
+      expect.anything(),
+    )
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('alt_media_text=1'),
+      expect.anything(),
     )
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('page=1'))
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('page_size=100'))
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('levels=5'))
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('alt_media_text=1'))
   })
 
   it('should include different collection types in URL', async () => {
@@ -71,7 +87,50 @@ describe('getAllCollections', () => {
       collectionType: 'products',
     })
 
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('content/products/'))
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('content/products/'),
+      expect.anything(),
+    )
+  })
+
+  it('should ask for the configured locale', async () => {
+    const mockResponse: Butter.Response<{ test_collection: Butter.Collection[] }> = {
+      data: { test_collection: [] },
+      meta: { next_page: null, previous_page: null, count: 0 },
+    }
+
+    mockFetchWithRetry.mockResolvedValue(mockResponse)
+
+    await getAllCollections({
+      token: 'test-token',
+      preview: false,
+      collectionType: 'test_collection',
+      locale: 'fr',
+    })
+    await getAllCollections({
+      token: 'test-token',
+      preview: false,
+      collectionType: 'test_collection',
+    })
+
+    expect(mockFetchWithRetry.mock.calls[0]?.[0]).toContain('locale=fr')
+    expect(mockFetchWithRetry.mock.calls[1]?.[0]).not.toContain('locale=')
+  })
+
+  it('should send field filters as fields.<name> parameters', async () => {
+    mockFetchWithRetry.mockResolvedValue({
+      data: { test_collection: [] },
+      meta: { next_page: null, previous_page: null, count: 0 },
+    })
+
+    await getAllCollections({
+      token: 'test-token',
+      preview: false,
+      collectionType: 'test_collection',
+      fields: { region: 'eu' },
+    })
+
+    expect(mockFetchWithRetry.mock.calls[0]?.[0]).toContain('fields.region=eu')
   })
 
   it('should include preview=1 in URL when preview is true', async () => {
@@ -88,7 +147,10 @@ describe('getAllCollections', () => {
       collectionType: 'test_collection',
     })
 
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('preview=1'))
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('preview=1'),
+      expect.anything(),
+    )
   })
 
   it('should not include preview parameter when preview is false', async () => {
@@ -152,7 +214,11 @@ describe('getAllCollections', () => {
     expect(result[0]!.id).toBe(1)
     expect(result[1]!.id).toBe(2)
     expect(mockFetchWithRetry).toHaveBeenCalledTimes(2)
-    expect(mockFetchWithRetry).toHaveBeenNthCalledWith(2, expect.stringContaining('page=2'))
+    expect(mockFetchWithRetry).toHaveBeenNthCalledWith(
+      2,
+      expect.stringContaining('page=2'),
+      expect.anything(),
+    )
   })
 
   it('should handle pagination across five pages', async () => {
@@ -211,6 +277,52 @@ describe('getAllCollections', () => {
     expect(mockFetchWithRetry).toHaveBeenCalledOnce()
   })
 
+  it('should pass the abort signal to each request', async () => {
+    const controller = new AbortController()
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: { test_collection: [] },
+      meta: { next_page: null, previous_page: null, count: 0 },
+    })
+
+    await getAllCollections({
+      token: 'test-token',
+      preview: false,
+      collectionType: 'test_collection',
+      signal: controller.signal,
+    })
+
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.any(String), {
+      signal: controller.signal,
+      onAttempt: expect.any(Function),
+    })
+  })
+
+  it('should report progress after each page using meta.count as the total', async () => {
+    const onProgress = vi.fn()
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: { test_collection: [{ id: 1 }, { id: 2 }] },
+      meta: { next_page: null, previous_page: null, count: 2 },
+    })
+
+    await getAllCollections({
+      token: 'test-token',
+      preview: false,
+      collectionType: 'test_collection',
+      onProgress,
+    })
+
+    expect(onProgress).toHaveBeenCalledExactlyOnceWith({ fetched: 2, total: 2 })
+  })
+
+  it('should rethrow abort errors without wrapping them', async () => {
+    const abortError = new DOMException('The operation was aborted.', 'AbortError')
+    mockFetchWithRetry.mockRejectedValueOnce(abortError)
+
+    await expect(
+      getAllCollections({ token: 'test-token', preview: false, collectionType: 'test_collection' }),
+    ).rejects.toBe(abortError)
+  })
+
   it('should throw error on fetch failure', async () => {
     mockFetchWithRetry.mockRejectedValueOnce(new Error('API error'))
 
@@ -223,6 +335,69 @@ describe('getAllCollections', () => {
     ).rejects.toThrow('Failed to fetch collection test_collection: API error')
   })
 
+  it('should keep the collections fetched before a failed page so the scan can resume', async () => {
+    const collection = (id: number): Butter.Collection => ({ id, name: `Collection ${id}` })
+    mockFetchWithRetry
+      .mockResolvedValueOnce({
+        data: { recipes: [collection(1)] },
+        meta: { next_page: 2, previous_page: null, count: 150 },
+      })
+      .mockRejectedValueOnce(new Error('HTTP 503: Service Unavailable'))
+
+    const error = await getAllCollections({
+      token: 'test-token',
+      preview: false,
+      collectionType: 'recipes',
+    }).catch((e) => e)
+
+    expect(error.message).toBe('Failed to fetch collection recipes: HTTP 503: Service Unavailable')
+    expect(error.scope).toEqual({ kind: 'collection', key: 'recipes' })
+    expect(error.partial).toEqual({ items: [collection(1)], resumePage: 2 })
+  })
+
+  it('should start from the given page when resuming', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: { recipes: [] },
+      meta: { next_page: null, previous_page: 36, count: 3650 },
+    })
+
+    await getAllCollections({
+      token: 'test-token',
+      preview: false,
+      collectionType: 'recipes',
+      startPage: 37,
+    })
+
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('&page=37&'),
+      expect.anything(),
+    )
+  })
+
+  it('should honour the configured request options', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: { recipes: [] },
+      meta: { next_page: null, previous_page: null, count: 0 },
+    })
+
+    await getAllCollections({
+      token: 'test-token',
+      preview: false,
+      collectionType: 'recipes',
+      requestOptions: {
+        baseUrl: 'http://localhost:4000/v2',
+        pageSize: 25,
+        levels: 2,
+        altMediaText: false,
+      },
+    })
+
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      'http://localhost:4000/v2/content/recipes/?auth_token=test-token&page=1&page_size=25&levels=2',
+      expect.anything(),
+    )
+  })
+
   it('should handle different error messages in fetch failure', async () => {
     mockFetchWithRetry.mockRejectedValueOnce(new Error('Network timeout'))
 
@@ -235,37 +410,39 @@ describe('getAllCollections', () => {
     ).rejects.toThrow('Failed to fetch collection products: Network timeout')
   })
 
-  it('should handle response with null data gracefully', async () => {
-    const mockResponse: Partial<Butter.Response<{ test_collection: Butter.Collection[] }>> = {
+  it('should reject a response without data as an unexpected response shape', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({
       meta: { next_page: null, previous_page: null, count: 0 },
-    }
-
-    mockFetchWithRetry.mockResolvedValueOnce(mockResponse)
+    })
 
-    const result = await getAllCollections({
+    const error = await getAllCollections({
       token: 'test-token',
       preview: false,
       collectionType: 'test_collection',
-    })
+    }).catch((e) => e)
 
-    expect(result).toEqual([])
-    expect(mockFetchWithRetry).toHaveBeenCalledOnce()
+    expect(error).toBeInstanceOf(ButterApiError)
+    expect(error.scope).toEqual({ kind: 'collection', key: 'test_collection' })
+    expect(error.reason).toBe(
+      'unexpected response shape: expected data to be an object, got undefined',
+    )
   })
 
-  it('should handle response with non-array data gracefully', async () => {
-    const mockResponse: Partial<Butter.Response<{ test_collection: Butter.Collection[] }>> = {
-      meta: { next_page: null, previous_page: null, count: 0 },
-    }
-
-    mockFetchWithRetry.mockResolvedValueOnce(mockResponse)
+  it('should reject a response without the requested collection instead of returning nothing', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: { recipe: [{ id: 1 }] },
+      meta: { next_page: null, previous_page: null, count: 1 },
+    })
 
-    const result = await getAllCollections({
+    const error = await getAllCollections({
       token: 'test-token',
       preview: false,
-      collectionType: 'test_collection',
-    })
+      collectionType: 'recipes',
+    }).catch((e) => e)
 
-    expect(result).toEqual([])
+    expect(error.message).toBe(
+      'Failed to fetch collection recipes: Unexpected response shape: expected data.recipes to be an array, got undefined',
+    )
     expect(mockFetchWithRetry).toHaveBeenCalledOnce()
   })
 
@@ -1,43 +1,69 @@
 import type { Butter } from '@/types'
-import { fetchWithRetry } from './fetch'
+import { isAbortError, type FetchProgress } from './fetch'
+import { fetchAllPages } from './paginate'
+import { ButterApiError } from './errors'
+import {
+  buildApiUrl,
+  fieldFilterParams,
+  resolveRequestOptions,
+  type FieldFilters,
+  type RequestOptions,
+} from './requestOptions'
+import { collectionResponseValidator } from './responseShape'
 
 /**
- * Get all collections of a specific type from ButterCMS with automatic pagination handling
+ * Get all collections of a specific type from ButterCMS with automatic pagination handling.
+ * `onProgress` is called after each page with the running item count and `meta.count` total.
  */
 export async function getAllCollections(config: {
   token: string
   preview: boolean
+  signal?: AbortSignal
+  onProgress?: (progress: FetchProgress) => void
+  /** Pages fetched at once after the first */
+  concurrency?: number
+  /** Page to resume from after an earlier fetch failed part-way */
+  startPage?: number
+  /** Called with each page of items, in page order, as it arrives instead of returning them */
+  onPage?: (items: Butter.Collection[]) => void
+  /** Base URL, page size and other request settings. Defaults apply to anything missing */
+  requestOptions?: Partial<RequestOptions>
+  /** Locale to fetch, e.g. `fr`. Omit for the account's default locale */
+  locale?: string
+  /** Only fetch items whose fields match, sent as `fields.<name>=<value>` */
+  fields?: FieldFilters
   collectionType: string
 }): Promise<Butter.Collection[]> {
-  const allItems: Butter.Collection[] = []
-
-  let page = 1
-  let hasMore = true
-  while (hasMore) {
-    const url = `https://api.buttercms.com/v2/content/${config.collectionType}/?auth_token=${config.token}&page=${page}&page_size=100&levels=5&alt_media_text=1${config.preview ? '&preview=1' : ''}`
-
-    try {
-      const data = await fetchWithRetry<{
-        [key: typeof config.collectionType]: Butter.Collection[]
-      }>(url)
-
-      if (
-        data.data &&
-        Array.isArray(data.data[config.collectionType]) &&
-        data.data[config.collectionType]!.length > 0
-      ) {
-        allItems.push(...data.data[config.collectionType]!)
-        hasMore = data.meta?.next_page !== null
-        page++
-      } else {
-        hasMore = false
-      }
-    } catch (error) {
-      throw new Error(
-        `Failed to fetch collection ${config.collectionType}: ${(error as Error).message}`,
-      )
-    }
+  const options = resolveRequestOptions(config.requestOptions)
+  try {
+    return await fetchAllPages<{ [key: string]: Butter.Collection[] }, Butter.Collection>(
+      (page) =>
+        buildApiUrl(options, `content/${config.collectionType}`, {
+          auth_token: config.token,
+          page,
+          page_size: options.pageSize,
+          levels: options.levels,
+          alt_media_text: options.altMediaText,
+          locale: config.locale,
+          preview: config.preview,
+          ...fieldFilterParams(config.fields),
+        }),
+      (data) => {
+        const items = data[config.collectionType]
+        return Array.isArray(items) ? items : undefined
+      },
+      {
+        ...config,
+        pageSize: options.pageSize,
+        validate: collectionResponseValidator(config.collectionType),
+      },
+    )
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw ButterApiError.forScope(
+      error,
+      { kind: 'collection', key: config.collectionType, locale: config.locale },
+      `Failed to fetch collection ${config.collectionType}: ${(error as Error).message}`,
+    )
   }
-
-  return allItems
 }
@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { discoverPageTypes, probeScopes, scopeCheckKey, validateConfig } from './configValidation'
+import { ButterApiError } from './errors'
+import * as fetchModule from './fetch'
+
+vi.mock('./fetch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./fetch')>()),
+  fetchWithRetry: vi.fn(),
+}))
+
+const mockFetchWithRetry = fetchModule.fetchWithRetry as ReturnType<typeof vi.fn>
+
+function list(data: unknown, count: number) {
+  return { data, meta: { next_page: null, previous_page: null, count } }
+}
+
+function httpError(status: number, url: string) {
+  return new ButterApiError(`HTTP ${status}`, { status, url, attempts: 1 })
+}
+
+/** Answer requests by path, e.g. `{ 'pages/landing_page': list([...], 3) }`, with 404 otherwise */
+function routes(responses: Record<string, unknown>) {
+  mockFetchWithRetry.mockImplementation(async (url: string) => {
+    const path = decodeURIComponent(new URL(url).pathname.replace(/^\/v2\/|\/$/g, ''))
+    const response = responses[path]
+    if (response instanceof Error) throw response
+    if (response === undefined) throw httpError(404, url)
+    return response
+  })
+}
+
+const config = {
+  token: 'test-token',
+  preview: false,
+  pageTypes: ['landing_page', 'landng_page'],
+  collectionKeys: ['recipes'],
+}
+
+describe('validateConfig', () => {
+  beforeEach(() => {
+    mockFetchWithRetry.mockReset()
+  })
+
+  it('should probe the token and every scope for a single item', async () => {
+    routes({
+      posts: list([{ slug: 'hello' }], 42),
+      'pages/landing_page': list([{ slug: 'home', fields: {} }], 7),
+      'content/recipes': list({ recipes: [{}] }, 12),
+    })
+
+    await validateConfig(config)
+
+    const urls = mockFetchWithRetry.mock.calls.map(([url]) => new URL(url))
+    expect(urls.map((url) => url.pathname)).toEqual([
+      '/v2/posts/',
+      '/v2/pages/landing_page/',
+      '/v2/pages/landng_page/',
+      '/v2/content/recipes/',
+      '/v2/pages/*/',
+    ])
+    for (const url of urls.slice(0, 4)) {
+      expect(url.searchParams.get('page_size')).toBe('1')
+    }
+  })
+
+  it('should report counts for valid scopes and name missing ones', async () => {
+    routes({
+      posts: list([{ slug: 'hello' }], 42),
+      'pages/landing_page': list([{ slug: 'home', fields: {} }], 7),
+      'content/recipes': list({ recipes: [{}] }, 12),
+    })
+
+    const result = await validateConfig(config)
+
+    expect(result.token).toEqual({ status: 'valid', count: 42 })
+    expect(result.pageTypes).toEqual({
+      landing_page: { status: 'valid', count: 7 },
+      landng_page: { status: 'missing', reason: 'page type "landng_page" does not exist (404)' },
+    })
+    expect(result.collectionKeys).toEqual({ recipes: { status: 'valid', count: 12 } })
+  })
+
+  it('should mark every scope unauthorised without probing when the token is rejected', async () => {
+    routes({ posts: httpError(401, 'https://api.buttercms.com/v2/posts/') })
+
+    const result = await validateConfig(config)
+
+    const unauthorised = { status: 'unauthorised', reason: 'token rejected (401)' }
+    expect(result.token).toEqual(unauthorised)
+    expect(result.pageTypes).toEqual({ landing_page: unauthorised, landng_page: unauthorised })
+    expect(result.collectionKeys).toEqual({ recipes: unauthorised })
+    expect(mockFetchWithRetry).toHaveBeenCalledOnce()
+  })
+
+  it('should mark scopes the token may not read as unauthorised', async () => {
+    routes({
+      posts: list([], 0),
+      'pages/landing_page': httpError(403, 'https://api.buttercms.com/v2/pages/landing_page/'),
+    })
+
+    const result = await validateConfig({ ...config, pageTypes: ['landing_page'] })
+
+    expect(result.pageTypes.landing_page).toEqual({
+      status: 'unauthorised',
+      reason: 'access denied (403)',
+    })
+  })
+
+  it('should report unexpected response shapes as errors', async () => {
+    routes({ posts: list([], 0), 'content/recipes': list({ recipe: [] }, 0) })
+
+    const result = await validateConfig({ ...config, pageTypes: [] })
+
+    expect(result.collectionKeys.recipes).toEqual({
+      status: 'error',
+      reason: 'unexpected response shape: expected data.recipes to be an array, got undefined',
+    })
+  })
+
+  it('should suggest page types found with the wildcard that are not configured', async () => {
+    routes({
+      posts: list([], 0),
+      'pages/landing_page': list([], 0),
+      'pages/*': list(
+        [
+          { slug: 'a', page_type: 'landing_page' },
+          { slug: 'b', page_type: 'product_page' },
+          { slug: 'c', page_type: 'blog_index' },
+          { slug: 'd', page_type: 'product_page' },
+        ],
+        4,
+      ),
+    })
+
+    const result = await validateConfig({ ...config, pageTypes: ['landing_page'] })
+
+    expect(result.suggestedPageTypes).toEqual(['blog_index', 'product_page'])
+  })
+
+  it('should pass on abort errors', async () => {
+    const abort = new DOMException('Aborted', 'AbortError')
+    mockFetchWithRetry.mockRejectedValue(abort)
+
+    await expect(validateConfig(config)).rejects.toBe(abort)
+  })
+})
+
+describe('discoverPageTypes', () => {
+  beforeEach(() => {
+    mockFetchWithRetry.mockReset()
+  })
+
+  it('should sample the first page of the wildcard with shallow references', async () => {
+    routes({ 'pages/*': list([], 0) })
+
+    await discoverPageTypes({ token: 'test-token', preview: true })
+
+    const url = new URL(mockFetchWithRetry.mock.calls[0]![0])
+    expect(url.searchParams.get('page_size')).toBe('100')
+    expect(url.searchParams.get('levels')).toBe('1')
+    expect(url.searchParams.get('preview')).toBe('1')
+  })
+
+  it('should suggest nothing when the wildcard is not supported', async () => {
+    routes({})
+
+    await expect(discoverPageTypes({ token: 'test-token', preview: false })).resolves.toEqual([])
+  })
+})
+
+describe('probeScopes', () => {
+  beforeEach(() => {
+    mockFetchWithRetry.mockReset()
+  })
+
+  it('should count the items in each scope, keyed by scope and request options', async () => {
+    routes({
+      posts: list([{ slug: 'hello' }], 42),
+      'pages/landing_page': list([{ slug: 'home' }], 7),
+      'content/recipes': list({ recipes: [{}] }, 12),
+    })
+
+    const checks = await probeScopes(
+      [
+        { kind: 'post', key: 'Blog' },
+        { kind: 'page', key: 'landing_page' },
+        { kind: 'collection', key: 'recipes' },
+        { kind: 'page', key: 'landng_page' },
+      ],
+      { token: 'test-token', preview: true },
+    )
+
+    expect(checks).toEqual({
+      [scopeCheckKey({ kind: 'post', key: 'Blog' })]: { status: 'valid', count: 42 },
+      [scopeCheckKey({ kind: 'page', key: 'landing_page' })]: { status: 'valid', count: 7 },
+      [scopeCheckKey({ kind: 'collection', key: 'recipes' })]: { status: 'valid', count: 12 },
+      [scopeCheckKey({ kind: 'page', key: 'landng_page' })]: {
+        status: 'missing',
+        reason: expect.stringContaining('404'),
+      },
+    })
+    for (const [url] of mockFetchWithRetry.mock.calls) {
+      expect(new URL(url).searchParams.get('page_size')).toBe('1')
+      expect(new URL(url).searchParams.get('preview')).toBe('1')
+    }
+  })
+
+  it('should count unpaginated scopes from the length of the list', async () => {
+    routes({ authors: { data: [{ slug: 'ada' }, { slug: 'grace' }] } })
+
+    const checks = await probeScopes([{ kind: 'author', key: 'Authors' }], {
+      token: 'test-token',
+      preview: true,
+    })
+
+    expect(checks).toEqual({
+      [scopeCheckKey({ kind: 'author', key: 'Authors' })]: { status: 'valid', count: 2 },
+    })
+    const [url] = mockFetchWithRetry.mock.calls[0]!
+    expect(new URL(url).searchParams.has('page_size')).toBe(false)
+    expect(new URL(url).searchParams.has('preview')).toBe(false)
+  })
+
+  it('should count a scope in its locale and with its field filters', async () => {
+    routes({ 'pages/landing_page': list([{ slug: 'accueil', fields: {} }], 3) })
+    const scope = {
+      kind: 'page',
+      key: 'landing_page',
+      locale: 'fr',
+      fields: { region: 'eu' },
+    } as const
+
+    const checks = await probeScopes([scope], { token: 'test-token', preview: false })
+
+    expect(checks).toEqual({ [scopeCheckKey(scope)]: { status: 'valid', count: 3 } })
+    const [url] = mockFetchWithRetry.mock.calls[0]!
+    expect(new URL(url).searchParams.get('locale')).toBe('fr')
+    expect(new URL(url).searchParams.get('fields.region')).toBe('eu')
+  })
+})
+
+describe('scopeCheckKey', () => {
+  it('should tell apart scopes with other locales, filters or request options', () => {
+    const scope = { kind: 'page', key: 'landing_page' } as const
+    const keys = [
+      scopeCheckKey(scope),
+      scopeCheckKey({ ...scope, locale: 'fr' }),
+      scopeCheckKey({ ...scope, fields: { region: 'eu' } }),
+      scopeCheckKey(scope, { levels: 1 }),
+    ]
+
+    expect(new Set(keys).size).toBe(keys.length)
+    expect(scopeCheckKey({ ...scope, fields: { b: '2', a: '1' } })).toBe(
+      scopeCheckKey({ ...scope, fields: { a: '1', b: '2' } }),
+    )
+  })
+})
@@ -0,0 +1,216 @@
+import type { Butter } from '@/types'
+import { scopeId, type ContentScope } from './contentSource'
+import { fetchWithRetry, isAbortError } from './fetch'
+import { ButterApiError } from './errors'
+import {
+  buildApiUrl,
+  fieldFilterParams,
+  MAX_PAGE_SIZE,
+  requestOptionsKey,
+  resolveRequestOptions,
+  type RequestOptions,
+} from './requestOptions'
+import {
+  collectionResponseValidator,
+  validateAuthorsResponse,
+  validatePagesResponse,
+  validatePostsResponse,
+  validateTaxonomyResponse,
+  type ResponseValidator,
+} from './responseShape'
+
+export type ScopeCheckStatus = 'valid' | 'missing' | 'unauthorised' | 'error'
+
+/** The outcome of probing one configured scope, or the token itself */
+export interface ScopeCheck {
+  status: ScopeCheckStatus
+  /** Items in the scope from `meta.count`, once it is known to be valid */
+  count?: number
+  /** Why the check did not pass, e.g. "page type "landing" does not exist (404)" */
+  reason?: string
+}
+
+export interface ConfigValidation {
+  /** Checked against the blog, so a valid token also reports the number of posts */
+  token: ScopeCheck
+  pageTypes: Record<string, ScopeCheck>
+  collectionKeys: Record<string, ScopeCheck>
+  /** Page types found on the account that are not configured yet */
+  suggestedPageTypes: string[]
+}
+
+export interface ProbeOptions {
+  token: string
+  preview: boolean
+  /** Base URL and other request settings. Defaults apply to anything missing */
+  requestOptions?: Partial<RequestOptions>
+  signal?: AbortSignal
+}
+
+export interface ValidateConfigOptions extends ProbeOptions {
+  pageTypes: string[]
+  collectionKeys: string[]
+}
+
+/** Classify a failed probe: rejected tokens are unauthorised, 404s are missing scopes */
+function failedCheck(error: unknown, scope: ContentScope): ScopeCheck {
+  const apiError = ButterApiError.forScope(error, scope)
+  switch (apiError.status) {
+    case 401:
+    case 403:
+      return { status: 'unauthorised', reason: apiError.reason }
+    case 404:
+      return { status: 'missing', reason: apiError.reason }
+    default:
+      return { status: 'error', reason: apiError.reason }
+  }
+}
+
+/**
+ * Where a scope is listed and how its responses are checked. Authors, categories and tags are not
+ * paginated, so they are listed in full and counted from the response.
+ */
+function scopeEndpoint(scope: ContentScope): {
+  path: string
+  validate: ResponseValidator
+  paginated: boolean
+} {
+  switch (scope.kind) {
+    case 'post':
+      return { path: 'posts', validate: validatePostsResponse, paginated: true }
+    case 'page':
+      return { path: `pages/${scope.key}`, validate: validatePagesResponse, paginated: true }
+    case 'collection':
+      return {
+        path: `content/${scope.key}`,
+        validate: collectionResponseValidator(scope.key),
+        paginated: true,
+      }
+    case 'author':
+      return { path: 'authors', validate: validateAuthorsResponse, paginated: false }
+    case 'category':
+      return { path: 'categories', validate: validateTaxonomyResponse, paginated: false }
+    case 'tag':
+      return { path: 'tags', validate: validateTaxonomyResponse, paginated: false }
+  }
+}
+
+/**
+ * Request the first item of `scope` only, which is enough to learn whether it exists, whether the
+ * token may read it, and from `meta.count` how many items it holds. The scope's locale and field
+ * filters are sent as a fetch would send them, so the count is of the items a run would fetch.
+ */
+export async function probeScope(scope: ContentScope, config: ProbeOptions): Promise<ScopeCheck> {
+  const { path, validate, paginated } = scopeEndpoint(scope)
+  const options = resolveRequestOptions(config.requestOptions)
+  const url = buildApiUrl(options, path, {
+    auth_token: config.token,
+    page: paginated ? 1 : undefined,
+    page_size: paginated ? 1 : undefined,
+    locale: paginated ? scope.locale : undefined,
+    preview: paginated && config.preview,
+    ...fieldFilterParams(scope.fields),
+  })
+  try {
+    let attempts = 1
+    const response = await fetchWithRetry(url, {
+      signal: config.signal,
+      onAttempt: (attempt) => (attempts = attempt),
+    })
+    const diagnostic = validate(response)
+    if (diagnostic) {
+      throw ButterApiError.unexpectedShape(diagnostic, { status: 200, url, attempts })
+    }
+    const count = paginated ? response.meta.count : (response.data as unknown[]).length
+    return { status: 'valid', count }
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    return failedCheck(error, scope)
+  }
+}
+
+/**
+ * Identifies what probing `scope` with `requestOptions` counts: the request settings, the scope and
+ * its locale, and its field filters, e.g. `…|page:product_page@fr?fields.region=eu`
+ */
+export function scopeCheckKey(
+  scope: ContentScope,
+  requestOptions?: Partial<RequestOptions>,
+): string {
+  const filters = new URLSearchParams(fieldFilterParams(scope.fields)).toString()
+  const options = requestOptionsKey(resolveRequestOptions(requestOptions))
+  return `${options}|${scopeId(scope)}${filters ? `?${filters}` : ''}`
+}
+
+/** Probe every scope at once, keyed by {@link scopeCheckKey} */
+export async function probeScopes(
+  scopes: ContentScope[],
+  config: ProbeOptions,
+): Promise<Record<string, ScopeCheck>> {
+  const checks = await Promise.all(scopes.map((scope) => probeScope(scope, config)))
+  return Object.fromEntries(
+    scopes.map((scope, index) => [scopeCheckKey(scope, config.requestOptions), checks[index]!]),
+  )
+}
+
+/**
+ * Find the page types in use on the account with the `*` page-type wildcard. Only the first page
+ * of results is sampled, so rarely used page types can be missed. Accounts or proxies that do not
+ * support the wildcard simply get no suggestions.
+ */
+export async function discoverPageTypes(config: ProbeOptions): Promise<string[]> {
+  const options = resolveRequestOptions(config.requestOptions)
+  const url = buildApiUrl(options, 'pages/*', {
+    auth_token: config.token,
+    page: 1,
+    page_size: MAX_PAGE_SIZE,
+    levels: 1,
+    preview: config.preview,
+  })
+  try {
+    const response = await fetchWithRetry<Butter.Page[]>(url, { signal: config.signal })
+    if (validatePagesResponse(response)) return []
+    const pageTypes = response.data
+      .map((page) => page.page_type)
+      .filter((pageType) => typeof pageType === 'string' && pageType !== '*')
+    return [...new Set(pageTypes)].sort()
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    return []
+  }
+}
+
+/**
+ * Check the token, then probe every configured page type and collection key with `page_size=1`.
+ * When the token is rejected, every scope is reported as unauthorised without probing it.
+ */
+export async function validateConfig(config: ValidateConfigOptions): Promise<ConfigValidation> {
+  const token = await probeScope({ kind: 'post', key: 'Blog' }, config)
+
+  if (token.status === 'unauthorised') {
+    const unauthorised = (keys: string[]) => Object.fromEntries(keys.map((key) => [key, token]))
+    return {
+      token,
+      pageTypes: unauthorised(config.pageTypes),
+      collectionKeys: unauthorised(config.collectionKeys),
+      suggestedPageTypes: [],
+    }
+  }
+
+  const [pageTypes, collectionKeys, discovered] = await Promise.all([
+    Promise.all(config.pageTypes.map((key) => probeScope({ kind: 'page', key }, config))),
+    Promise.all(
+      config.collectionKeys.map((key) => probeScope({ kind: 'collection', key }, config)),
+    ),
+    discoverPageTypes(config),
+  ])
+
+  return {
+    token,
+    pageTypes: Object.fromEntries(config.pageTypes.map((key, index) => [key, pageTypes[index]!])),
+    collectionKeys: Object.fromEntries(
+      config.collectionKeys.map((key, index) => [key, collectionKeys[index]!]),
+    ),
+    suggestedPageTypes: discovered.filter((pageType) => !config.pageTypes.includes(pageType)),
+  }
+}
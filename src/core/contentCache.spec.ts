@@ -0,0 +1,357 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  cacheKey,
+  cacheKeyPrefix,
+  clearCachedPages,
+  deleteCachedScope,
+  expireCachedScopes,
+  getLastSyncedAt,
+  hashToken,
+  isCachedScopeFresh,
+  isContentCacheAvailable,
+  readCachedScope,
+  writeCachedPage,
+  writeCachedScope,
+  type CachedScope,
+} from './contentCache'
+
+type Key = string | number | Key[]
+
+// Order keys as IndexedDB does for the kinds the cache uses: numbers, then strings, then arrays
+function compareKeys(a: Key, b: Key): number {
+  const rank = (key: Key) => (Array.isArray(key) ? 2 : typeof key === 'string' ? 1 : 0)
+  if (rank(a) !== rank(b)) return rank(a) - rank(b)
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let index = 0; index < Math.min(a.length, b.length); index++) {
+      const order = compareKeys(a[index]!, b[index]!)
+      if (order !== 0) return order
+    }
+    return a.length - b.length
+  }
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+class FakeKeyRange {
+  constructor(
+    readonly lower: Key,
+    readonly upper: Key,
+  ) {}
+
+  static bound(lower: Key, upper: Key): FakeKeyRange {
+    return new FakeKeyRange(lower, upper)
+  }
+
+  includes(key: Key): boolean {
+    return compareKeys(this.lower, key) <= 0 && compareKeys(key, this.upper) <= 0
+  }
+}
+
+interface FakeRequest {
+  result?: unknown
+  error: unknown
+  onsuccess?: () => void
+  onerror?: () => void
+}
+
+/**
+ * Just enough of IndexedDB for the content cache: object stores kept in memory, with requests,
+ * cursors and transaction completion all settling asynchronously as they do in a browser
+ */
+function createFakeIndexedDB(
+  initial: { version: number; stores: string[] } = { version: 0, stores: [] },
+) {
+  let version = initial.version
+  const stores = new Map<string, Array<{ key: Key; value: unknown }>>(
+    initial.stores.map((name) => [name, []]),
+  )
+
+  const database = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string) => stores.set(name, []),
+    close: () => {},
+    transaction: (_names: string | string[], mode: IDBTransactionMode) => {
+      let pending = 0
+      const transaction = {
+        error: null,
+        oncomplete: undefined as (() => void) | undefined,
+        onerror: undefined as (() => void) | undefined,
+        onabort: undefined as (() => void) | undefined,
+        objectStore: (name: string) => objectStore(name),
+      }
+      const fire = (request: FakeRequest, run: () => unknown) => {
+        pending++
+        queueMicrotask(() => {
+          try {
+            request.result = run()
+            request.onsuccess?.()
+          } catch (error) {
+            request.error = error
+            request.onerror?.()
+          }
+          if (--pending === 0) queueMicrotask(() => pending === 0 && transaction.oncomplete?.())
+        })
+        return request
+      }
+      const objectStore = (name: string) => {
+        const records = () => stores.get(name)!
+        const matching = (query: Key | FakeKeyRange) =>
+          records().filter(({ key }) =>
+            query instanceof FakeKeyRange ? query.includes(key) : compareKeys(query, key) === 0,
+          )
+        const write = (run: () => void) => () => {
+          if (mode === 'readonly') throw new DOMException('Read only', 'ReadOnlyError')
+          run()
+        }
+        const put = (value: unknown, key: Key) =>
+          fire(
+            { error: null },
+            write(() => {
+              const kept = records().filter((record) => compareKeys(record.key, key) !== 0)
+              kept.push({ key, value: structuredClone(value) })
+              stores.set(
+                name,
+                kept.sort((a, b) => compareKeys(a.key, b.key)),
+              )
+            }),
+          )
+        return {
+          get: (key: Key) => fire({ error: null }, () => structuredClone(matching(key)[0]?.value)),
+          getAll: (range: FakeKeyRange) =>
+            fire({ error: null }, () => matching(range).map(({ value }) => structuredClone(value))),
+          put,
+          delete: (query: Key | FakeKeyRange) =>
+            fire(
+              { error: null },
+              write(() => {
+                const dropped = matching(query)
+                stores.set(
+                  name,
+                  records().filter((record) => !dropped.includes(record)),
+                )
+              }),
+            ),
+          openCursor: (range: FakeKeyRange) => {
+            const request: FakeRequest = { error: null }
+            const cursorAt = (index: number) => {
+              const record = matching(range)[index]
+              if (!record) return null
+              return {
+                key: record.key,
+                value: structuredClone(record.value),
+                continue: () => fire(request, () => cursorAt(index + 1)),
+                update: (value: unknown) => put(value, record.key),
+              }
+            }
+            return fire(request, () => cursorAt(0))
+          },
+        }
+      }
+      return transaction
+    },
+  }
+
+  const indexedDB = {
+    open: (_name: string, requested: number) => {
+      const request = {
+        result: database,
+        error: null,
+        onupgradeneeded: undefined as (() => void) | undefined,
+        onsuccess: undefined as (() => void) | undefined,
+        onerror: undefined as (() => void) | undefined,
+      }
+      queueMicrotask(() => {
+        if (version < requested) {
+          version = requested
+          request.onupgradeneeded?.()
+        }
+        request.onsuccess?.()
+      })
+      return request
+    },
+  }
+
+  return { indexedDB, stores }
+}
+
+describe('contentCache', () => {
+  describe('hashToken', () => {
+    it('should return a hex SHA-256 digest', async () => {
+      const hash = await hashToken('test-token')
+      expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    })
+
+    it('should not contain the token', async () => {
+      expect(await hashToken('test-token')).not.toContain('test-token')
+    })
+
+    it('should be stable for the same token and differ between tokens', async () => {
+      expect(await hashToken('a')).toBe(await hashToken('a'))
+      expect(await hashToken('a')).not.toBe(await hashToken('b'))
+    })
+  })
+
+  describe('cache keys', () => {
+    it('should separate preview and published content', () => {
+      expect(cacheKeyPrefix('hash', false)).toBe('hash:published:')
+      expect(cacheKeyPrefix('hash', true)).toBe('hash:preview:')
+    })
+
+    it('should key each scope under its token and preview prefix', () => {
+      expect(cacheKey('hash', false, 'page', 'landing_page')).toBe(
+        'hash:published:page:landing_page',
+      )
+      expect(cacheKey('hash', true, 'collection', 'recipes')).toBe(
+        'hash:preview:collection:recipes',
+      )
+    })
+  })
+
+  describe('isCachedScopeFresh', () => {
+    const now = 1_000_000
+
+    it('should be fresh within the TTL', () => {
+      expect(isCachedScopeFresh({ items: [], syncedAt: now - 500 }, 1000, now)).toBe(true)
+    })
+
+    it('should be stale once the TTL has passed', () => {
+      expect(isCachedScopeFresh({ items: [], syncedAt: now - 1000 }, 1000, now)).toBe(false)
+    })
+
+    it('should be stale when expired by a manual refresh', () => {
+      expect(isCachedScopeFresh({ items: [], syncedAt: now, expired: true }, 1000, now)).toBe(false)
+    })
+  })
+
+  describe('without IndexedDB', () => {
+    it('should report the cache as unavailable', () => {
+      expect(isContentCacheAvailable()).toBe(false)
+    })
+
+    it('should read nothing and ignore writes', async () => {
+      await writeCachedScope('key', { items: [1], syncedAt: Date.now() })
+      expect(await readCachedScope('key')).toBeUndefined()
+    })
+
+    it('should have no last synced time', async () => {
+      expect(await getLastSyncedAt('test-token', false)).toBeNull()
+    })
+
+    it('should expire without throwing', async () => {
+      await expect(expireCachedScopes('test-token', false)).resolves.toBeUndefined()
+    })
+  })
+
+  describe('with IndexedDB', () => {
+    let fake: ReturnType<typeof createFakeIndexedDB>
+
+    beforeEach(() => {
+      fake = createFakeIndexedDB()
+      vi.stubGlobal('indexedDB', fake.indexedDB)
+      vi.stubGlobal('IDBKeyRange', FakeKeyRange)
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    const entry = (syncedAt: number, items: unknown[] = [{ slug: 'home' }]): CachedScope => ({
+      items,
+      syncedAt,
+    })
+
+    it('should read back a written scope', async () => {
+      await writeCachedScope('hash:published:page:landing_page', entry(1000))
+
+      expect(await readCachedScope('hash:published:page:landing_page')).toEqual(entry(1000))
+      expect(await readCachedScope('hash:published:page:other')).toBeUndefined()
+    })
+
+    it('should put a scope cached page by page back together in page order', async () => {
+      const key = 'hash:published:post:Blog'
+      for (let index = 11; index >= 0; index--) await writeCachedPage(key, index, [index])
+      await writeCachedScope(key, { items: [], syncedAt: 1000, pageCount: 12 })
+
+      const cached = await readCachedScope(key)
+
+      expect(cached?.items).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11])
+      expect(cached?.syncedAt).toBe(1000)
+    })
+
+    it('should treat a scope with missing pages as not cached', async () => {
+      const key = 'hash:published:post:Blog'
+      await writeCachedPage(key, 0, ['first'])
+      await writeCachedPage(key, 1, ['second'])
+      await writeCachedScope(key, { items: [], syncedAt: 1000, pageCount: 2 })
+
+      await clearCachedPages(key)
+
+      expect(await readCachedScope(key)).toBeUndefined()
+    })
+
+    it('should only clear the pages of the given scope', async () => {
+      await writeCachedPage('hash:published:post:Blog', 0, ['post'])
+      await writeCachedPage('hash:published:page:landing_page', 0, ['page'])
+
+      await clearCachedPages('hash:published:post:Blog')
+
+      expect(fake.stores.get('content_pages')!.map(({ key }) => key)).toEqual([
+        ['hash:published:page:landing_page', 0],
+      ])
+    })
+
+    it('should delete a scope with its pages and leave other scopes', async () => {
+      const key = 'hash:published:post:Blog'
+      await writeCachedPage(key, 0, ['post'])
+      await writeCachedScope(key, { items: [], syncedAt: 1000, pageCount: 1 })
+      await writeCachedPage('hash:published:page:landing_page', 0, ['page'])
+
+      await deleteCachedScope(key)
+
+      expect(await readCachedScope(key)).toBeUndefined()
+      expect(fake.stores.get('content')).toEqual([])
+      expect(fake.stores.get('content_pages')!.map(({ key }) => key)).toEqual([
+        ['hash:published:page:landing_page', 0],
+      ])
+    })
+
+    it('should add the pages store to a database from before pages were cached', async () => {
+      fake = createFakeIndexedDB({ version: 1, stores: ['content'] })
+      vi.stubGlobal('indexedDB', fake.indexedDB)
+
+      await writeCachedPage('hash:published:post:Blog', 0, ['post'])
+
+      expect(fake.stores.get('content_pages')).toHaveLength(1)
+    })
+
+    it('should give the latest sync time for the token and preview setting only', async () => {
+      const hash = await hashToken('test-token')
+      await writeCachedScope(cacheKey(hash, false, 'page', 'a'), entry(1000))
+      await writeCachedScope(cacheKey(hash, false, 'page', 'b'), entry(3000))
+      await writeCachedScope(cacheKey(hash, true, 'page', 'a'), entry(5000))
+      await writeCachedScope(cacheKey(await hashToken('other'), false, 'page', 'a'), entry(7000))
+
+      expect(await getLastSyncedAt('test-token', false)).toBe(3000)
+      expect(await getLastSyncedAt('test-token', true)).toBe(5000)
+      expect(await getLastSyncedAt('unused-token', false)).toBeNull()
+    })
+
+    it('should expire each scope for the token and preview setting under its own key', async () => {
+      const hash = await hashToken('test-token')
+      const landing = cacheKey(hash, false, 'page', 'landing_page')
+      const recipes = cacheKey(hash, false, 'collection', 'recipes')
+      const preview = cacheKey(hash, true, 'page', 'landing_page')
+      await writeCachedScope(landing, entry(1000, [{ slug: 'home' }]))
+      await writeCachedScope(recipes, entry(2000, [{ slug: 'soup' }]))
+      await writeCachedScope(preview, entry(3000))
+
+      await expireCachedScopes('test-token', false)
+
+      expect(await readCachedScope(landing)).toEqual({ ...entry(1000), expired: true })
+      expect(await readCachedScope(recipes)).toEqual({
+        ...entry(2000, [{ slug: 'soup' }]),
+        expired: true,
+      })
+      expect(await readCachedScope(preview)).toEqual(entry(3000))
+    })
+  })
+})
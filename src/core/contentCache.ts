@@ -0,0 +1,237 @@
+const DB_NAME = 'butter_cms_utilities'
+const DB_VERSION = 2
+const STORE_NAME = 'content'
+// Pages of scopes cached as they streamed in, keyed by `[cache key, page index]`
+const PAGES_STORE_NAME = 'content_pages'
+
+/** A cached scope: the raw items fetched from Butter CMS and when they were last synced */
+export interface CachedScope {
+  items: unknown[]
+  syncedAt: number
+  /** Set by a manual refresh so the next run revalidates regardless of the TTL */
+  expired?: boolean
+  /** `requestOptionsKey` of the settings the items were fetched with. Older entries used the defaults */
+  request?: string
+  /**
+   * Set when the items were cached page by page with {@link writeCachedPage}. They are stored
+   * apart from the entry and put back together by {@link readCachedScope}
+   */
+  pageCount?: number
+}
+
+/** Whether a cached scope can be used as-is without contacting Butter CMS */
+export function isCachedScopeFresh(entry: CachedScope, ttl: number, now = Date.now()): boolean {
+  return !entry.expired && now - entry.syncedAt < ttl
+}
+
+/** Whether IndexedDB is available in this environment. The cache is a no-op without it */
+export function isContentCacheAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+/**
+ * Hash the API token so it is never written to IndexedDB in plain text.
+ * Returns a hex-encoded SHA-256 digest.
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/** Prefix shared by every cache key for one token and preview setting */
+export function cacheKeyPrefix(tokenHash: string, preview: boolean): string {
+  return `${tokenHash}:${preview ? 'preview' : 'published'}:`
+}
+
+/** Cache key for a single scope, e.g. `<hash>:published:page:landing_page` */
+export function cacheKey(tokenHash: string, preview: boolean, kind: string, key: string): string {
+  return `${cacheKeyPrefix(tokenHash, preview)}${kind}:${key}`
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_NAME)) db.createObjectStore(STORE_NAME)
+      if (!db.objectStoreNames.contains(PAGES_STORE_NAME)) db.createObjectStore(PAGES_STORE_NAME)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/** Run a single request against an object store and close the connection afterwards */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = STORE_NAME,
+): Promise<T> {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Visit every cached scope whose key starts with `prefix` with a single cursor, so each key is
+ * always seen with its own entry. In `readwrite` mode `visit` can update entries in place, all in
+ * the one transaction. Resolves once the transaction completes.
+ */
+async function forEachCachedScope(
+  prefix: string,
+  mode: IDBTransactionMode,
+  visit: (cursor: IDBCursorWithValue) => void,
+): Promise<void> {
+  const db = await openDatabase()
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = transaction
+        .objectStore(STORE_NAME)
+        .openCursor(IDBKeyRange.bound(prefix, `${prefix}\uffff`))
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) return
+        visit(cursor)
+        cursor.continue()
+      }
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/** Every cached page of the scope under `key`, in page order */
+function cachedPagesRange(key: string): IDBKeyRange {
+  return IDBKeyRange.bound([key, 0], [key, Infinity])
+}
+
+/**
+ * The cached scope under `key`, with its items put back together if it was cached page by page.
+ * A scope missing any of its pages is treated as not cached.
+ */
+export async function readCachedScope(key: string): Promise<CachedScope | undefined> {
+  if (!isContentCacheAvailable()) return undefined
+  try {
+    const entry: CachedScope | undefined = await withStore('readonly', (store) => store.get(key))
+    if (!entry?.pageCount) return entry
+    const pages: unknown[][] = await withStore(
+      'readonly',
+      (store) => store.getAll(cachedPagesRange(key)),
+      PAGES_STORE_NAME,
+    )
+    return pages.length === entry.pageCount ? { ...entry, items: pages.flat() } : undefined
+  } catch (error) {
+    console.warn('Failed to read content cache:', error)
+    return undefined
+  }
+}
+
+export async function writeCachedScope(key: string, entry: CachedScope): Promise<void> {
+  if (!isContentCacheAvailable()) return
+  try {
+    await withStore('readwrite', (store) => store.put(entry, key))
+  } catch (error) {
+    console.warn('Failed to write content cache:', error)
+  }
+}
+
+/**
+ * Cache one page of the scope under `key` as it arrives, so a streamed scope never has to be held
+ * in memory whole. Pages are numbered from 0, and the scope's entry records how many there are.
+ */
+export async function writeCachedPage(key: string, index: number, items: unknown[]): Promise<void> {
+  if (!isContentCacheAvailable()) return
+  try {
+    await withStore('readwrite', (store) => store.put(items, [key, index]), PAGES_STORE_NAME)
+  } catch (error) {
+    console.warn('Failed to write content cache:', error)
+  }
+}
+
+/** Drop every page cached for the scope under `key`, e.g. before it is cached afresh */
+export async function clearCachedPages(key: string): Promise<void> {
+  if (!isContentCacheAvailable()) return
+  try {
+    await withStore('readwrite', (store) => store.delete(cachedPagesRange(key)), PAGES_STORE_NAME)
+  } catch (error) {
+    console.warn('Failed to write content cache:', error)
+  }
+}
+
+/**
+ * Drop the scope under `key` with every page cached for it, in one transaction, so no entry is
+ * ever left counting pages that have gone
+ */
+export async function deleteCachedScope(key: string): Promise<void> {
+  if (!isContentCacheAvailable()) return
+  try {
+    const db = await openDatabase()
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction([STORE_NAME, PAGES_STORE_NAME], 'readwrite')
+        transaction.objectStore(STORE_NAME).delete(key)
+        transaction.objectStore(PAGES_STORE_NAME).delete(cachedPagesRange(key))
+        transaction.oncomplete = () => resolve()
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error)
+      })
+    } finally {
+      db.close()
+    }
+  } catch (error) {
+    console.warn('Failed to write content cache:', error)
+  }
+}
+
+/**
+ * Most recent sync time across every cached scope for a token and preview setting,
+ * or `null` if nothing has been cached yet.
+ */
+export async function getLastSyncedAt(token: string, preview: boolean): Promise<number | null> {
+  if (!isContentCacheAvailable() || !token) return null
+  try {
+    let latest: number | null = null
+    await forEachCachedScope(
+      cacheKeyPrefix(await hashToken(token), preview),
+      'readonly',
+      (cursor) => {
+        const { syncedAt } = cursor.value as CachedScope
+        if (latest === null || syncedAt > latest) latest = syncedAt
+      },
+    )
+    return latest
+  } catch (error) {
+    console.warn('Failed to read content cache:', error)
+    return null
+  }
+}
+
+/**
+ * Mark every cached scope for a token and preview setting as expired. The cached items are kept
+ * so the next run can refresh them incrementally instead of re-downloading everything.
+ */
+export async function expireCachedScopes(token: string, preview: boolean): Promise<void> {
+  if (!isContentCacheAvailable() || !token) return
+  try {
+    await forEachCachedScope(
+      cacheKeyPrefix(await hashToken(token), preview),
+      'readwrite',
+      (cursor) => cursor.update({ ...(cursor.value as CachedScope), expired: true }),
+    )
+  } catch (error) {
+    console.warn('Failed to expire content cache:', error)
+  }
+}
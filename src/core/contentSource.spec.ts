@@ -0,0 +1,1123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { ButterApiError } from './errors'
+import { DEFAULT_REQUEST_OPTIONS, requestOptionsKey } from './requestOptions'
+import {
+  describeFailures,
+  fetchContent,
+  resumeCursors,
+  retryOptions,
+  scanContent,
+  scopeId,
+  scopeLabel,
+  toContentItem,
+  toContentScopes,
+  toScopeSelection,
+  toStatus,
+  withLocales,
+} from './contentSource'
+
+const {
+  getAllPages: mockGetAllPages,
+  getPagesUpdatedSince: mockGetPagesUpdatedSince,
+  getAllPosts: mockGetAllPosts,
+  getAllCollections: mockGetAllCollections,
+  getAllAuthors: mockGetAllAuthors,
+  isContentCacheAvailable: mockIsContentCacheAvailable,
+  readCachedScope: mockReadCachedScope,
+  writeCachedScope: mockWriteCachedScope,
+  writeCachedPage: mockWriteCachedPage,
+  clearCachedPages: mockClearCachedPages,
+  deleteCachedScope: mockDeleteCachedScope,
+} = vi.hoisted(() => ({
+  getAllPages: vi.fn(),
+  getPagesUpdatedSince: vi.fn(),
+  getAllPosts: vi.fn(),
+  getAllCollections: vi.fn(),
+  getAllAuthors: vi.fn(),
+  isContentCacheAvailable: vi.fn(),
+  readCachedScope: vi.fn(),
+  writeCachedScope: vi.fn(),
+  writeCachedPage: vi.fn(),
+  clearCachedPages: vi.fn(),
+  deleteCachedScope: vi.fn(),
+}))
+
+vi.mock('./pages', () => ({
+  getAllPages: mockGetAllPages,
+  getPagesUpdatedSince: mockGetPagesUpdatedSince,
+}))
+
+vi.mock('./posts', () => ({
+  getAllPosts: mockGetAllPosts,
+}))
+
+vi.mock('./collections', () => ({
+  getAllCollections: mockGetAllCollections,
+}))
+
+vi.mock('./authors', () => ({
+  getAllAuthors: mockGetAllAuthors,
+}))
+
+vi.mock('./contentCache', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./contentCache')>()),
+  isContentCacheAvailable: mockIsContentCacheAvailable,
+  readCachedScope: mockReadCachedScope,
+  writeCachedScope: mockWriteCachedScope,
+  writeCachedPage: mockWriteCachedPage,
+  clearCachedPages: mockClearCachedPages,
+  deleteCachedScope: mockDeleteCachedScope,
+}))
+
+describe('contentSource', () => {
+  beforeEach(() => {
+    mockGetAllPages.mockReset()
+    mockGetAllPosts.mockReset()
+    mockGetAllCollections.mockReset()
+    mockGetAllAuthors.mockReset()
+    mockGetPagesUpdatedSince.mockReset()
+    mockIsContentCacheAvailable.mockReset().mockReturnValue(false)
+    mockReadCachedScope.mockReset()
+    mockWriteCachedScope.mockReset()
+    mockWriteCachedPage.mockReset()
+    mockClearCachedPages.mockReset()
+    mockDeleteCachedScope.mockReset()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('toStatus', () => {
+    it('should pass through known statuses', () => {
+      expect(toStatus('published')).toBe('published')
+      expect(toStatus('draft')).toBe('draft')
+      expect(toStatus('scheduled')).toBe('scheduled')
+    })
+
+    it('should return undefined for unknown values', () => {
+      expect(toStatus('archived')).toBeUndefined()
+      expect(toStatus(undefined)).toBeUndefined()
+      expect(toStatus(1)).toBeUndefined()
+    })
+  })
+
+  describe('toContentScopes', () => {
+    it('should expand a selection into page, blog then collection scopes', () => {
+      expect(
+        toContentScopes({ blog: true, pageTypes: ['landing_page'], collectionKeys: ['recipes'] }),
+      ).toEqual([
+        { kind: 'page', key: 'landing_page' },
+        { kind: 'post', key: 'Blog' },
+        { kind: 'collection', key: 'recipes' },
+      ])
+    })
+
+    it('should place blog metadata between the blog and collections', () => {
+      expect(
+        toContentScopes({
+          blog: true,
+          pageTypes: [],
+          collectionKeys: ['recipes'],
+          authors: true,
+          tags: true,
+        }),
+      ).toEqual([
+        { kind: 'post', key: 'Blog' },
+        { kind: 'author', key: 'Authors' },
+        { kind: 'tag', key: 'Tags' },
+        { kind: 'collection', key: 'recipes' },
+      ])
+    })
+
+    it('should omit the blog when not selected', () => {
+      expect(toContentScopes({ blog: false, pageTypes: [], collectionKeys: [] })).toEqual([])
+    })
+  })
+
+  describe('withLocales', () => {
+    const scopes = [
+      { kind: 'page' as const, key: 'landing_page' },
+      { kind: 'post' as const, key: 'Blog' },
+    ]
+
+    it('should repeat each scope once per locale', () => {
+      expect(withLocales(scopes, ['en', 'fr'])).toEqual([
+        { kind: 'page', key: 'landing_page', locale: 'en' },
+        { kind: 'page', key: 'landing_page', locale: 'fr' },
+        { kind: 'post', key: 'Blog', locale: 'en' },
+        { kind: 'post', key: 'Blog', locale: 'fr' },
+      ])
+    })
+
+    it('should fetch blog metadata once whatever the locales', () => {
+      expect(withLocales([{ kind: 'author', key: 'Authors' }], ['en', 'fr'])).toEqual([
+        { kind: 'author', key: 'Authors' },
+      ])
+    })
+
+    it('should leave scopes in the default locale without locales', () => {
+      expect(withLocales(scopes, [])).toEqual(scopes)
+      expect(withLocales(scopes)).toEqual(scopes)
+    })
+  })
+
+  describe('toScopeSelection', () => {
+    it('should collapse scopes back into the selection they came from', () => {
+      const selection = {
+        blog: true,
+        pageTypes: ['landing_page'],
+        collectionKeys: ['recipes'],
+        authors: false,
+        categories: true,
+        tags: false,
+      }
+
+      expect(toScopeSelection(toContentScopes(selection))).toEqual(selection)
+    })
+
+    it('should select only the given scopes', () => {
+      expect(toScopeSelection([{ kind: 'collection', key: 'recipes' }])).toEqual({
+        blog: false,
+        pageTypes: [],
+        collectionKeys: ['recipes'],
+        authors: false,
+        categories: false,
+        tags: false,
+      })
+    })
+  })
+
+  describe('scopeLabel', () => {
+    it('should label each kind of scope', () => {
+      expect(scopeLabel({ kind: 'post', key: 'Blog' })).toBe('Blog')
+      expect(scopeLabel({ kind: 'page', key: 'landing_page' })).toBe('Page Type: landing_page')
+      expect(scopeLabel({ kind: 'collection', key: 'recipes' })).toBe('Collection: recipes')
+      expect(scopeLabel({ kind: 'tag', key: 'Tags' })).toBe('Tags')
+    })
+
+    it('should name the locale of a localised scope', () => {
+      expect(scopeLabel({ kind: 'page', key: 'landing_page', locale: 'fr' })).toBe(
+        'Page Type: landing_page (fr)',
+      )
+    })
+  })
+
+  describe('scopeId', () => {
+    it('should distinguish scopes of different kinds that share a key', () => {
+      expect(scopeId({ kind: 'page', key: 'recipes' })).toBe('page:recipes')
+      expect(scopeId({ kind: 'collection', key: 'recipes' })).toBe('collection:recipes')
+    })
+
+    it('should distinguish the same scope in different locales', () => {
+      expect(scopeId({ kind: 'page', key: 'recipes', locale: 'fr' })).toBe('page:recipes@fr')
+    })
+  })
+
+  describe('toContentItem', () => {
+    it('should prefer name over title and slug', () => {
+      const item = toContentItem(
+        { name: 'Name', title: 'Title', slug: 'slug', status: 'draft' },
+        { kind: 'page', key: 'landing_page' },
+      )
+      expect(item).toMatchObject({
+        title: 'Name',
+        slug: 'slug',
+        status: 'draft',
+        kind: 'page',
+        scope: 'landing_page',
+      })
+    })
+
+    it('should title authors with their full name', () => {
+      const scope = { kind: 'author' as const, key: 'Authors' }
+      expect(
+        toContentItem({ first_name: 'Ada', last_name: 'Lovelace', slug: 'ada' }, scope).title,
+      ).toBe('Ada Lovelace')
+      expect(toContentItem({ first_name: '', last_name: '', slug: 'anon' }, scope).title).toBe(
+        'anon',
+      )
+    })
+
+    it('should fall back to title, then slug, then Untitled', () => {
+      const scope = { kind: 'collection' as const, key: 'recipes' }
+      expect(toContentItem({ title: 'Title', slug: 'slug' }, scope).title).toBe('Title')
+      expect(toContentItem({ slug: 'slug' }, scope).title).toBe('slug')
+      expect(toContentItem({}, scope).title).toBe('Untitled')
+    })
+
+    it('should default the slug to N/A and keep the raw data', () => {
+      const data = { id: 1 }
+      const item = toContentItem(data, { kind: 'collection', key: 'recipes' })
+      expect(item.slug).toBe('N/A')
+      expect(item.status).toBeUndefined()
+      expect(item.data).toBe(data)
+    })
+
+    it('should handle null data', () => {
+      const item = toContentItem(null, { kind: 'collection', key: 'recipes' })
+      expect(item.title).toBe('Untitled')
+      expect(item.data).toBeNull()
+    })
+  })
+
+  describe('fetchContent', () => {
+    it('should fetch every selected scope and tag items with their scope', async () => {
+      mockGetAllPages.mockResolvedValueOnce([{ slug: 'home', name: 'Home', status: 'published' }])
+      mockGetAllPosts.mockResolvedValueOnce([{ slug: 'post-1', title: 'Post 1' }])
+      mockGetAllCollections.mockResolvedValueOnce([{ slug: 'pasta' }])
+
+      const result = await fetchContent({
+        token: 'test-token',
+        preview: true,
+        scopes: { blog: true, pageTypes: ['landing_page'], collectionKeys: ['recipes'] },
+      })
+
+      const requestOptions = DEFAULT_REQUEST_OPTIONS
+      expect(mockGetAllPages).toHaveBeenCalledWith({
+        token: 'test-token',
+        preview: true,
+        requestOptions,
+        pageType: 'landing_page',
+      })
+      expect(mockGetAllPosts).toHaveBeenCalledWith({
+        token: 'test-token',
+        preview: true,
+        requestOptions,
+      })
+      expect(mockGetAllCollections).toHaveBeenCalledWith({
+        token: 'test-token',
+        preview: true,
+        requestOptions,
+        collectionType: 'recipes',
+      })
+      expect(result.items.map((item) => [item.kind, item.scope, item.title])).toEqual([
+        ['page', 'landing_page', 'Home'],
+        ['post', 'Blog', 'Post 1'],
+        ['collection', 'recipes', 'pasta'],
+      ])
+      expect(result.succeededScopes).toHaveLength(3)
+      expect(result.failedScopes).toEqual([])
+    })
+
+    it('should forward field filters to their page type in every locale', async () => {
+      mockGetAllPages.mockResolvedValue([])
+      mockGetAllCollections.mockResolvedValue([])
+
+      const result = await fetchContent({
+        token: 'test-token',
+        preview: false,
+        scopes: { blog: false, pageTypes: ['product_page'], collectionKeys: ['faq'] },
+        locales: ['en', 'fr'],
+        fieldFilters: { 'page:product_page': { region: 'eu' }, 'collection:faq': {} },
+      })
+
+      for (const locale of ['en', 'fr']) {
+        expect(mockGetAllPages).toHaveBeenCalledWith(
+          expect.objectContaining({ pageType: 'product_page', locale, fields: { region: 'eu' } }),
+        )
+      }
+      expect(mockGetAllCollections.mock.calls[0]![0].fields).toBeUndefined()
+      expect(result.succeededScopes[0]).toEqual({
+        kind: 'page',
+        key: 'product_page',
+        locale: 'en',
+        fields: { region: 'eu' },
+      })
+    })
+
+    it('should fetch blog authors once without preview or locale', async () => {
+      mockGetAllAuthors.mockResolvedValueOnce([
+        { slug: 'ada', first_name: 'Ada', last_name: 'Lovelace' },
+      ])
+
+      const result = await fetchContent({
+        token: 'test-token',
+        preview: true,
+        scopes: { blog: false, pageTypes: [], collectionKeys: [], authors: true },
+        locales: ['en', 'fr'],
+      })
+
+      expect(mockGetAllAuthors).toHaveBeenCalledTimes(1)
+      expect(mockGetAllAuthors.mock.calls[0]![0]).not.toHaveProperty('locale')
+      expect(result.items.map((item) => [item.kind, item.scope, item.title])).toEqual([
+        ['author', 'Authors', 'Ada Lovelace'],
+      ])
+    })
+
+    it('should report failed scopes without failing the others', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      mockGetAllPages.mockRejectedValueOnce(new Error('API Error'))
+      mockGetAllPosts.mockResolvedValueOnce([{ slug: 'post-1' }])
+
+      const result = await fetchContent({
+        token: 'test-token',
+        preview: false,
+        scopes: { blog: true, pageTypes: ['landing_page'], collectionKeys: [] },
+      })
+
+      expect(result.items).toHaveLength(1)
+      expect(result.succeededScopes).toEqual([{ kind: 'post', key: 'Blog' }])
+      expect(result.failedScopes).toEqual([{ kind: 'page', key: 'landing_page' }])
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Failed to fetch page type "landing_page":',
+        expect.any(Error),
+      )
+    })
+
+    it('should explain why each failed scope failed', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      mockGetAllPages.mockRejectedValueOnce(
+        new ButterApiError('Failed to fetch page landing_page: HTTP 404: Not Found', {
+          status: 404,
+          url: null,
+          attempts: 1,
+          scope: { kind: 'page', key: 'landing_page' },
+        }),
+      )
+      mockGetAllPosts.mockRejectedValueOnce(new Error('Unexpected'))
+
+      const result = await fetchContent({
+        token: 'test-token',
+        preview: false,
+        scopes: { blog: true, pageTypes: ['landing_page'], collectionKeys: [] },
+      })
+
+      expect(describeFailures(result.failures)).toEqual([
+        {
+          scope: { kind: 'page', key: 'landing_page' },
+          label: 'Page Type: landing_page',
+          reason: 'page type "landing_page" does not exist (404)',
+        },
+        { scope: { kind: 'post', key: 'Blog' }, label: 'Blog', reason: 'network error' },
+      ])
+      expect(describeFailures(result.failures, (scope) => scope.key)[0]!.label).toBe('landing_page')
+    })
+
+    it('should return nothing when no scopes are selected', async () => {
+      const result = await fetchContent({
+        token: 'test-token',
+        preview: false,
+        scopes: { blog: false, pageTypes: [], collectionKeys: [] },
+      })
+
+      expect(result).toEqual({
+        items: [],
+        succeededScopes: [],
+        failedScopes: [],
+        failures: [],
+        incompleteScopes: [],
+        cancelledScopes: [],
+      })
+      expect(mockGetAllPages).not.toHaveBeenCalled()
+      expect(mockGetAllPosts).not.toHaveBeenCalled()
+      expect(mockGetAllCollections).not.toHaveBeenCalled()
+    })
+
+    it('should fetch each scope once per locale and tag items with their locale', async () => {
+      mockGetAllPosts.mockImplementation(async ({ locale }: { locale: string }) => [
+        { slug: `hello-${locale}`, title: 'Hello' },
+      ])
+
+      const result = await fetchContent({
+        token: 'test-token',
+        preview: false,
+        scopes: { blog: true, pageTypes: [], collectionKeys: [] },
+        locales: ['en', 'fr'],
+      })
+
+      expect(mockGetAllPosts).toHaveBeenCalledWith(expect.objectContaining({ locale: 'en' }))
+      expect(mockGetAllPosts).toHaveBeenCalledWith(expect.objectContaining({ locale: 'fr' }))
+      expect(result.items.map((item) => [item.slug, item.locale])).toEqual([
+        ['hello-en', 'en'],
+        ['hello-fr', 'fr'],
+      ])
+      expect(result.succeededScopes).toEqual([
+        { kind: 'post', key: 'Blog', locale: 'en' },
+        { kind: 'post', key: 'Blog', locale: 'fr' },
+      ])
+    })
+
+    it('should only fetch the scopes named in onlyScopeIds', async () => {
+      mockGetAllPosts.mockResolvedValue([])
+
+      await fetchContent({
+        token: 'test-token',
+        preview: false,
+        scopes: { blog: true, pageTypes: ['landing_page'], collectionKeys: [] },
+        locales: ['en', 'fr'],
+        onlyScopeIds: ['post:Blog@fr'],
+      })
+
+      expect(mockGetAllPages).not.toHaveBeenCalled()
+      expect(mockGetAllPosts).toHaveBeenCalledTimes(1)
+      expect(mockGetAllPosts).toHaveBeenCalledWith(expect.objectContaining({ locale: 'fr' }))
+    })
+
+    it('should report scopes still fetching when aborted as cancelled, not failed', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const controller = new AbortController()
+      mockGetAllPosts.mockResolvedValueOnce([{ slug: 'post-1' }])
+      mockGetAllPages.mockImplementationOnce(async ({ signal }: { signal: AbortSignal }) => {
+        controller.abort()
+        throw new DOMException(String(signal.aborted), 'AbortError')
+      })
+
+      const result = await fetchContent({
+        token: 'test-token',
+        preview: false,
+        scopes: { blog: true, pageTypes: ['landing_page'], collectionKeys: [] },
+        signal: controller.signal,
+      })
+
+      expect(mockGetAllPages).toHaveBeenCalledWith(
+        expect.objectContaining({ signal: controller.signal }),
+      )
+      expect(result.items.map((item) => item.slug)).toEqual(['post-1'])
+      expect(result.cancelledScopes).toEqual([{ kind: 'page', key: 'landing_page' }])
+      expect(result.failedScopes).toEqual([])
+      expect(consoleErrorSpy).not.toHaveBeenCalled()
+    })
+
+    it('should report fetching progress for each scope from start to finish', async () => {
+      const onProgress = vi.fn()
+      mockGetAllPages.mockImplementationOnce(
+        async ({ onProgress: onPage }: { onProgress: (p: unknown) => void }) => {
+          onPage({ fetched: 100, total: 150 })
+          onPage({ fetched: 150, total: 150 })
+          return Array.from({ length: 150 }, (_, i) => ({ slug: `page-${i}` }))
+        },
+      )
+
+      await fetchContent({
+        token: 'test-token',
+        preview: false,
+        scopes: { blog: false, pageTypes: ['landing_page'], collectionKeys: [] },
+        onProgress,
+      })
+
+      const scope = { kind: 'page', key: 'landing_page' }
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { scope, phase: 'fetching', fetched: 0, total: null },
+        { scope, phase: 'fetching', fetched: 100, total: 150 },
+        { scope, phase: 'fetching', fetched: 150, total: 150 },
+        { scope, phase: 'fetching', fetched: 150, total: 150 },
+      ])
+    })
+
+    describe('streaming items', () => {
+      it('should hand on each page of items as it arrives instead of collecting them', async () => {
+        const onItems = vi.fn()
+        mockGetAllPosts.mockImplementationOnce(async (config) => {
+          config.onPage([{ slug: 'first' }])
+          config.onPage([{ slug: 'second' }])
+          return [{ slug: 'first' }, { slug: 'second' }]
+        })
+
+        const result = await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: true, pageTypes: [], collectionKeys: [] },
+          onItems,
+        })
+
+        expect(result.items).toEqual([])
+        expect(result.succeededScopes).toEqual([{ kind: 'post', key: 'Blog' }])
+        expect(
+          onItems.mock.calls.map(([items]) => items.map((item: { slug: string }) => item.slug)),
+        ).toEqual([['first'], ['second']])
+        expect(onItems).toHaveBeenCalledWith(expect.any(Array), { kind: 'post', key: 'Blog' })
+      })
+
+      it('should rethrow errors from onItems rather than failing the scope', async () => {
+        const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+        mockGetAllPosts.mockResolvedValueOnce([{ slug: 'a' }])
+
+        await expect(
+          fetchContent({
+            token: 'test-token',
+            preview: false,
+            scopes: { blog: true, pageTypes: [], collectionKeys: [] },
+            onItems: () => {
+              throw new Error('scan failed')
+            },
+          }),
+        ).rejects.toThrow('scan failed')
+        expect(consoleErrorSpy).not.toHaveBeenCalled()
+      })
+
+      it('should hand on a cached scope all at once', async () => {
+        mockIsContentCacheAvailable.mockReturnValue(true)
+        mockReadCachedScope.mockResolvedValueOnce({
+          items: [{ slug: 'a' }, { slug: 'b' }],
+          syncedAt: Date.now(),
+        })
+        const onItems = vi.fn()
+
+        await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: false, pageTypes: ['landing_page'], collectionKeys: [] },
+          cacheTtl: 60_000,
+          onItems,
+        })
+
+        expect(mockGetAllPages).not.toHaveBeenCalled()
+        expect(onItems).toHaveBeenCalledOnce()
+        expect(onItems.mock.calls[0]![0]).toHaveLength(2)
+      })
+    })
+
+    describe('incomplete scopes', () => {
+      const recipes = { kind: 'collection' as const, key: 'recipes' }
+      const failedAtPage = (resumePage: number, items: unknown[]) =>
+        new ButterApiError('Failed to fetch collection recipes: HTTP 503: Service Unavailable', {
+          status: 503,
+          url: null,
+          attempts: 3,
+          scope: recipes,
+          partial: { items, resumePage },
+        })
+
+      beforeEach(() => {
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+      })
+
+      it('should keep items fetched before a mid-pagination failure and mark the scope incomplete', async () => {
+        mockGetAllCollections.mockRejectedValueOnce(
+          failedAtPage(37, [{ slug: 'a' }, { slug: 'b' }]),
+        )
+
+        const result = await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: false, pageTypes: [], collectionKeys: ['recipes'] },
+        })
+
+        expect(result.items.map((item) => item.slug)).toEqual(['a', 'b'])
+        expect(result.succeededScopes).toEqual([])
+        expect(result.failedScopes).toEqual([recipes])
+        expect(result.incompleteScopes).toEqual([recipes])
+        expect(result.failures[0]!.resumePage).toBe(37)
+        expect(describeFailures(result.failures)[0]!.resumePage).toBe(37)
+      })
+
+      it('should treat a failure on the first page as a plain failure', async () => {
+        mockGetAllCollections.mockRejectedValueOnce(failedAtPage(1, []))
+
+        const result = await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: false, pageTypes: [], collectionKeys: ['recipes'] },
+        })
+
+        expect(result.incompleteScopes).toEqual([])
+        expect(result.failures[0]!.resumePage).toBeUndefined()
+      })
+
+      it('should resume a scope from its cursor without using the cache', async () => {
+        mockIsContentCacheAvailable.mockReturnValue(true)
+        mockGetAllCollections.mockResolvedValueOnce([{ slug: 'c' }])
+
+        const result = await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: false, pageTypes: [], collectionKeys: ['recipes'] },
+          cacheTtl: 60_000,
+          resumeFrom: { 'collection:recipes': 37 },
+        })
+
+        expect(mockGetAllCollections).toHaveBeenCalledWith(
+          expect.objectContaining({ collectionType: 'recipes', startPage: 37 }),
+        )
+        expect(mockReadCachedScope).not.toHaveBeenCalled()
+        expect(mockWriteCachedScope).not.toHaveBeenCalled()
+        expect(result.succeededScopes).toEqual([recipes])
+      })
+
+      it('should stay incomplete at the same cursor when a resumed scope fails straight away', async () => {
+        mockGetAllCollections.mockRejectedValueOnce(failedAtPage(37, []))
+
+        const result = await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: false, pageTypes: [], collectionKeys: ['recipes'] },
+          resumeFrom: { 'collection:recipes': 37 },
+        })
+
+        expect(result.incompleteScopes).toEqual([recipes])
+        expect(resumeCursors(result.failures)).toEqual({ 'collection:recipes': 37 })
+      })
+    })
+
+    describe('with the content cache', () => {
+      const scopes = { blog: false, pageTypes: ['landing_page'], collectionKeys: [] }
+
+      beforeEach(() => {
+        mockIsContentCacheAvailable.mockReturnValue(true)
+      })
+
+      it('should not touch the cache when no TTL is given', async () => {
+        mockGetAllPages.mockResolvedValueOnce([{ slug: 'home' }])
+
+        await fetchContent({ token: 'test-token', preview: false, scopes })
+
+        expect(mockReadCachedScope).not.toHaveBeenCalled()
+        expect(mockWriteCachedScope).not.toHaveBeenCalled()
+      })
+
+      it('should fetch and cache a scope on a cold cache', async () => {
+        mockReadCachedScope.mockResolvedValueOnce(undefined)
+        mockGetAllPages.mockResolvedValueOnce([{ slug: 'home' }])
+
+        const result = await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes,
+          cacheTtl: 60_000,
+        })
+
+        expect(result.items).toHaveLength(1)
+        expect(mockReadCachedScope).toHaveBeenCalledWith(
+          expect.stringMatching(/^[0-9a-f]{64}:published:page:landing_page$/),
+        )
+        expect(mockWriteCachedScope).toHaveBeenCalledWith(
+          expect.stringContaining(':published:page:landing_page'),
+          {
+            items: [{ slug: 'home' }],
+            syncedAt: expect.any(Number),
+            request: requestOptionsKey(DEFAULT_REQUEST_OPTIONS),
+          },
+        )
+      })
+
+      it('should cache a filtered scope apart from the whole scope', async () => {
+        mockReadCachedScope.mockResolvedValueOnce(undefined)
+        mockGetAllPages.mockResolvedValueOnce([{ slug: 'eu-home' }])
+
+        await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes,
+          cacheTtl: 60_000,
+          fieldFilters: { 'page:landing_page': { region: 'eu' } },
+        })
+
+        expect(mockReadCachedScope).toHaveBeenCalledWith(
+          expect.stringMatching(/:published:page:landing_page\?fields\.region=eu$/),
+        )
+      })
+
+      it('should ignore content cached with other request options', async () => {
+        mockReadCachedScope.mockResolvedValueOnce({
+          items: [{ slug: 'from-production' }],
+          syncedAt: Date.now(),
+          request: requestOptionsKey(DEFAULT_REQUEST_OPTIONS),
+        })
+        mockGetAllPages.mockResolvedValueOnce([{ slug: 'from-mock' }])
+        const requestOptions = { baseUrl: 'http://localhost:4000/v2' }
+
+        const result = await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes,
+          cacheTtl: 60_000,
+          requestOptions,
+        })
+
+        expect(result.items.map((item) => item.slug)).toEqual(['from-mock'])
+        expect(mockWriteCachedScope).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.objectContaining({ request: expect.stringContaining('http://localhost:4000/v2') }),
+        )
+      })
+
+      it('should serve a fresh cached scope without fetching', async () => {
+        mockReadCachedScope.mockResolvedValueOnce({
+          items: [{ slug: 'cached' }],
+          syncedAt: Date.now(),
+        })
+
+        const result = await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes,
+          cacheTtl: 60_000,
+        })
+
+        expect(result.items.map((item) => item.slug)).toEqual(['cached'])
+        expect(mockGetAllPages).not.toHaveBeenCalled()
+        expect(mockWriteCachedScope).not.toHaveBeenCalled()
+      })
+
+      it('should refresh a stale page type incrementally', async () => {
+        mockReadCachedScope.mockResolvedValueOnce({
+          items: [
+            { slug: 'home', name: 'Old home', updated: '2024-01-01T00:00:00Z' },
+            { slug: 'about', name: 'About', updated: '2024-01-02T00:00:00Z' },
+          ],
+          syncedAt: 0,
+        })
+        mockGetPagesUpdatedSince.mockResolvedValueOnce({
+          items: [{ slug: 'home', name: 'New home', updated: '2024-02-01T00:00:00Z' }],
+          count: 2,
+        })
+
+        const result = await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes,
+          cacheTtl: 60_000,
+        })
+
+        expect(mockGetPagesUpdatedSince).toHaveBeenCalledWith({
+          token: 'test-token',
+          preview: false,
+          requestOptions: DEFAULT_REQUEST_OPTIONS,
+          pageType: 'landing_page',
+          since: '2024-01-02T00:00:00Z',
+        })
+        expect(mockGetAllPages).not.toHaveBeenCalled()
+        expect(result.items.map((item) => item.title).sort()).toEqual(['About', 'New home'])
+      })
+
+      it('should re-fetch in full when the incremental count does not match', async () => {
+        mockReadCachedScope.mockResolvedValueOnce({
+          items: [
+            { slug: 'home', updated: '2024-01-01T00:00:00Z' },
+            { slug: 'deleted', updated: '2024-01-01T00:00:00Z' },
+          ],
+          syncedAt: 0,
+        })
+        mockGetPagesUpdatedSince.mockResolvedValueOnce({ items: [], count: 1 })
+        mockGetAllPages.mockResolvedValueOnce([{ slug: 'home', updated: '2024-01-01T00:00:00Z' }])
+
+        const result = await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes,
+          cacheTtl: 60_000,
+        })
+
+        expect(mockGetAllPages).toHaveBeenCalledOnce()
+        expect(result.items.map((item) => item.slug)).toEqual(['home'])
+      })
+
+      it('should cache streamed pages one at a time instead of collecting them', async () => {
+        mockReadCachedScope.mockResolvedValueOnce(undefined)
+        mockGetAllPages.mockImplementationOnce(async (config) => {
+          config.onPage([{ slug: 'home' }, { slug: 'about' }])
+          config.onPage([{ slug: 'contact' }])
+          return []
+        })
+        const onItems = vi.fn()
+        const onProgress = vi.fn()
+
+        await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes,
+          cacheTtl: 60_000,
+          onItems,
+          onProgress,
+        })
+
+        const key = expect.stringContaining(':published:page:landing_page')
+        expect(mockDeleteCachedScope).toHaveBeenCalledWith(key)
+        expect(mockWriteCachedPage.mock.calls).toEqual([
+          [key, 0, [{ slug: 'home' }, { slug: 'about' }]],
+          [key, 1, [{ slug: 'contact' }]],
+        ])
+        expect(mockWriteCachedScope).toHaveBeenCalledWith(key, {
+          items: [],
+          pageCount: 2,
+          syncedAt: expect.any(Number),
+          request: requestOptionsKey(DEFAULT_REQUEST_OPTIONS),
+        })
+        expect(onItems).toHaveBeenCalledTimes(2)
+        expect(onProgress).toHaveBeenLastCalledWith(
+          expect.objectContaining({ phase: 'fetching', fetched: 3, total: 3 }),
+        )
+      })
+
+      it('should drop the pages streamed before a failure and cache nothing', async () => {
+        mockReadCachedScope.mockResolvedValueOnce(undefined)
+        mockGetAllPages.mockImplementationOnce(async (config) => {
+          config.onPage([{ slug: 'home' }])
+          throw new Error('Network error')
+        })
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+
+        const result = await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes,
+          cacheTtl: 60_000,
+          onItems: vi.fn(),
+        })
+
+        const key = expect.stringContaining(':published:page:landing_page')
+        expect(result.failedScopes).toEqual([{ kind: 'page', key: 'landing_page' }])
+        expect(mockDeleteCachedScope).toHaveBeenCalledWith(key)
+        expect(mockWriteCachedPage).toHaveBeenCalledWith(key, 0, [{ slug: 'home' }])
+        expect(mockClearCachedPages).toHaveBeenCalledWith(key)
+        expect(mockClearCachedPages.mock.invocationCallOrder[0]).toBeGreaterThan(
+          mockWriteCachedPage.mock.invocationCallOrder[0]!,
+        )
+        expect(mockWriteCachedScope).not.toHaveBeenCalled()
+      })
+
+      it('should re-fetch stale collections in full', async () => {
+        mockReadCachedScope.mockResolvedValueOnce({ items: [{ slug: 'old' }], syncedAt: 0 })
+        mockGetAllCollections.mockResolvedValueOnce([{ slug: 'new' }])
+
+        const result = await fetchContent({
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: false, pageTypes: [], collectionKeys: ['recipes'] },
+          cacheTtl: 60_000,
+        })
+
+        expect(mockGetPagesUpdatedSince).not.toHaveBeenCalled()
+        expect(result.items.map((item) => item.slug)).toEqual(['new'])
+      })
+    })
+  })
+
+  describe('scanContent', () => {
+    const slugsOf = async (items: Array<{ slug: string }>) => ({
+      results: items.map((item) => item.slug),
+      depthLimited: 0,
+    })
+
+    it('should scan items as they arrive and report results found so far', async () => {
+      const onResults = vi.fn()
+      mockGetAllPosts.mockImplementationOnce(async (config) => {
+        config.onPage([{ slug: 'first' }])
+        await vi.waitFor(() => expect(onResults).toHaveBeenLastCalledWith(['first']))
+        config.onPage([{ slug: 'second' }])
+        return []
+      })
+
+      const result = await scanContent(
+        {
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: true, pageTypes: [], collectionKeys: [] },
+          onResults,
+        },
+        slugsOf,
+      )
+
+      expect(onResults).toHaveBeenLastCalledWith(['first', 'second'])
+      expect(result.results).toEqual(['first', 'second'])
+      expect(result.scannedItems).toBe(2)
+    })
+
+    it('should leave out items the scanner skips', async () => {
+      mockGetAllPosts.mockResolvedValueOnce([{ slug: 'keep' }, { slug: 'skip' }])
+
+      const result = await scanContent(
+        {
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: true, pageTypes: [], collectionKeys: [] },
+        },
+        async (items) => ({
+          results: items.map((item) => (item.slug === 'keep' ? item.slug : undefined)),
+          depthLimited: 0,
+        }),
+      )
+
+      expect(result.results).toEqual(['keep'])
+      expect(result.scannedItems).toBe(2)
+    })
+
+    it('should count items that hit the depth limit in kept scopes only', async () => {
+      mockGetAllPages.mockImplementationOnce(async (config) => {
+        config.onPage([{ slug: 'streamed-before-cancel' }])
+        throw new DOMException('The operation was aborted.', 'AbortError')
+      })
+      mockGetAllPosts.mockResolvedValueOnce([{ slug: 'deep' }, { slug: 'shallow' }])
+
+      const result = await scanContent(
+        {
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: true, pageTypes: ['landing_page'], collectionKeys: [] },
+        },
+        async (items) => ({
+          results: items.map(() => undefined),
+          depthLimited: items.filter((item) => item.slug !== 'shallow').length,
+        }),
+      )
+
+      expect(result.depthLimitedItems).toBe(1)
+    })
+
+    it('should drop results from scopes that were cancelled part-way', async () => {
+      const onResults = vi.fn()
+      mockGetAllPages.mockImplementationOnce(async (config) => {
+        config.onPage([{ slug: 'streamed-before-cancel' }])
+        throw new DOMException('The operation was aborted.', 'AbortError')
+      })
+      mockGetAllPosts.mockResolvedValueOnce([{ slug: 'post' }])
+
+      const result = await scanContent(
+        {
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: true, pageTypes: ['landing_page'], collectionKeys: [] },
+          onResults,
+        },
+        slugsOf,
+      )
+
+      expect(onResults).toHaveBeenCalledWith(['streamed-before-cancel'])
+      expect(result.results).toEqual(['post'])
+      expect(result.scannedItems).toBe(1)
+      expect(result.cancelledScopes).toEqual([{ kind: 'page', key: 'landing_page' }])
+    })
+
+    it('should finish each kept scope at 100% scanned', async () => {
+      const onProgress = vi.fn()
+      mockGetAllPosts.mockResolvedValueOnce([{ slug: 'a' }, { slug: 'b' }])
+
+      await scanContent(
+        {
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: true, pageTypes: [], collectionKeys: [] },
+          onProgress,
+        },
+        slugsOf,
+      )
+
+      expect(onProgress).toHaveBeenLastCalledWith({
+        scope: { kind: 'post', key: 'Blog' },
+        phase: 'scanning',
+        fetched: 2,
+        total: 2,
+      })
+    })
+
+    it('should keep reporting scanning progress while scanning lags behind fetching', async () => {
+      const onProgress = vi.fn()
+      let finishScan = () => {}
+      mockGetAllPosts.mockResolvedValueOnce([{ slug: 'a' }, { slug: 'b' }])
+
+      const scan = scanContent(
+        {
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: true, pageTypes: [], collectionKeys: [] },
+          onProgress,
+        },
+        (items) =>
+          new Promise<{ results: string[]; depthLimited: number }>((resolve) => {
+            finishScan = () => resolve({ results: items.map((item) => item.slug), depthLimited: 0 })
+          }),
+      )
+
+      const blog = { kind: 'post', key: 'Blog' }
+      await vi.waitFor(() =>
+        expect(onProgress).toHaveBeenLastCalledWith({
+          scope: blog,
+          phase: 'scanning',
+          fetched: 0,
+          total: 2,
+        }),
+      )
+      finishScan()
+      await scan
+      expect(onProgress).toHaveBeenLastCalledWith({
+        scope: blog,
+        phase: 'scanning',
+        fetched: 2,
+        total: 2,
+      })
+    })
+
+    it('should skip batches still waiting to be scanned once aborted', async () => {
+      const controller = new AbortController()
+      const scan = vi.fn(async (items: Array<{ slug: string }>) => {
+        controller.abort()
+        return { results: items.map((item) => item.slug), depthLimited: 0 }
+      })
+      mockGetAllPosts.mockImplementationOnce(async (config) => {
+        config.onPage([{ slug: 'first' }])
+        config.onPage([{ slug: 'second' }])
+        return []
+      })
+
+      const result = await scanContent(
+        {
+          token: 'test-token',
+          preview: false,
+          scopes: { blog: true, pageTypes: [], collectionKeys: [] },
+          signal: controller.signal,
+        },
+        scan,
+      )
+
+      expect(scan).toHaveBeenCalledOnce()
+      expect(result.results).toEqual(['first'])
+      expect(result.scannedItems).toBe(1)
+      expect(result.scanCancelled).toBe(true)
+    })
+
+    it('should reject when scanning fails', async () => {
+      mockGetAllPosts.mockResolvedValueOnce([{ slug: 'a' }])
+
+      await expect(
+        scanContent(
+          {
+            token: 'test-token',
+            preview: false,
+            scopes: { blog: true, pageTypes: [], collectionKeys: [] },
+          },
+          async () => {
+            throw new Error('scan failed')
+          },
+        ),
+      ).rejects.toThrow('scan failed')
+    })
+  })
+
+  describe('resumeCursors', () => {
+    it('should key the resume page of each incomplete scope by scope id', () => {
+      expect(
+        resumeCursors([
+          { scope: { kind: 'page', key: 'landing_page' }, label: '', reason: '' },
+          { scope: { kind: 'post', key: 'Blog' }, label: '', reason: '', resumePage: 4 },
+        ]),
+      ).toEqual({ 'post:Blog': 4 })
+    })
+  })
+
+  describe('retryOptions', () => {
+    it('should cover exactly the failed scope and locale pairs', () => {
+      expect(
+        retryOptions([
+          { scope: { kind: 'page', key: 'landing_page', locale: 'fr' }, label: '', reason: '' },
+          {
+            scope: { kind: 'post', key: 'Blog', locale: 'de' },
+            label: '',
+            reason: '',
+            resumePage: 2,
+          },
+        ]),
+      ).toEqual({
+        locales: ['fr', 'de'],
+        onlyScopeIds: ['page:landing_page@fr', 'post:Blog@de'],
+        resumeFrom: { 'post:Blog@de': 2 },
+      })
+    })
+
+    it('should not ask for locales when the failures were in the default locale', () => {
+      expect(
+        retryOptions([{ scope: { kind: 'post', key: 'Blog' }, label: '', reason: '' }]).locales,
+      ).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,681 @@
+import type { Butter } from '@/types'
+import { getAllPages, getPagesUpdatedSince } from './pages'
+import { getAllPosts } from './posts'
+import { getAllCollections } from './collections'
+import { getAllAuthors } from './authors'
+import { getAllCategories } from './categories'
+import { getAllTags } from './tags'
+import { isAbortError, type FetchProgress } from './fetch'
+import { ButterApiError } from './errors'
+import {
+  DEFAULT_REQUEST_OPTIONS,
+  fieldFilterParams,
+  requestOptionsKey,
+  resolveRequestOptions,
+  type FieldFilters,
+  type RequestOptions,
+} from './requestOptions'
+import {
+  cacheKey,
+  clearCachedPages,
+  deleteCachedScope,
+  hashToken,
+  isCachedScopeFresh,
+  isContentCacheAvailable,
+  readCachedScope,
+  writeCachedPage,
+  writeCachedScope,
+  type CachedScope,
+} from './contentCache'
+
+export type ContentStatus = 'published' | 'draft' | 'scheduled'
+
+export type ContentKind = 'page' | 'post' | 'collection' | 'author' | 'category' | 'tag'
+
+/**
+ * A single fetchable unit of content: one page type, the blog, one collection key, or the blog's
+ * authors, categories or tags
+ */
+export interface ContentScope {
+  kind: ContentKind
+  /** Page type or collection key. Always `Blog` for posts, and `Authors`, `Categories` or `Tags` */
+  key: string
+  /** Locale the scope is fetched in. Unset for the account's default locale */
+  locale?: string
+  /** Field filters sent with each request. Only page types and collections take them */
+  fields?: FieldFilters
+}
+
+/** The scopes a feature has been asked to cover, in the same shape as the store's selection */
+export interface ContentScopeSelection {
+  blog: boolean
+  pageTypes: string[]
+  collectionKeys: string[]
+  authors?: boolean
+  categories?: boolean
+  tags?: boolean
+}
+
+/** The blog's authors, categories and tags, each selected as a whole like the blog itself */
+export type BlogMetadataSelection = Pick<ContentScopeSelection, 'authors' | 'categories' | 'tags'>
+
+/** A fetched item normalised so every feature resolves titles, slugs and statuses identically */
+export interface ContentItem<Data = unknown> {
+  title: string
+  slug: string
+  status?: ContentStatus
+  kind: ContentKind
+  /** Scope label shown against results (page type, `Blog`, or collection key) */
+  scope: string
+  /** Locale the item was fetched in, unless it came from the default locale */
+  locale?: string
+  data: Data
+}
+
+export type ContentPhase = 'fetching' | 'scanning'
+
+/**
+ * Progress of one scope through a feature run. `total` is `null` until Butter CMS has reported
+ * the item count in the first page's `meta.count`.
+ */
+export interface ContentProgress {
+  scope: ContentScope
+  phase: ContentPhase
+  /** Items fetched so far, or items scanned so far during the `scanning` phase */
+  fetched: number
+  total: number | null
+}
+
+/** Options shared by every feature that fetches content through {@link fetchContent} */
+export interface FetchContentOptions {
+  /**
+   * How long cached scopes stay fresh, in milliseconds. Omit (or pass 0) to bypass the
+   * IndexedDB cache and always fetch from Butter CMS.
+   */
+  cacheTtl?: number
+  /** Aborting stops any in-flight requests. Scopes that already finished are still returned */
+  signal?: AbortSignal
+  /** Base URL, page size and other request settings. Defaults apply to anything missing */
+  requestOptions?: Partial<RequestOptions>
+  /** Pages requested at once within each scope after the first. Defaults to `DEFAULT_PAGE_CONCURRENCY` */
+  pageConcurrency?: number
+  /** Called as each scope is fetched, and again as the feature scans the fetched items */
+  onProgress?: (progress: ContentProgress) => void
+  /**
+   * Page to resume each incomplete scope from, keyed by {@link scopeId}. Resumed scopes skip the
+   * cache and only return items from that page onwards.
+   */
+  resumeFrom?: Record<string, number>
+  /**
+   * Receive items page by page as they arrive (or a whole scope at once when it comes from the
+   * cache) instead of collecting them. When set, `items` in the result is left empty.
+   */
+  onItems?: (items: ContentItem[], scope: ContentScope) => void
+  /**
+   * Fetch every selected scope once per locale, e.g. `['en', 'fr']`. Omit (or pass an empty list)
+   * to fetch the account's default locale only.
+   */
+  locales?: string[]
+  /**
+   * Only fetch these scopes, by {@link scopeId}. Lets a retry cover exactly the scope and locale
+   * pairs that failed, which a selection on its own cannot describe.
+   */
+  onlyScopeIds?: string[]
+  /**
+   * Field filters for page types and collections, keyed by {@link scopeId} in the default locale
+   * (e.g. `page:product_page`). They apply in every locale, so only matching items are fetched.
+   */
+  fieldFilters?: Record<string, FieldFilters>
+}
+
+/** A scope that could not be fetched, and the error explaining why */
+export interface ScopeFailure {
+  scope: ContentScope
+  error: ButterApiError
+  /** Set when the scope is incomplete: the page a retry should resume from */
+  resumePage?: number
+}
+
+/** A failed scope as shown to users, e.g. `{ label: 'Blog', reason: 'token rejected (401)' }` */
+export interface FailureReason {
+  scope: ContentScope
+  label: string
+  reason: string
+  /** Set when the scope is incomplete: the page a retry should resume from */
+  resumePage?: number
+}
+
+export interface ContentSourceResult {
+  items: ContentItem[]
+  succeededScopes: ContentScope[]
+  failedScopes: ContentScope[]
+  /** One entry per failed scope, in the same order as `failedScopes` */
+  failures: ScopeFailure[]
+  /**
+   * Failed scopes that stopped part-way through pagination. Their items up to the failed page are
+   * included in `items`, and their failure carries the page to resume from.
+   */
+  incompleteScopes: ContentScope[]
+  /** Scopes that were still being fetched when the signal was aborted */
+  cancelledScopes: ContentScope[]
+}
+
+export function toStatus(val: unknown): ContentStatus | undefined {
+  if (val === 'published' || val === 'draft' || val === 'scheduled') return val
+  return undefined
+}
+
+/**
+ * Expand a scope selection into individual scopes: page types, then blog, then authors, categories
+ * and tags, then collections
+ */
+export function toContentScopes(selection: ContentScopeSelection): ContentScope[] {
+  return [
+    ...selection.pageTypes.map((key) => ({ kind: 'page' as const, key })),
+    ...(selection.blog ? [{ kind: 'post' as const, key: 'Blog' }] : []),
+    ...(selection.authors ? [{ kind: 'author' as const, key: 'Authors' }] : []),
+    ...(selection.categories ? [{ kind: 'category' as const, key: 'Categories' }] : []),
+    ...(selection.tags ? [{ kind: 'tag' as const, key: 'Tags' }] : []),
+    ...selection.collectionKeys.map((key) => ({ kind: 'collection' as const, key })),
+  ]
+}
+
+/** Whether a scope can be fetched per locale. Authors, categories and tags are shared by all */
+function isLocalised(scope: ContentScope): boolean {
+  return scope.kind === 'page' || scope.kind === 'post' || scope.kind === 'collection'
+}
+
+/**
+ * Repeat each localised scope once per locale, or return the scopes as they are when there are
+ * none. Scopes that are not localised are fetched once whatever the locales.
+ */
+export function withLocales(scopes: ContentScope[], locales: string[] = []): ContentScope[] {
+  if (locales.length === 0) return scopes
+  return scopes.flatMap((scope) =>
+    isLocalised(scope) ? locales.map((locale) => ({ ...scope, locale })) : [scope],
+  )
+}
+
+/** Attach the field filters configured for a page type or collection to its scope */
+export function withFieldFilters(
+  scope: ContentScope,
+  fieldFilters: Record<string, FieldFilters> = {},
+): ContentScope {
+  if (scope.kind !== 'page' && scope.kind !== 'collection') return scope
+  const fields = fieldFilters[scopeId({ kind: scope.kind, key: scope.key })]
+  return fields && Object.keys(fields).length > 0 ? { ...scope, fields } : scope
+}
+
+/** Collapse individual scopes back into a selection, the inverse of {@link toContentScopes} */
+export function toScopeSelection(scopes: ContentScope[]): ContentScopeSelection {
+  return {
+    blog: scopes.some((scope) => scope.kind === 'post'),
+    pageTypes: scopes.filter((scope) => scope.kind === 'page').map((scope) => scope.key),
+    collectionKeys: scopes.filter((scope) => scope.kind === 'collection').map((scope) => scope.key),
+    authors: scopes.some((scope) => scope.kind === 'author'),
+    categories: scopes.some((scope) => scope.kind === 'category'),
+    tags: scopes.some((scope) => scope.kind === 'tag'),
+  }
+}
+
+/** Human-readable label for a scope, as used in partial-failure messages */
+export function scopeLabel(scope: ContentScope): string {
+  const locale = scope.locale ? ` (${scope.locale})` : ''
+  switch (scope.kind) {
+    case 'post':
+      return `Blog${locale}`
+    case 'page':
+      return `Page Type: ${scope.key}${locale}`
+    case 'collection':
+      return `Collection: ${scope.key}${locale}`
+    case 'author':
+    case 'category':
+    case 'tag':
+      return scope.key
+  }
+}
+
+/**
+ * Stable identifier for a scope, unique across kinds and locales (e.g. `page:landing_page`, or
+ * `page:landing_page@fr` in a locale)
+ */
+export function scopeId(scope: ContentScope): string {
+  return `${scope.kind}:${scope.key}${scope.locale ? `@${scope.locale}` : ''}`
+}
+
+/** Explain each failure for display, labelling scopes with `label` (default {@link scopeLabel}) */
+export function describeFailures(
+  failures: ScopeFailure[],
+  label: (scope: ContentScope) => string = scopeLabel,
+): FailureReason[] {
+  return failures.map(({ scope, error, resumePage }) => ({
+    scope,
+    label: label(scope),
+    reason: error.reason,
+    resumePage,
+  }))
+}
+
+/** Resume cursors for the incomplete scopes among `failures`, ready for `resumeFrom` */
+export function resumeCursors(
+  failures: Array<ScopeFailure | FailureReason>,
+): Record<string, number> {
+  return Object.fromEntries(
+    failures.flatMap(({ scope, resumePage }) => (resumePage ? [[scopeId(scope), resumePage]] : [])),
+  )
+}
+
+/**
+ * Options to fetch exactly the scope and locale pairs among `failures` again, resuming incomplete
+ * ones where they stopped. Pair with the selection from {@link toScopeSelection}.
+ */
+export function retryOptions(
+  failures: Array<ScopeFailure | FailureReason>,
+): Pick<FetchContentOptions, 'locales' | 'onlyScopeIds' | 'resumeFrom'> {
+  const locales = failures.flatMap(({ scope }) => (scope.locale ? [scope.locale] : []))
+  return {
+    locales: Array.from(new Set(locales)),
+    onlyScopeIds: failures.map(({ scope }) => scopeId(scope)),
+    resumeFrom: resumeCursors(failures),
+  }
+}
+
+/** Description of a scope used when logging fetch failures */
+function describeScope(scope: ContentScope): string {
+  const locale = scope.locale ? ` in locale "${scope.locale}"` : ''
+  switch (scope.kind) {
+    case 'post':
+      return `Blog posts${locale}`
+    case 'page':
+      return `page type "${scope.key}"${locale}`
+    case 'collection':
+      return `collection "${scope.key}"${locale}`
+    case 'author':
+    case 'category':
+    case 'tag':
+      return `blog ${scope.key.toLowerCase()}`
+  }
+}
+
+/**
+ * Build a {@link ContentItem} from raw Butter CMS data, falling back through name, title and slug.
+ * Authors are titled by their full name, as their `title` is a job title.
+ */
+export function toContentItem(data: unknown, scope: ContentScope): ContentItem {
+  const item = (data ?? {}) as Record<string, unknown>
+  const name =
+    scope.kind === 'author'
+      ? [item.first_name, item.last_name].filter(Boolean).join(' ')
+      : (item.name as string)
+  return {
+    title: name || (item.title as string) || (item.slug as string) || 'Untitled',
+    slug: (item.slug as string) || 'N/A',
+    status: toStatus(item.status),
+    kind: scope.kind,
+    scope: scope.key,
+    ...(scope.locale ? { locale: scope.locale } : {}),
+    data,
+  }
+}
+
+type ScopeFetchConfig = {
+  token: string
+  preview: boolean
+  signal?: AbortSignal
+  concurrency?: number
+  onProgress?: (progress: FetchProgress) => void
+  startPage?: number
+  onPage?: (items: unknown[]) => void
+  requestOptions: RequestOptions
+}
+
+function fetchScope(scope: ContentScope, config: ScopeFetchConfig): Promise<unknown[]> {
+  const { locale } = scope
+  switch (scope.kind) {
+    case 'post':
+      return getAllPosts({ ...config, locale })
+    case 'page':
+      return getAllPages({ ...config, locale, fields: scope.fields, pageType: scope.key })
+    case 'collection':
+      return getAllCollections({
+        ...config,
+        locale,
+        fields: scope.fields,
+        collectionType: scope.key,
+      })
+    case 'author':
+      return getAllAuthors(config)
+    case 'category':
+      return getAllCategories(config)
+    case 'tag':
+      return getAllTags(config)
+  }
+}
+
+/** Latest `updated` timestamp among cached pages, or `null` if none carry one */
+function latestUpdated(items: unknown[]): string | null {
+  let latest: string | null = null
+  for (const item of items) {
+    const updated = (item as Butter.Page).updated
+    if (updated && (latest === null || Date.parse(updated) > Date.parse(latest))) {
+      latest = updated
+    }
+  }
+  return latest
+}
+
+/**
+ * Bring a stale cached scope up to date. Page types are refreshed incrementally by pulling only
+ * pages whose `updated` timestamp is newer than the cache; if the merged result no longer matches
+ * the page count reported by Butter CMS (e.g. a page was deleted) the scope is re-fetched in full.
+ * Blog posts and collections cannot be ordered by update time, so they are always re-fetched.
+ */
+async function refreshScope(
+  scope: ContentScope,
+  config: ScopeFetchConfig,
+  cached: CachedScope,
+): Promise<unknown[]> {
+  const since = scope.kind === 'page' ? latestUpdated(cached.items) : null
+  // Refreshed scopes are delivered whole once merged, so never hand on individual pages
+  if (!since) return fetchScope(scope, { ...config, onPage: undefined })
+
+  const { items: changed, count } = await getPagesUpdatedSince({
+    token: config.token,
+    preview: config.preview,
+    signal: config.signal,
+    requestOptions: config.requestOptions,
+    locale: scope.locale,
+    fields: scope.fields,
+    pageType: scope.key,
+    since,
+  })
+  const changedBySlug = new Map(changed.map((page) => [page.slug, page]))
+  const merged = [
+    ...changed,
+    ...cached.items.filter((item) => !changedBySlug.has((item as Butter.Page).slug)),
+  ]
+
+  return merged.length === count ? merged : fetchScope(scope, { ...config, onPage: undefined })
+}
+
+/** Fetch a scope, serving it from the IndexedDB cache when a fresh copy exists */
+async function loadScope(
+  scope: ContentScope,
+  config: ScopeFetchConfig,
+  cache: { tokenHash: string; ttl: number } | null,
+): Promise<unknown[]> {
+  if (!cache) return fetchScope(scope, config)
+
+  // Filtered scopes are cached apart from the whole scope, e.g. `product_page?fields.region=eu`
+  const filters = new URLSearchParams(fieldFilterParams(scope.fields)).toString()
+  const scopeKey = `${scope.key}${scope.locale ? `@${scope.locale}` : ''}${filters ? `?${filters}` : ''}`
+  const key = cacheKey(cache.tokenHash, config.preview, scope.kind, scopeKey)
+  const request = requestOptionsKey(config.requestOptions)
+  const stored = await readCachedScope(key)
+  // Content fetched with other request settings (e.g. another base URL) is treated as missing
+  const cached =
+    stored && (stored.request ?? requestOptionsKey(DEFAULT_REQUEST_OPTIONS)) === request
+      ? stored
+      : undefined
+  if (cached && isCachedScopeFresh(cached, cache.ttl)) return cached.items
+
+  if (cached || !config.onPage) {
+    const items = cached
+      ? await refreshScope(scope, config, cached)
+      : await fetchScope(scope, config)
+    await clearCachedPages(key)
+    await writeCachedScope(key, { items, syncedAt: Date.now(), request })
+    return items
+  }
+
+  // Streamed pages are cached as they are handed on, so the scope is never collected. Any entry
+  // under the key goes first, so it can never count a mix of its own and these pages
+  const { onPage } = config
+  await deleteCachedScope(key)
+  const writes: Promise<void>[] = []
+  let items: unknown[]
+  try {
+    items = await fetchScope(scope, {
+      ...config,
+      onPage: (page) => {
+        writes.push(writeCachedPage(key, writes.length, page))
+        onPage(page)
+      },
+    })
+  } catch (error) {
+    // The pages of a scope that failed part way through are of no use to a later run
+    await Promise.all(writes)
+    await clearCachedPages(key)
+    throw error
+  }
+  await Promise.all(writes)
+  await writeCachedScope(key, {
+    items,
+    syncedAt: Date.now(),
+    request,
+    ...(writes.length > 0 ? { pageCount: writes.length } : {}),
+  })
+  return items
+}
+
+/**
+ * Fetch every selected scope concurrently and return a unified list of items.
+ * A scope that fails is reported in `failedScopes` rather than failing the whole fetch,
+ * so features can still show results from the scopes that did succeed. Likewise, aborting the
+ * signal reports unfinished scopes in `cancelledScopes` and keeps the ones that completed.
+ * A scope that fails part-way through pagination keeps the items fetched before the failure and
+ * is also reported in `incompleteScopes`, so a later run can resume it via `resumeFrom`.
+ */
+export async function fetchContent(
+  config: {
+    token: string
+    preview: boolean
+    scopes: ContentScopeSelection
+  } & FetchContentOptions,
+): Promise<ContentSourceResult> {
+  const items: ContentItem[] = []
+  const succeededScopes: ContentScope[] = []
+  const failedScopes: ContentScope[] = []
+  const failures: ScopeFailure[] = []
+  const incompleteScopes: ContentScope[] = []
+  const cancelledScopes: ContentScope[] = []
+
+  const cache =
+    config.cacheTtl && isContentCacheAvailable()
+      ? { tokenHash: await hashToken(config.token), ttl: config.cacheTtl }
+      : null
+
+  const { onProgress, onItems } = config
+  const requestOptions = resolveRequestOptions(config.requestOptions)
+  // An error thrown by `onItems` is a bug in the caller, not a failed scope, so it is rethrown
+  let itemsError = null as { error: unknown } | null
+  const scopes = withLocales(toContentScopes(config.scopes), config.locales)
+    .filter((scope) => !config.onlyScopeIds || config.onlyScopeIds.includes(scopeId(scope)))
+    .map((scope) => withFieldFilters(scope, config.fieldFilters))
+  scopes.forEach((scope) => onProgress?.({ scope, phase: 'fetching', fetched: 0, total: null }))
+
+  await Promise.all(
+    scopes.map(async (scope) => {
+      const startPage = config.resumeFrom?.[scopeId(scope)]
+      let streamedItems = 0
+      const deliver = (entries: unknown[]) => {
+        const scoped = entries.map((entry) => toContentItem(entry, scope))
+        if (!onItems) {
+          scoped.forEach((item) => items.push(item))
+          return
+        }
+        try {
+          onItems(scoped, scope)
+        } catch (error) {
+          itemsError ??= { error }
+          throw error
+        }
+      }
+      try {
+        const data = await loadScope(
+          scope,
+          {
+            token: config.token,
+            preview: config.preview,
+            signal: config.signal,
+            concurrency: config.pageConcurrency,
+            requestOptions,
+            onProgress: onProgress && ((page) => onProgress({ scope, phase: 'fetching', ...page })),
+            startPage,
+            onPage:
+              onItems &&
+              ((page) => {
+                streamedItems += page.length
+                deliver(page)
+              }),
+          },
+          startPage ? null : cache,
+        )
+        // Cached and incrementally refreshed scopes never report pages, so always finish at 100%.
+        // Streamed scopes resolve with no items, having handed them all on already
+        const fetched = streamedItems || data.length
+        onProgress?.({ scope, phase: 'fetching', fetched, total: fetched })
+        if (!streamedItems) deliver(data)
+        succeededScopes.push(scope)
+      } catch (error) {
+        if (itemsError) return
+        if (isAbortError(error)) {
+          cancelledScopes.push(scope)
+          return
+        }
+        console.error(`Failed to fetch ${describeScope(scope)}:`, error)
+        const apiError =
+          error instanceof ButterApiError && error.scope
+            ? error
+            : ButterApiError.forScope(error, scope)
+        failedScopes.push(scope)
+
+        // Anything past the first page (in this run or an earlier one) is worth resuming
+        const partial = apiError.partial
+        if (partial && partial.resumePage > 1) {
+          // Streamed pages were handed on already and are left out of the partial items
+          if (!streamedItems) deliver(partial.items)
+          incompleteScopes.push(scope)
+          failures.push({ scope, error: apiError, resumePage: partial.resumePage })
+          return
+        }
+        failures.push({ scope, error: apiError })
+      }
+    }),
+  )
+
+  if (itemsError) throw itemsError.error
+  return { items, succeededScopes, failedScopes, failures, incompleteScopes, cancelledScopes }
+}
+
+/** Options for {@link scanContent}: the usual fetch options plus partial results */
+export interface ScanContentOptions<Result> extends FetchContentOptions {
+  /**
+   * Called after each batch of items is scanned with every result found so far, unsorted.
+   * Results from a scope that is later cancelled are included here but not in the final results.
+   */
+  onResults?: (results: Result[]) => void
+}
+
+/** What scanning a batch of items produced */
+export interface ScanBatch<Result> {
+  /** One entry per scanned item, `undefined` for items without a result */
+  results: Array<Result | undefined>
+  /** How many of the items had a subtree left unscanned because it was nested too deeply */
+  depthLimited: number
+}
+
+export interface ScanContentResult<Result> extends Omit<ContentSourceResult, 'items'> {
+  /** Results from scopes that finished or are incomplete, in the order they were found */
+  results: Result[]
+  /** How many items from those scopes were scanned */
+  scannedItems: number
+  /** How many of those items hit the depth limit, so may have gone partly unscanned */
+  depthLimitedItems: number
+  /** Set when fetched items were left unscanned because the signal aborted */
+  scanCancelled: boolean
+}
+
+/**
+ * Fetch the selected scopes and hand each page of items to `scan` as soon as it arrives, rather
+ * than waiting for every scope to finish. `scan` resolves with a result per item, or `undefined`
+ * to leave an item out, and how many items hit the depth limit. Batches are scanned one at a time,
+ * in the order they arrived, while fetching carries on. Results are kept per scope so that, like
+ * {@link fetchContent}, only scopes that finished (or are incomplete) count towards the final
+ * results. Fetched pages are dropped once scanned and never collected, so only a scope served from
+ * the cache, refreshed or listed in one response is held in memory whole, and only until it is
+ * scanned.
+ */
+export async function scanContent<Result>(
+  config: {
+    token: string
+    preview: boolean
+    scopes: ContentScopeSelection
+  } & ScanContentOptions<Result>,
+  scan: (items: ContentItem[]) => Promise<ScanBatch<Result>>,
+): Promise<ScanContentResult<Result>> {
+  const { onResults, ...fetchConfig } = config
+  const resultsByScope = new Map<string, Result[]>()
+  const itemCounts = new Map<string, number>()
+  const scannedCounts = new Map<string, number>()
+  const depthLimitedCounts = new Map<string, number>()
+  // Scopes whose fetch has ended, so their scanning progress can be shown
+  let reporting: ContentScope[] = []
+  let scanCancelled = false
+
+  const reportScanning = (scope: ContentScope) => {
+    const id = scopeId(scope)
+    const total = itemCounts.get(id) ?? 0
+    config.onProgress?.({ scope, phase: 'scanning', fetched: scannedCounts.get(id) ?? 0, total })
+  }
+
+  let scanning = Promise.resolve()
+  const { succeededScopes, failedScopes, failures, incompleteScopes, cancelledScopes } =
+    await fetchContent({
+      ...fetchConfig,
+      onItems: (items, scope) => {
+        const id = scopeId(scope)
+        itemCounts.set(id, (itemCounts.get(id) ?? 0) + items.length)
+        scanning = scanning.then(async () => {
+          if (config.signal?.aborted) {
+            scanCancelled = true
+            return
+          }
+          const found = await scan(items)
+          const results = resultsByScope.get(id) ?? []
+          resultsByScope.set(id, results)
+          for (const result of found.results) {
+            if (result !== undefined) results.push(result)
+          }
+          scannedCounts.set(id, (scannedCounts.get(id) ?? 0) + items.length)
+          depthLimitedCounts.set(id, (depthLimitedCounts.get(id) ?? 0) + found.depthLimited)
+          if (reporting.some((kept) => scopeId(kept) === id)) reportScanning(scope)
+          onResults?.([...resultsByScope.values()].flat())
+        })
+        // Failures surface when `scanning` is awaited below, not as unhandled rejections
+        scanning.catch(() => {})
+      },
+    })
+
+  // Scanning may lag behind fetching, so keep showing progress until every batch is scanned
+  const kept = [...succeededScopes, ...incompleteScopes]
+  reporting = kept
+  kept.forEach(reportScanning)
+  await scanning
+  kept.forEach(reportScanning)
+
+  return {
+    results: kept.flatMap((scope) => resultsByScope.get(scopeId(scope)) ?? []),
+    scannedItems: kept.reduce((sum, scope) => sum + (scannedCounts.get(scopeId(scope)) ?? 0), 0),
+    depthLimitedItems: kept.reduce(
+      (sum, scope) => sum + (depthLimitedCounts.get(scopeId(scope)) ?? 0),
+      0,
+    ),
+    scanCancelled,
+    succeededScopes,
+    failedScopes,
+    failures,
+    incompleteScopes,
+    cancelledScopes,
+  }
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { DEMO_CONFIG, DEMO_TOKEN, demoFetch } from './demo'
+import { DEMO_CONTENT } from './demoFixtures'
+import { setFetchInterceptor } from './fetch'
+import { getAllPosts } from './posts'
+import { searchContent } from '@/features/searchContent'
+import { auditContent } from '@/features/audit'
+import { auditComponents } from '@/features/components'
+
+const BASE = 'https://api.buttercms.com/v2'
+
+async function request(path: string, params = '') {
+  const response = await demoFetch(`${BASE}/${path}/?auth_token=${DEMO_TOKEN}${params}`, {})
+  return { status: response.status, body: await response.json() }
+}
+
+describe('demoFetch', () => {
+  it('should reject any other token', async () => {
+    const response = await demoFetch(`${BASE}/posts/?auth_token=real-token`, {})
+
+    expect(response.status).toBe(401)
+  })
+
+  it('should return 404 for page types and collections the demo account lacks', async () => {
+    expect((await request('pages/missing_type')).status).toBe(404)
+    expect((await request('content/missing_key')).status).toBe(404)
+  })
+
+  it('should paginate with page and page_size', async () => {
+    const published = DEMO_CONTENT.posts.filter((post) => post.status === 'published')
+
+    const { body } = await request('posts', '&page=2&page_size=25')
+
+    expect(body.data).toEqual(published.slice(25, 50))
+    expect(body.meta).toEqual({ next_page: 3, previous_page: 1, count: published.length })
+  })
+
+  it('should only include drafts and scheduled content with preview', async () => {
+    const { body: published } = await request('pages/landing_page', '&page_size=100')
+    const { body: preview } = await request('pages/landing_page', '&page_size=100&preview=1')
+
+    expect(published.data.every((page: { status: string }) => page.status === 'published')).toBe(
+      true,
+    )
+    expect(preview.meta.count).toBe(DEMO_CONTENT.pages.landing_page!.length)
+    expect(preview.meta.count).toBeGreaterThan(published.meta.count)
+  })
+
+  it('should sort newest first with order=-updated', async () => {
+    const { body } = await request('pages/product_page', '&page_size=100&order=-updated')
+
+    const updated = body.data.map((page: { updated: string }) => Date.parse(page.updated))
+    expect(updated).toEqual([...updated].sort((a, b) => b - a))
+  })
+
+  it('should key collection items by collection, as the content API does', async () => {
+    const { body } = await request('content/faq', '&page_size=100')
+
+    expect(body.data.faq).toEqual(DEMO_CONTENT.collections.faq)
+  })
+
+  it('should list pages of every type for the * page type', async () => {
+    const { body } = await request('pages/*', '&page_size=100&preview=1')
+
+    expect(new Set(body.data.map((page: { page_type: string }) => page.page_type))).toEqual(
+      new Set(DEMO_CONFIG.pageTypes),
+    )
+  })
+
+  it('should list authors, categories and tags in one unpaginated response', async () => {
+    const { body } = await request('authors', '&page_size=1')
+
+    expect(body.data).toEqual(DEMO_CONTENT.authors)
+    expect(body.meta).toBeUndefined()
+    expect((await request('tags')).body.data).toEqual(DEMO_CONTENT.tags)
+  })
+
+  it('should search published posts for every word of the query', async () => {
+    const { body } = await request('search', '&query=headless&page_size=100&preview=1')
+
+    expect(body.meta.count).toBeGreaterThan(0)
+    for (const post of body.data) {
+      expect(post.status).toBe('published')
+      expect(`${post.title} ${post.summary} ${post.body}`.toLowerCase()).toContain('headless')
+    }
+  })
+
+  it('should filter pages and collection items by their fields', async () => {
+    const { body: pages } = await request('pages/product_page', '&page_size=100&fields.region=eu')
+    const { body: faqs } = await request('content/faq', '&page_size=100&fields.question=nothing')
+
+    expect(pages.meta.count).toBeGreaterThan(0)
+    expect(
+      pages.data.every((page: { fields: { region: string } }) => page.fields.region === 'eu'),
+    ).toBe(true)
+    expect(faqs.meta.count).toBe(0)
+  })
+
+  it('should answer requests to any base URL', async () => {
+    const response = await demoFetch(
+      `http://localhost:4000/proxy/v2/content/testimonials/?auth_token=${DEMO_TOKEN}`,
+      {},
+    )
+
+    expect(response.status).toBe(200)
+  })
+})
+
+describe('demo account', () => {
+  it('should have content for every configured page type and collection', () => {
+    expect(Object.keys(DEMO_CONTENT.pages).sort()).toEqual([...DEMO_CONFIG.pageTypes].sort())
+    expect(Object.keys(DEMO_CONTENT.collections).sort()).toEqual(
+      [...DEMO_CONFIG.collectionKeys].sort(),
+    )
+  })
+
+  describe('end to end', () => {
+    const networkFetch = vi.fn()
+
+    beforeEach(() => {
+      networkFetch.mockReset().mockRejectedValue(new Error('offline'))
+      vi.stubGlobal('fetch', networkFetch)
+      setFetchInterceptor(demoFetch)
+    })
+
+    afterEach(() => {
+      setFetchInterceptor(null)
+      vi.unstubAllGlobals()
+    })
+
+    it('should fetch every published post across pages without the network', async () => {
+      const posts = await getAllPosts({ token: DEMO_TOKEN, preview: false })
+
+      expect(posts.length).toBeGreaterThan(100)
+      expect(posts.every((post) => post.status === 'published')).toBe(true)
+      expect(networkFetch).not.toHaveBeenCalled()
+    })
+
+    it('should find matches in posts, pages and collections with Search', async () => {
+      const response = await searchContent(
+        'headless',
+        DEMO_TOKEN,
+        false,
+        DEMO_CONFIG.pageTypes,
+        DEMO_CONFIG.collectionKeys,
+        true,
+      )
+
+      expect(response.success).toBe(true)
+      expect(new Set(response.results.map((result) => result.sourceType))).toEqual(
+        new Set(['Blog', 'case_study', 'faq']),
+      )
+    })
+
+    it('should search author bios when authors are selected', async () => {
+      const response = await searchContent(
+        'maintainable',
+        DEMO_TOKEN,
+        false,
+        [],
+        [],
+        false,
+        false,
+        { authors: true },
+      )
+
+      expect(response.success).toBe(true)
+      expect(response.results).toHaveLength(DEMO_CONTENT.authors.length)
+      expect(response.results.every((result) => result.sourceType === 'Authors')).toBe(true)
+    })
+
+    it('should find seeded HTML bloat with Audit', async () => {
+      const response = await auditContent(
+        DEMO_TOKEN,
+        true,
+        DEMO_CONFIG.pageTypes,
+        DEMO_CONFIG.collectionKeys,
+        true,
+      )
+
+      expect(response.success).toBe(true)
+      expect(response.patternsFound).toEqual(
+        expect.arrayContaining(['mso-', 'docs-', 'data-contrast', 'onclick=', '<!--(figmeta)']),
+      )
+    })
+
+    it('should count picked and permanent components with Components', async () => {
+      const response = await auditComponents(
+        DEMO_TOKEN,
+        false,
+        DEMO_CONFIG.pageTypes,
+        DEMO_CONFIG.knownComponents,
+      )
+
+      const usage = Object.fromEntries(
+        response.results.map((result) => [result.componentSlug, result.usageCount]),
+      )
+      expect(response.success).toBe(true)
+      expect(usage.hero).toBeGreaterThan(0)
+      expect(usage.pricing_table).toBeGreaterThan(0)
+      expect(usage.testimonial_carousel).toBeGreaterThan(0)
+      expect(usage.newsletter_signup).toBe(0)
+    })
+  })
+})
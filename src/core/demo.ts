@@ -0,0 +1,135 @@
+import type { Butter } from '@/types'
+import type { FetchInterceptor } from './fetch'
+
+/** API token of the bundled demo account. Requests made with it are answered offline */
+export const DEMO_TOKEN = 'demo'
+
+/** Page types, collection keys and components to configure for the demo account */
+export const DEMO_CONFIG = {
+  pageTypes: ['landing_page', 'product_page', 'case_study'],
+  collectionKeys: ['faq', 'testimonials', 'navigation_menu'],
+  knownComponents: [
+    'cta_block',
+    'feature_grid',
+    'hero',
+    'newsletter_signup',
+    'pricing_table',
+    'seo',
+    'testimonial_carousel',
+  ],
+}
+
+// Butter CMS returns 10 items per page when no page size is given
+const DEFAULT_PAGE_SIZE = 10
+
+function jsonResponse(status: number, statusText: string, body: unknown): Response {
+  const json = JSON.stringify(body)
+  return new Response(json, {
+    status,
+    statusText,
+    headers: {
+      'Content-Type': 'application/json',
+      'Content-Length': String(new TextEncoder().encode(json).length),
+    },
+  })
+}
+
+/**
+ * Answer a Butter CMS API request from the bundled demo account, the way the real API would:
+ * posts, pages and collections are paginated with `page` and `page_size` while authors,
+ * categories and tags are listed in one response, drafts and scheduled content only appear with
+ * `preview=1`, `order=-updated` sorts newest first, the `*` page type lists pages of every type,
+ * `fields.<name>=<value>` filters pages and collection items by their fields and `search` finds
+ * published posts containing every word of `query`. Unknown page types and collections are 404s
+ * and any token other than {@link DEMO_TOKEN} is a 401. Works with any base URL, so it also stands
+ * in for a configured proxy.
+ */
+export const demoFetch: FetchInterceptor = async (url) => {
+  const { pathname, searchParams } = new URL(url)
+  if (searchParams.get('auth_token') !== DEMO_TOKEN) {
+    return jsonResponse(401, 'Unauthorized', { detail: 'Invalid token.' })
+  }
+
+  const match = /\/(posts|pages|content|authors|categories|tags|search)\/(?:([^/]+)\/)?$/.exec(
+    pathname,
+  )
+  const [, endpoint = '', key = ''] = match ?? []
+  if (endpoint === 'authors' || endpoint === 'categories' || endpoint === 'tags') {
+    // Listed in full, without `meta` or pagination
+    const { DEMO_CONTENT } = await import('./demoFixtures')
+    if (key) return jsonResponse(404, 'Not Found', { detail: 'Not found.' })
+    return jsonResponse(200, 'OK', { data: DEMO_CONTENT[endpoint] })
+  }
+
+  const all = await findItems(endpoint, decodeURIComponent(key), searchParams.get('query') ?? '')
+  if (!all) return jsonResponse(404, 'Not Found', { detail: 'Not found.' })
+
+  // Search only ever finds published posts
+  const preview = searchParams.get('preview') === '1' && endpoint !== 'search'
+  let items = preview ? all : all.filter(isPublished)
+  for (const [param, value] of searchParams) {
+    if (!param.startsWith('fields.')) continue
+    const path = param.slice('fields.'.length).split('.')
+    items = items.filter((item) => {
+      // Page fields sit under `fields`, while collection items hold theirs directly
+      const fields = endpoint === 'pages' ? (item as { fields?: unknown }).fields : item
+      const found = path.reduce<unknown>(
+        (current, name) => (current as Record<string, unknown> | undefined)?.[name],
+        fields,
+      )
+      return String(found) === value
+    })
+  }
+  if (searchParams.get('order') === '-updated') {
+    items = [...items].sort((a, b) => Date.parse(b.updated ?? '') - Date.parse(a.updated ?? ''))
+  }
+
+  const page = Math.max(1, Number(searchParams.get('page')) || 1)
+  const pageSize = Math.max(1, Number(searchParams.get('page_size')) || DEFAULT_PAGE_SIZE)
+  const lastPage = Math.ceil(items.length / pageSize)
+  const pageItems = items.slice((page - 1) * pageSize, page * pageSize)
+
+  return jsonResponse(200, 'OK', {
+    data: endpoint === 'content' ? { [decodeURIComponent(key)]: pageItems } : pageItems,
+    meta: {
+      next_page: page < lastPage ? page + 1 : null,
+      previous_page: page > 1 ? page - 1 : null,
+      count: items.length,
+    },
+  })
+}
+
+/** Every item behind an endpoint, or `undefined` if the demo account has no such content */
+async function findItems(
+  endpoint: string,
+  key: string,
+  query: string,
+): Promise<Array<{ status?: string; updated?: string | null }> | undefined> {
+  // Loaded on first use so the fixture dataset stays out of the main bundle
+  const { DEMO_CONTENT } = await import('./demoFixtures')
+  switch (endpoint) {
+    case 'posts':
+      return DEMO_CONTENT.posts
+    case 'pages':
+      return key === '*' ? Object.values(DEMO_CONTENT.pages).flat() : DEMO_CONTENT.pages[key]
+    case 'content':
+      return DEMO_CONTENT.collections[key]
+    case 'search':
+      return key ? undefined : DEMO_CONTENT.posts.filter((post) => matchesQuery(post, query))
+    default:
+      return undefined
+  }
+}
+
+/** Whether every word of `query` appears as a whole word in the post's title, summary or body */
+function matchesQuery(post: Butter.Post, query: string): boolean {
+  const text = `${post.title} ${post.summary} ${post.body}`.toLowerCase()
+  const words = new Set(text.split(/[^\p{L}\p{N}]+/u))
+  const queryWords = query.toLowerCase().split(/\s+/).filter(Boolean)
+  return queryWords.length > 0 && queryWords.every((word) => words.has(word))
+}
+
+/** Collection items have no status and are always published */
+function isPublished(item: { status?: string }): boolean {
+  return item.status === undefined || item.status === 'published'
+}
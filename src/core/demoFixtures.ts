@@ -0,0 +1,384 @@
+import type { Butter } from '@/types'
+
+/**
+ * A made-up Butter CMS account served by the demo interceptor. It is generated from a few seed
+ * lists so it is large enough to paginate, and seeded with HTML bloat and component pickers so
+ * Search, Audit and Components all have something to find.
+ */
+
+const DAY = 24 * 60 * 60 * 1000
+const EPOCH = Date.parse('2026-01-05T09:00:00Z')
+
+/** A timestamp `days` after the start of the demo account */
+function at(days: number): string {
+  return new Date(EPOCH + days * DAY).toISOString()
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+/** Pick from `list` by index, wrapping around */
+function pick<Item>(list: readonly Item[], index: number): Item {
+  return list[index % list.length]!
+}
+
+const AUTHORS: Omit<Butter.Author, 'recent_posts'>[] = [
+  ['Ada', 'Quill', 'Head of Content'],
+  ['Ravi', 'Okafor', 'Developer Advocate'],
+  ['Mina', 'Larsen', 'Product Designer'],
+].map(([first_name, last_name, title]) => ({
+  first_name: first_name!,
+  last_name: last_name!,
+  email: `${first_name!.toLowerCase()}@example.com`,
+  slug: slugify(`${first_name} ${last_name}`),
+  bio: `${first_name} writes about building fast, maintainable websites.`,
+  title: title!,
+  linkedin_url: '',
+  facebook_url: '',
+  pinterest_url: '',
+  instagram_url: '',
+  twitter_handle: '',
+  profile_image: `https://cdn.example.com/authors/${first_name!.toLowerCase()}.jpg`,
+}))
+
+const CATEGORIES: Butter.Category[] = ['Engineering', 'Content Strategy', 'Design', 'Product'].map(
+  (name) => ({ name, slug: slugify(name) }),
+)
+
+const TAGS: Butter.Tag[] = [
+  'headless',
+  'seo',
+  'performance',
+  'accessibility',
+  'workflow',
+  'i18n',
+].map((name) => ({ name, slug: name }))
+
+const TOPICS = [
+  'headless CMS',
+  'content modelling',
+  'localisation',
+  'image optimisation',
+  'technical SEO',
+  'accessibility',
+  'page speed',
+  'editorial workflows',
+  'design systems',
+  'webhooks',
+  'preview environments',
+  'structured content',
+  'A/B testing',
+  'CMS migrations',
+]
+
+const ANGLES = [
+  "A beginner's guide to",
+  'Five mistakes to avoid with',
+  'How we approach',
+  'The case for',
+  'Lessons learned from',
+  'A checklist for',
+  "What's new in",
+  'Scaling',
+  'Measuring',
+  'Rethinking',
+]
+
+/**
+ * Markup pasted from other tools, as it turns up in real rich text fields. Each snippet trips
+ * different audit patterns.
+ */
+const BLOAT = [
+  // Microsoft Word
+  '<p class="MsoNormal" style="mso-line-height-rule:exactly;mso-pagination:widow-orphan">Pasted from the original brief.<o:p></o:p></p>',
+  // Google Docs
+  '<p><b id="docs-internal-guid-5c1f2a7e-7fff-41c3-9a0e-1f0b2c3d4e5f" style="font-weight:normal">Notes from the planning doc.</b></p>',
+  // Word Online
+  '<p paraid="1853281920" paraeid="{6a1c7f2e-0b1d-4e3a-9c0d-2b1e3f4a5b6c}{42}"><span data-contrast="auto" xml:lang="EN-GB">Copied from the shared draft.</span></p>',
+  // Inline event handler
+  '<p><a href="/pricing" onclick="trackClick(\'pricing\')">See pricing</a></p>',
+  // Figma
+  '<p><span data-metadata="<!--(figmeta)eyJmaWxlS2V5IjoiZGVtbyJ9(/figmeta)-->"></span>Spacing taken from the design file.</p>',
+]
+
+function paragraphs(topic: string, index: number): string {
+  return [
+    `<h2>Why ${topic} matters</h2>`,
+    `<p>Teams that invest in ${topic} ship content faster and spend less time fixing it later. This is part ${index + 1} of our series.</p>`,
+    `<p>Start small: pick one page, measure where you are, and make ${topic} part of your review checklist.</p>`,
+    `<ul><li>Agree on ownership</li><li>Document the defaults</li><li>Review every quarter</li></ul>`,
+  ].join('')
+}
+
+function status(index: number): Butter.Post['status'] {
+  if (index % 11 === 10) return 'draft'
+  if (index === 137) return 'scheduled'
+  return 'published'
+}
+
+const POSTS: Butter.Post[] = ANGLES.flatMap((angle, angleIndex) =>
+  TOPICS.map((topic, topicIndex): Butter.Post => {
+    const index = angleIndex * TOPICS.length + topicIndex
+    const title = `${angle} ${topic}`
+    const slug = slugify(title)
+    const postStatus = status(index)
+    const created = at(index)
+    const body =
+      paragraphs(topic, index) + (index % 7 === 3 ? pick(BLOAT, Math.floor(index / 7)) : '')
+    return {
+      author: pick(AUTHORS, index),
+      body,
+      categories: [pick(CATEGORIES, topicIndex)],
+      created,
+      featured_image: `https://cdn.example.com/blog/${slug}.jpg`,
+      featured_image_alt: title,
+      meta_description: `${title}: practical advice from the Demo Co team.`,
+      published: postStatus === 'published' ? created : null,
+      scheduled: postStatus === 'scheduled' ? at(200) : null,
+      seo_title: `${title} | Demo Co`,
+      slug,
+      status: postStatus,
+      summary: `What we have learned about ${topic}.`,
+      tags: [pick(TAGS, index), pick(TAGS, index + 2)],
+      title,
+      updated: at(index + (index % 5)),
+      url: `/blog/${slug}`,
+    }
+  }),
+)
+
+function seo(title: string) {
+  return { title: `${title} | Demo Co`, description: `${title} from Demo Co.` }
+}
+
+function hero(headline: string, subheadline: string) {
+  return {
+    type: 'hero',
+    fields: {
+      headline,
+      subheadline,
+      image: `https://cdn.example.com/heroes/${slugify(headline)}.jpg`,
+      button_label: 'Get started',
+      button_url: '/signup',
+    },
+  }
+}
+
+const featureGrid = {
+  type: 'feature_grid',
+  fields: {
+    features: [
+      { title: 'Fast by default', description: '<p>Pages are served from the edge.</p>' },
+      { title: 'Built for teams', description: '<p>Roles, approvals and scheduling.</p>' },
+      { title: 'Any framework', description: '<p>Use the API from any stack.</p>' },
+    ],
+  },
+}
+
+const testimonialCarousel = {
+  type: 'testimonial_carousel',
+  fields: {
+    testimonials: [
+      { quote: 'We launched our new site in a week.', author: 'Sam Rivera' },
+      { quote: 'Our editors finally stopped filing tickets.', author: 'Jo Chen' },
+    ],
+  },
+}
+
+function ctaBlock(text: string) {
+  return { type: 'cta_block', fields: { text, button_label: 'Book a demo', button_url: '/demo' } }
+}
+
+function page(
+  pageType: string,
+  name: string,
+  fields: object,
+  index: number,
+  pageStatus: Butter.Page['status'] = 'published',
+): Butter.Page {
+  return {
+    fields,
+    name,
+    page_type: pageType,
+    published: pageStatus === 'published' ? at(index * 3) : null,
+    scheduled: pageStatus === 'scheduled' ? at(200) : null,
+    slug: slugify(name),
+    status: pageStatus,
+    updated: at(index * 3 + 1),
+  }
+}
+
+const LANDING_PAGES: Butter.Page[] = [
+  'Home',
+  'Pricing',
+  'For Agencies',
+  'For Ecommerce',
+  'Spring Launch',
+  'Webinar Signup',
+  'Partner Program',
+  'Holiday Campaign',
+].map((name, index) =>
+  page(
+    'landing_page',
+    name,
+    {
+      seo: seo(name),
+      body: [
+        hero(
+          name,
+          index === 2
+            ? '<p class="MsoNormal">Everything your clients need<o:p></o:p></p>'
+            : '<p>Everything your team needs to publish with confidence.</p>',
+        ),
+        ...(index % 2 === 0 ? [featureGrid] : []),
+        ...(index % 3 === 0 ? [testimonialCarousel] : []),
+        ctaBlock(`Ready to try ${name.toLowerCase()}?`),
+      ],
+    },
+    index,
+    index === 7 ? 'draft' : 'published',
+  ),
+)
+
+const PRODUCTS = [
+  'Starter Plan',
+  'Team Plan',
+  'Enterprise Plan',
+  'Image CDN',
+  'Localisation Add-on',
+  'Audit Log',
+  'Single Sign-On',
+  'Priority Support',
+  'Migration Service',
+  'Analytics Add-on',
+  'Workflow Add-on',
+  'Sandbox Environments',
+]
+
+const PRODUCT_PAGES: Butter.Page[] = PRODUCTS.map((name, index) =>
+  page(
+    'product_page',
+    name,
+    {
+      // Permanent components are keyed by their slug rather than picked
+      seo: seo(name),
+      // Lets field filters such as `fields.region=eu` be tried out
+      region: index % 2 === 0 ? 'eu' : 'us',
+      hero: hero(name, `<p>${name} for growing teams.</p>`).fields,
+      description:
+        `<p>${name} is included in every plan from day one.</p>` +
+        (index % 4 === 1 ? pick(BLOAT, index) : ''),
+      ...(index < 3
+        ? {
+            pricing_table: {
+              tiers: [
+                { name: 'Monthly', price: `${(index + 1) * 49}` },
+                { name: 'Yearly', price: `${(index + 1) * 490}` },
+              ],
+            },
+          }
+        : {}),
+      body: index % 3 === 2 ? [testimonialCarousel, ctaBlock(`Add ${name}`)] : [],
+    },
+    index,
+    index === 11 ? 'scheduled' : 'published',
+  ),
+)
+
+const CASE_STUDIES: Butter.Page[] = [
+  'Northwind Outfitters',
+  'Bluebird Travel',
+  'Acme Robotics',
+  'Greenleaf Grocers',
+  'Harbor Health',
+  'Lumen Learning',
+].map((name, index) =>
+  page(
+    'case_study',
+    `${name} case study`,
+    {
+      seo: seo(`${name} case study`),
+      customer: name,
+      summary: `<p>How ${name} rebuilt their website on a headless CMS.</p>`,
+      story:
+        `<h2>The challenge</h2><p>${name} was publishing through three different systems.</p>` +
+        pick(BLOAT, index + 1) +
+        `<h2>The result</h2><p>Publishing time dropped by ${40 + index * 5}%.</p>`,
+      body: [testimonialCarousel],
+    },
+    index + 10,
+  ),
+)
+
+const FAQS: Butter.Collection[] = [
+  ['How do I reset my password?', 'Use the <a href="/reset">reset link</a> on the sign-in page.'],
+  ['Can I import content from WordPress?', 'Yes, our migration service handles posts and media.'],
+  [
+    'Which frameworks are supported?',
+    'Any framework that can call a JSON API. That is the point of a headless CMS.',
+  ],
+  ['Do you offer a free trial?', 'Every plan starts with a 14-day free trial.'],
+  ['How is content localised?', 'Each locale is edited separately and published together.'],
+  [
+    'Where are images hosted?',
+    '<span data-contrast="auto">Images are served from our global CDN.</span>',
+  ],
+  ['Can I schedule posts?', 'Yes, posts and pages can be scheduled to publish later.'],
+  ['Is there an audit log?', 'The Audit Log add-on records every change.'],
+  ['How do previews work?', 'Draft content is available with the preview flag.'],
+  [
+    'Can I cancel at any time?',
+    '<p class="MsoNormal">Yes, plans are billed monthly.<o:p></o:p></p>',
+  ],
+].map(([question, answer], index) => ({
+  meta: { id: index + 1 },
+  question,
+  answer: `<p>${answer}</p>`,
+}))
+
+const TESTIMONIALS: Butter.Collection[] = [
+  ['We launched our new site in a week.', 'Sam Rivera', 'Northwind Outfitters'],
+  ['Our editors finally stopped filing tickets.', 'Jo Chen', 'Bluebird Travel'],
+  ['Page speed went up and bounce rate went down.', 'Priya Nair', 'Acme Robotics'],
+  ['Migration was painless.', 'Tom Becker', 'Greenleaf Grocers'],
+  ['Support answered within the hour, every time.', 'Lena Park', 'Harbor Health'],
+].map(([quote, author, company], index) => ({ meta: { id: index + 101 }, quote, author, company }))
+
+const NAVIGATION_MENUS: Butter.Collection[] = [
+  ['Main', ['Product', 'Pricing', 'Blog', 'Customers']],
+  ['Footer', ['About', 'Careers', 'Contact', 'Privacy']],
+  ['Docs', ['Getting started', 'API reference', 'Webhooks']],
+].map(([name, labels], index) => ({
+  meta: { id: index + 201 },
+  name,
+  items: (labels as string[]).map((label) => ({ label, url: `/${slugify(label)}` })),
+}))
+
+/** Everything in the demo account, by endpoint */
+export const DEMO_CONTENT: {
+  posts: Butter.Post[]
+  pages: Record<string, Butter.Page[]>
+  collections: Record<string, Butter.Collection[]>
+  authors: Omit<Butter.Author, 'recent_posts'>[]
+  categories: Butter.Category[]
+  tags: Butter.Tag[]
+} = {
+  posts: POSTS,
+  pages: {
+    landing_page: LANDING_PAGES,
+    product_page: PRODUCT_PAGES,
+    case_study: CASE_STUDIES,
+  },
+  collections: {
+    faq: FAQS,
+    testimonials: TESTIMONIALS,
+    navigation_menu: NAVIGATION_MENUS,
+  },
+  authors: AUTHORS,
+  categories: CATEGORIES,
+  tags: TAGS,
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest'
+import { ButterApiError, redactUrl } from './errors'
+
+const details = { url: null, attempts: 1 }
+
+describe('redactUrl', () => {
+  it('should redact the auth token wherever it appears in the query', () => {
+    expect(redactUrl('https://api.buttercms.com/v2/posts/?auth_token=secret&page=1')).toBe(
+      'https://api.buttercms.com/v2/posts/?auth_token=REDACTED&page=1',
+    )
+    expect(redactUrl('https://api.buttercms.com/v2/posts/?page=1&auth_token=secret')).toBe(
+      'https://api.buttercms.com/v2/posts/?page=1&auth_token=REDACTED',
+    )
+  })
+
+  it('should leave URLs without a token unchanged', () => {
+    expect(redactUrl('https://api.buttercms.com/v2/posts/?page=1')).toBe(
+      'https://api.buttercms.com/v2/posts/?page=1',
+    )
+  })
+
+  it('should redact relative URLs', () => {
+    expect(redactUrl('/v2/posts/?page=1&auth_token=secret')).toBe(
+      '/v2/posts/?page=1&auth_token=REDACTED',
+    )
+  })
+})
+
+describe('ButterApiError', () => {
+  it('should never keep the token in its URL', () => {
+    const error = new ButterApiError('HTTP 500: Internal Server Error', {
+      status: 500,
+      url: 'https://api.buttercms.com/v2/posts/?auth_token=secret',
+      attempts: 3,
+    })
+
+    expect(error.url).toBe('https://api.buttercms.com/v2/posts/?auth_token=REDACTED')
+    expect(error).toBeInstanceOf(Error)
+    expect(error.name).toBe('ButterApiError')
+  })
+
+  describe('reason', () => {
+    it('should name the missing scope on a 404', () => {
+      const scope = { kind: 'page' as const, key: 'landing_page' }
+      expect(new ButterApiError('', { ...details, status: 404, scope }).reason).toBe(
+        'page type "landing_page" does not exist (404)',
+      )
+      expect(
+        new ButterApiError('', {
+          ...details,
+          status: 404,
+          scope: { kind: 'collection', key: 'recipes' },
+        }).reason,
+      ).toBe('collection "recipes" does not exist (404)')
+    })
+
+    it('should explain authorisation failures', () => {
+      expect(new ButterApiError('', { ...details, status: 401 }).reason).toBe(
+        'token rejected (401)',
+      )
+      expect(new ButterApiError('', { ...details, status: 403 }).reason).toBe('access denied (403)')
+    })
+
+    it('should mention retries for rate limits, server errors and network errors', () => {
+      expect(new ButterApiError('', { ...details, status: 429, attempts: 3 }).reason).toBe(
+        'rate limited by Butter CMS after 3 attempts (429)',
+      )
+      expect(new ButterApiError('', { ...details, status: 503, attempts: 3 }).reason).toBe(
+        'Butter CMS server error after 3 attempts (503)',
+      )
+      expect(new ButterApiError('', { ...details, status: null, attempts: 2 }).reason).toBe(
+        'network error after 2 attempts',
+      )
+    })
+
+    it('should explain unexpected response shapes whatever the status', () => {
+      const error = ButterApiError.unexpectedShape('expected data to be an array, got undefined', {
+        ...details,
+        status: 200,
+      })
+
+      expect(error.message).toBe(
+        'Unexpected response shape: expected data to be an array, got undefined',
+      )
+      expect(error.reason).toBe(
+        'unexpected response shape: expected data to be an array, got undefined',
+      )
+    })
+
+    it('should fall back to the status for other client errors', () => {
+      expect(new ButterApiError('', { ...details, status: 400 }).reason).toBe(
+        'request failed (400)',
+      )
+    })
+  })
+
+  describe('withPartial', () => {
+    it('should keep the API details and message of the failed request', () => {
+      const original = new ButterApiError('HTTP 500: Internal Server Error', {
+        status: 500,
+        url: null,
+        attempts: 3,
+        cause: 'upstream',
+      })
+      const partial = { items: [], resumePage: 37 }
+
+      const error = ButterApiError.withPartial(original, partial)
+
+      expect(error.message).toBe('HTTP 500: Internal Server Error')
+      expect(error.status).toBe(500)
+      expect(error.attempts).toBe(3)
+      expect(error.cause).toBe('upstream')
+      expect(error.partial).toBe(partial)
+    })
+
+    it('should wrap other errors as failures without a response', () => {
+      const cause = new Error('boom')
+
+      const error = ButterApiError.withPartial(cause, { items: [], resumePage: 1 })
+
+      expect(error.message).toBe('boom')
+      expect(error.status).toBeNull()
+      expect(error.cause).toBe(cause)
+    })
+  })
+
+  describe('forScope', () => {
+    it('should keep the API details and attach the scope', () => {
+      const original = new ButterApiError('HTTP 404: Not Found', {
+        status: 404,
+        url: 'https://api.buttercms.com/v2/content/recipes/?auth_token=secret',
+        attempts: 1,
+      })
+      const scope = { kind: 'collection' as const, key: 'recipes' }
+
+      const error = ButterApiError.forScope(original, scope, 'Failed to fetch collection recipes')
+
+      expect(error.message).toBe('Failed to fetch collection recipes')
+      expect(error.status).toBe(404)
+      expect(error.url).toBe('https://api.buttercms.com/v2/content/recipes/?auth_token=REDACTED')
+      expect(error.scope).toEqual(scope)
+      expect(error.cause).toBe(original)
+    })
+
+    it('should keep what was fetched before a pagination failure', () => {
+      const partial = { items: [{ slug: 'a' }], resumePage: 2 }
+      const original = ButterApiError.withPartial(
+        new ButterApiError('HTTP 503: Service Unavailable', {
+          status: 503,
+          url: null,
+          attempts: 3,
+        }),
+        partial,
+      )
+
+      const error = ButterApiError.forScope(original, { kind: 'post', key: 'Blog' })
+
+      expect(error.partial).toBe(partial)
+      expect(error.reason).toBe('Butter CMS server error after 3 attempts (503)')
+    })
+
+    it('should keep the diagnostic of an unexpected response shape', () => {
+      const original = ButterApiError.withPartial(
+        ButterApiError.unexpectedShape('expected data.recipes to be an array, got undefined', {
+          ...details,
+          status: 200,
+        }),
+        { items: [], resumePage: 1 },
+      )
+
+      const error = ButterApiError.forScope(original, { kind: 'collection', key: 'recipes' })
+
+      expect(error.reason).toBe(
+        'unexpected response shape: expected data.recipes to be an array, got undefined',
+      )
+    })
+
+    it('should treat other errors as failures without a response', () => {
+      const error = ButterApiError.forScope(new Error('boom'), { kind: 'post', key: 'Blog' })
+
+      expect(error.message).toBe('boom')
+      expect(error.status).toBeNull()
+      expect(error.reason).toBe('network error')
+    })
+  })
+})
@@ -0,0 +1,154 @@
+import type { ContentScope } from './contentSource'
+
+/** What a paginated fetch managed to download before it failed */
+export interface PartialFetch {
+  /**
+   * Items from the unbroken run of pages fetched before the failure, in page order. Empty when the
+   * pages were handed on with `onPage` as they arrived
+   */
+  items: unknown[]
+  /** The first page that was not fetched. Passing it as `startPage` continues from there */
+  resumePage: number
+}
+
+export interface ButterApiErrorDetails {
+  /** HTTP status, or `null` if no response was received (e.g. a network error) */
+  status: number | null
+  /** Request URL with the API token redacted */
+  url: string | null
+  /** How many attempts were made before giving up */
+  attempts: number
+  /** The scope being fetched, once known */
+  scope?: ContentScope
+  /** Set when pagination failed part-way, so the scope can be resumed rather than restarted */
+  partial?: PartialFetch
+  /**
+   * Set when a response arrived but could not be used, describing what was wrong with it, e.g.
+   * `expected data.recipes to be an array, got undefined`
+   */
+  diagnostic?: string
+  cause?: unknown
+}
+
+/**
+ * Replace every `auth_token` query parameter so URLs are safe to log, display and share. Works on
+ * relative URLs too, leaving the rest of the URL exactly as it was.
+ */
+export function redactUrl(url: string): string {
+  return url.replace(/([?&]auth_token=)[^&#]*/g, '$1REDACTED')
+}
+
+/** A failed request to the Butter CMS API, with enough detail to explain the failure to users */
+export class ButterApiError extends Error {
+  readonly status: number | null
+  readonly url: string | null
+  readonly attempts: number
+  readonly scope?: ContentScope
+  readonly partial?: PartialFetch
+  readonly diagnostic?: string
+  /** The underlying error, such as the network failure or the wrapped API error */
+  readonly cause?: unknown
+
+  constructor(message: string, details: ButterApiErrorDetails) {
+    super(message)
+    this.name = 'ButterApiError'
+    this.cause = details.cause
+    this.status = details.status
+    this.url = details.url && redactUrl(details.url)
+    this.attempts = details.attempts
+    this.scope = details.scope
+    this.partial = details.partial
+    this.diagnostic = details.diagnostic
+  }
+
+  /** A response that arrived but was not shaped as expected, e.g. an HTML error page from a proxy */
+  static unexpectedShape(
+    diagnostic: string,
+    details: Omit<ButterApiErrorDetails, 'diagnostic'>,
+  ): ButterApiError {
+    return new ButterApiError(`Unexpected response shape: ${diagnostic}`, {
+      ...details,
+      diagnostic,
+    })
+  }
+
+  /** Attach what was fetched before `error` interrupted pagination, keeping its API details */
+  static withPartial(error: unknown, partial: PartialFetch): ButterApiError {
+    const details: ButterApiErrorDetails =
+      error instanceof ButterApiError
+        ? {
+            status: error.status,
+            url: error.url,
+            attempts: error.attempts,
+            scope: error.scope,
+            diagnostic: error.diagnostic,
+          }
+        : { status: null, url: null, attempts: 1 }
+    return new ButterApiError((error as Error)?.message ?? String(error), {
+      ...details,
+      partial,
+      cause: error instanceof ButterApiError ? error.cause : error,
+    })
+  }
+
+  /**
+   * Wrap an error raised while fetching `scope`, keeping the status, URL and attempts when the
+   * error came from the API. Any other error is treated as a failure with no response.
+   */
+  static forScope(error: unknown, scope: ContentScope, message?: string): ButterApiError {
+    const details: ButterApiErrorDetails =
+      error instanceof ButterApiError
+        ? {
+            status: error.status,
+            url: error.url,
+            attempts: error.attempts,
+            partial: error.partial,
+            diagnostic: error.diagnostic,
+          }
+        : { status: null, url: null, attempts: 1 }
+    return new ButterApiError(message ?? (error as Error)?.message ?? String(error), {
+      ...details,
+      scope,
+      cause: error,
+    })
+  }
+
+  /** Short, user-facing explanation of why the request failed, e.g. "token rejected (401)" */
+  get reason(): string {
+    if (this.diagnostic) return `unexpected response shape: ${this.diagnostic}`
+    const retried = this.attempts > 1 ? ` after ${this.attempts} attempts` : ''
+    switch (this.status) {
+      case null:
+        return `network error${retried}`
+      case 401:
+        return 'token rejected (401)'
+      case 403:
+        return 'access denied (403)'
+      case 404:
+        return `${this.missingScope()} does not exist (404)`
+      case 429:
+        return `rate limited by Butter CMS${retried} (429)`
+      default:
+        return this.status >= 500
+          ? `Butter CMS server error${retried} (${this.status})`
+          : `request failed (${this.status})`
+    }
+  }
+
+  private missingScope(): string {
+    switch (this.scope?.kind) {
+      case 'page':
+        return `page type "${this.scope.key}"`
+      case 'collection':
+        return `collection "${this.scope.key}"`
+      case 'post':
+        return 'the blog'
+      case 'author':
+      case 'category':
+      case 'tag':
+        return `the blog's ${this.scope.key.toLowerCase()}`
+      default:
+        return 'the requested content'
+    }
+  }
+}
@@ -1,6 +1,19 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import type { Butter } from '@/types'
-import { fetchWithRetry } from './fetch'
+import { ButterApiError } from './errors'
+import {
+  addRequestListener,
+  backoffDelay,
+  DEFAULT_MAX_CONCURRENT_REQUESTS,
+  fetchWithRetry,
+  isAbortError,
+  MAX_RETRY_AFTER_MS,
+  parseRetryAfter,
+  pauseRequests,
+  scheduleRequest,
+  setFetchInterceptor,
+  setMaxConcurrentRequests,
+} from './fetch'
 
 describe('fetchWithRetry', () => {
   beforeEach(() => {
@@ -30,7 +43,9 @@ describe('fetchWithRetry', () => {
 
     expect(result).toEqual(mockData)
     expect(globalThis.fetch).toHaveBeenCalledOnce()
-    expect(globalThis.fetch).toHaveBeenCalledWith('https://api.example.com/test')
+    expect(globalThis.fetch).toHaveBeenCalledWith('https://api.example.com/test', {
+      signal: undefined,
+    })
   })
 
   it('should retry on failure and succeed on second attempt', async () => {
@@ -47,7 +62,7 @@ describe('fetchWithRetry', () => {
         json: async () => mockData,
       })
 
-    const result = await fetchWithRetry<string[]>('https://api.example.com/test', 3)
+    const result = await fetchWithRetry<string[]>('https://api.example.com/test', { maxRetries: 3 })
 
     expect(result).toEqual(mockData)
     expect(globalThis.fetch).toHaveBeenCalledTimes(2)
@@ -71,7 +86,7 @@ describe('fetchWithRetry', () => {
         json: async () => mockData,
       })
 
-    const result = await fetchWithRetry<string[]>('https://api.example.com/test', 3)
+    const result = await fetchWithRetry<string[]>('https://api.example.com/test', { maxRetries: 3 })
 
     expect(result).toEqual(mockData)
     expect(globalThis.fetch).toHaveBeenCalledTimes(2)
@@ -80,23 +95,161 @@ describe('fetchWithRetry', () => {
   it('should throw error after all retries are exhausted', async () => {
     globalThis.fetch = vi.fn().mockRejectedValue(new Error('Network error'))
 
-    await expect(fetchWithRetry('https://api.example.com/test', 3)).rejects.toThrow('Network error')
+    await expect(fetchWithRetry('https://api.example.com/test', { maxRetries: 3 })).rejects.toThrow(
+      'Network error',
+    )
     expect(globalThis.fetch).toHaveBeenCalledTimes(3)
   })
 
   it('should throw HTTP error after all retries are exhausted', async () => {
     globalThis.fetch = vi.fn().mockResolvedValue({
       ok: false,
-      status: 404,
-      statusText: 'Not Found',
+      status: 503,
+      statusText: 'Service Unavailable',
     })
 
-    await expect(fetchWithRetry('https://api.example.com/test', 2)).rejects.toThrow(
-      'HTTP 404: Not Found',
+    await expect(fetchWithRetry('https://api.example.com/test', { maxRetries: 2 })).rejects.toThrow(
+      'HTTP 503: Service Unavailable',
     )
     expect(globalThis.fetch).toHaveBeenCalledTimes(2)
   })
 
+  it.each([
+    [400, 'Bad Request'],
+    [401, 'Unauthorized'],
+    [403, 'Forbidden'],
+    [404, 'Not Found'],
+  ])('should not retry permanent HTTP %i errors', async (status, statusText) => {
+    globalThis.fetch = vi.fn().mockResolvedValue({ ok: false, status, statusText })
+
+    await expect(fetchWithRetry('https://api.example.com/test', { maxRetries: 3 })).rejects.toThrow(
+      `HTTP ${status}: ${statusText}`,
+    )
+    expect(globalThis.fetch).toHaveBeenCalledOnce()
+  })
+
+  it('should reject with a ButterApiError describing the failed request', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+    })
+
+    const error = await fetchWithRetry('https://api.example.com/test?auth_token=secret').catch(
+      (e) => e,
+    )
+
+    expect(error).toBeInstanceOf(ButterApiError)
+    expect(error.status).toBe(401)
+    expect(error.attempts).toBe(1)
+    expect(error.url).toBe('https://api.example.com/test?auth_token=REDACTED')
+  })
+
+  it('should count every attempt made before a network failure', async () => {
+    globalThis.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'))
+
+    const error = await fetchWithRetry('https://api.example.com/test', { maxRetries: 2 }).catch(
+      (e) => e,
+    )
+
+    expect(error).toBeInstanceOf(ButterApiError)
+    expect(error.status).toBeNull()
+    expect(error.attempts).toBe(2)
+    expect(error.message).toBe('Failed to fetch')
+  })
+
+  describe('rate limiting', () => {
+    const tooManyRequests = (retryAfter?: string) => ({
+      ok: false,
+      status: 429,
+      statusText: 'Too Many Requests',
+      headers: new Headers(retryAfter ? { 'Retry-After': retryAfter } : {}),
+    })
+    const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+    it('should wait for Retry-After before retrying a 429', async () => {
+      globalThis.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(tooManyRequests('0.2'))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ data: 'ok' }) })
+
+      const startTime = Date.now()
+      const promise = fetchWithRetry('https://api.example.com/test')
+      await wait(100)
+      expect(globalThis.fetch).toHaveBeenCalledOnce()
+
+      await expect(promise).resolves.toEqual({ data: 'ok' })
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(190)
+      expect(Date.now() - startTime).toBeLessThan(1000)
+    })
+
+    it('should hold back other queued requests until Retry-After has passed', async () => {
+      globalThis.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(tooManyRequests('0.2'))
+        .mockResolvedValue({ ok: true, json: async () => ({ data: 'ok' }) })
+
+      const limited = fetchWithRetry('https://api.example.com/limited')
+      await wait(10)
+      const queued = fetchWithRetry('https://api.example.com/queued')
+      await wait(100)
+      expect(globalThis.fetch).toHaveBeenCalledOnce()
+
+      await Promise.all([limited, queued])
+      expect(globalThis.fetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('should hold back a request queued behind a full pool when the 429 arrives', async () => {
+      setMaxConcurrentRequests(1)
+      try {
+        let limit!: () => void
+        globalThis.fetch = vi
+          .fn()
+          .mockReturnValueOnce(
+            new Promise((resolve) => (limit = () => resolve(tooManyRequests('0.2')))),
+          )
+          .mockResolvedValue({ ok: true, json: async () => ({ data: 'ok' }) })
+
+        const limited = fetchWithRetry('https://api.example.com/limited')
+        const queued = fetchWithRetry('https://api.example.com/queued')
+        await wait(10)
+        limit()
+        await wait(100)
+        expect(globalThis.fetch).toHaveBeenCalledOnce()
+
+        await Promise.all([limited, queued])
+        expect(globalThis.fetch).toHaveBeenCalledTimes(3)
+      } finally {
+        setMaxConcurrentRequests(DEFAULT_MAX_CONCURRENT_REQUESTS)
+      }
+    })
+
+    it('should fall back to exponential backoff when a 429 has no Retry-After', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0)
+      globalThis.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(tooManyRequests())
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ data: 'ok' }) })
+
+      const startTime = Date.now()
+      await expect(fetchWithRetry('https://api.example.com/test')).resolves.toEqual({ data: 'ok' })
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(1000)
+    })
+  })
+
+  it('should report each attempt as it starts', async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ data: 'ok' }) })
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    const onAttempt = vi.fn()
+
+    await fetchWithRetry('https://api.example.com/test', { onAttempt })
+
+    expect(onAttempt.mock.calls).toEqual([[1], [2]])
+  })
+
   it('should use default maxRetries of 3', async () => {
     globalThis.fetch = vi.fn().mockRejectedValue(new Error('Network error'))
 
@@ -120,7 +273,7 @@ describe('fetchWithRetry', () => {
       })
 
     const startTime = Date.now()
-    await fetchWithRetry('https://api.example.com/test', 3)
+    await fetchWithRetry('https://api.example.com/test', { maxRetries: 3 })
     const duration = Date.now() - startTime
 
     // Should have at least 1000ms + 2000ms = 3000ms of delays
@@ -166,8 +319,314 @@ describe('fetchWithRetry', () => {
       json: async () => mockData,
     })
 
-    await fetchWithRetry('https://api.example.com/test', 1)
+    await fetchWithRetry('https://api.example.com/test', { maxRetries: 1 })
+
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fail without retrying when a successful response is not JSON', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => JSON.parse('<html>Proxy login</html>'),
+    })
+
+    const error = await fetchWithRetry('https://api.example.com/test').catch((e) => e)
 
+    expect(error).toBeInstanceOf(ButterApiError)
+    expect(error.reason).toBe('unexpected response shape: expected a JSON response')
+    expect(error.cause).toBeInstanceOf(SyntaxError)
     expect(globalThis.fetch).toHaveBeenCalledTimes(1)
   })
+
+  describe('cancellation', () => {
+    it('should pass the signal to fetch', async () => {
+      const controller = new AbortController()
+      globalThis.fetch = vi.fn().mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: [], meta: { next_page: null, previous_page: null, count: 0 } }),
+      })
+
+      await fetchWithRetry('https://api.example.com/test', { signal: controller.signal })
+
+      expect(globalThis.fetch).toHaveBeenCalledWith('https://api.example.com/test', {
+        signal: controller.signal,
+      })
+    })
+
+    it('should not fetch when the signal is already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+      globalThis.fetch = vi.fn()
+
+      const error = await fetchWithRetry('https://api.example.com/test', {
+        signal: controller.signal,
+      }).catch((e) => e)
+
+      expect(isAbortError(error)).toBe(true)
+      expect(globalThis.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should not retry when fetch is aborted', async () => {
+      globalThis.fetch = vi
+        .fn()
+        .mockRejectedValue(new DOMException('The operation was aborted.', 'AbortError'))
+
+      const error = await fetchWithRetry('https://api.example.com/test').catch((e) => e)
+
+      expect(isAbortError(error)).toBe(true)
+      expect(globalThis.fetch).toHaveBeenCalledOnce()
+    })
+
+    it('should stop waiting between retries once aborted', async () => {
+      const controller = new AbortController()
+      globalThis.fetch = vi.fn().mockRejectedValue(new Error('Network error'))
+
+      const startTime = Date.now()
+      const promise = fetchWithRetry('https://api.example.com/test', { signal: controller.signal })
+      setTimeout(() => controller.abort(), 50)
+      const error = await promise.catch((e) => e)
+
+      expect(isAbortError(error)).toBe(true)
+      expect(Date.now() - startTime).toBeLessThan(1000)
+      expect(globalThis.fetch).toHaveBeenCalledOnce()
+    })
+  })
+
+  describe('parseRetryAfter', () => {
+    it('should parse a delay in seconds', () => {
+      expect(parseRetryAfter('120')).toBe(120_000)
+    })
+
+    it('should parse an HTTP date relative to now', () => {
+      const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT')
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT', now)).toBe(30_000)
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0)
+    })
+
+    it('should cap the delay', () => {
+      expect(parseRetryAfter('86400')).toBe(MAX_RETRY_AFTER_MS)
+      expect(parseRetryAfter('Thu, 01 Jan 2099 00:00:00 GMT')).toBe(MAX_RETRY_AFTER_MS)
+    })
+
+    it('should return null for a missing or unparseable header', () => {
+      expect(parseRetryAfter(null)).toBeNull()
+      expect(parseRetryAfter(undefined)).toBeNull()
+      expect(parseRetryAfter('soon')).toBeNull()
+    })
+  })
+
+  describe('backoffDelay', () => {
+    it('should double the delay on each attempt', () => {
+      expect([1, 2, 3, 4].map((attempt) => backoffDelay(attempt, 0))).toEqual([
+        1000, 2000, 4000, 8000,
+      ])
+    })
+
+    it('should add up to 25% jitter', () => {
+      expect(backoffDelay(2, 0.5)).toBe(2250)
+      expect(backoffDelay(2, 1)).toBe(2500)
+    })
+  })
+
+  describe('scheduleRequest', () => {
+    afterEach(() => {
+      setMaxConcurrentRequests(DEFAULT_MAX_CONCURRENT_REQUESTS)
+    })
+
+    it('should never run more than the configured number of requests at once', async () => {
+      setMaxConcurrentRequests(2)
+      let inFlight = 0
+      let maxInFlight = 0
+      const request = async () => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        inFlight--
+        return inFlight
+      }
+
+      await Promise.all(Array.from({ length: 6 }, () => scheduleRequest(request)))
+
+      expect(maxInFlight).toBe(2)
+    })
+
+    it('should start queued requests in the order they were scheduled', async () => {
+      setMaxConcurrentRequests(1)
+      const order: number[] = []
+
+      await Promise.all(
+        [1, 2, 3].map((n) =>
+          scheduleRequest(async () => {
+            order.push(n)
+          }),
+        ),
+      )
+
+      expect(order).toEqual([1, 2, 3])
+    })
+
+    it('should drop a queued request when its signal is aborted', async () => {
+      setMaxConcurrentRequests(1)
+      let release!: () => void
+      const blocking = scheduleRequest(() => new Promise<void>((resolve) => (release = resolve)))
+      const controller = new AbortController()
+      const request = vi.fn()
+
+      const queued = scheduleRequest(request, controller.signal)
+      controller.abort()
+      const error = await queued.catch((e) => e)
+      release()
+      await blocking
+
+      expect(isAbortError(error)).toBe(true)
+      expect(request).not.toHaveBeenCalled()
+    })
+
+    it('should hold back queued requests while paused', async () => {
+      const request = vi.fn().mockResolvedValue('done')
+
+      const startTime = Date.now()
+      pauseRequests(100)
+      await expect(scheduleRequest(request)).resolves.toBe('done')
+
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(90)
+    })
+  })
+
+  describe('setFetchInterceptor', () => {
+    afterEach(() => {
+      setFetchInterceptor(null)
+    })
+
+    it('should answer requests from the interceptor instead of the network', async () => {
+      const mockData = { data: ['demo'], meta: { next_page: null, previous_page: null, count: 1 } }
+      globalThis.fetch = vi.fn()
+      const interceptor = vi.fn().mockResolvedValue(new Response(JSON.stringify(mockData)))
+      setFetchInterceptor(interceptor)
+
+      const result = await fetchWithRetry<string[]>('https://api.example.com/test')
+
+      expect(result).toEqual(mockData)
+      expect(interceptor).toHaveBeenCalledWith('https://api.example.com/test', {
+        signal: undefined,
+      })
+      expect(globalThis.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should apply the usual error handling to intercepted responses', async () => {
+      setFetchInterceptor(
+        async () => new Response('{}', { status: 401, statusText: 'Unauthorized' }),
+      )
+
+      const error = await fetchWithRetry('https://api.example.com/test').catch((e) => e)
+
+      expect(error).toBeInstanceOf(ButterApiError)
+      expect(error.status).toBe(401)
+      expect(error.attempts).toBe(1)
+    })
+
+    it('should go back to the network once cleared', async () => {
+      const interceptor = vi.fn()
+      globalThis.fetch = vi.fn().mockResolvedValueOnce({ ok: true, json: async () => ({}) })
+      setFetchInterceptor(interceptor)
+      setFetchInterceptor(null)
+
+      await fetchWithRetry('https://api.example.com/test')
+
+      expect(interceptor).not.toHaveBeenCalled()
+      expect(globalThis.fetch).toHaveBeenCalledOnce()
+    })
+  })
+
+  describe('addRequestListener', () => {
+    afterEach(() => {
+      setFetchInterceptor(null)
+    })
+
+    it('should report every attempt, including retries', async () => {
+      const listener = vi.fn()
+      const stop = addRequestListener(listener)
+      globalThis.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(new Response('{}', { status: 429, headers: { 'Retry-After': '0' } }))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) })
+
+      await fetchWithRetry('https://api.example.com/test')
+      stop()
+
+      expect(listener.mock.calls.map(([event]) => event)).toEqual([
+        expect.objectContaining({ url: 'https://api.example.com/test', attempt: 1, status: 429 }),
+        expect.objectContaining({ url: 'https://api.example.com/test', attempt: 2 }),
+      ])
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ intercepted: false }))
+    })
+
+    it('should report the status, size and duration of each response', async () => {
+      const listener = vi.fn()
+      const stop = addRequestListener(listener)
+      globalThis.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(new Response('{"data":[]}', { headers: { 'Content-Length': '11' } }))
+
+      await fetchWithRetry('https://api.example.com/test')
+      stop()
+
+      expect(listener).toHaveBeenCalledWith({
+        url: 'https://api.example.com/test',
+        attempt: 1,
+        intercepted: false,
+        startedAt: expect.any(Number),
+        durationMs: expect.any(Number),
+        status: 200,
+        size: 11,
+      })
+    })
+
+    it('should report requests that get no response', async () => {
+      const listener = vi.fn()
+      const stop = addRequestListener(listener)
+      globalThis.fetch = vi.fn().mockRejectedValue(new Error('Network error'))
+
+      await fetchWithRetry('https://api.example.com/test', { maxRetries: 1 }).catch(() => {})
+      stop()
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ status: null, size: null, error: 'Network error' }),
+      )
+    })
+
+    it('should mark requests answered by the interceptor', async () => {
+      const listener = vi.fn()
+      const stop = addRequestListener(listener)
+      setFetchInterceptor(async () => new Response('{}'))
+
+      await fetchWithRetry('https://api.example.com/test')
+      stop()
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ intercepted: true }))
+    })
+
+    it('should stop reporting once the listener is removed', async () => {
+      const listener = vi.fn()
+      addRequestListener(listener)()
+      globalThis.fetch = vi.fn().mockResolvedValueOnce({ ok: true, json: async () => ({}) })
+
+      await fetchWithRetry('https://api.example.com/test')
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('isAbortError', () => {
+    it('should recognise abort errors', () => {
+      expect(isAbortError(new DOMException('Aborted', 'AbortError'))).toBe(true)
+    })
+
+    it('should reject other errors and non-errors', () => {
+      expect(isAbortError(new Error('Network error'))).toBe(false)
+      expect(isAbortError(null)).toBe(false)
+      expect(isAbortError(undefined)).toBe(false)
+    })
+  })
 })
@@ -1,20 +1,298 @@
 import type { Butter } from '@/types'
+import { ButterApiError } from './errors'
 
-/** Fetch generic data with retry logic */
-export async function fetchWithRetry<T>(url: string, maxRetries = 3): Promise<Butter.Response<T>> {
-  let lastError: Error | null = null
+/** Whether an error was caused by an aborted request rather than a genuine failure */
+export function isAbortError(error: unknown): boolean {
+  return (error as Error | null)?.name === 'AbortError'
+}
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error && isAbortError(signal.reason)
+    ? signal.reason
+    : new DOMException('The operation was aborted.', 'AbortError')
+}
+
+/** Wait for `ms` milliseconds, rejecting early if the signal is aborted */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal))
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError(signal!))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/** Progress through a paginated fetch: items received so far and the total from `meta.count` */
+export interface FetchProgress {
+  fetched: number
+  total: number
+}
+
+/** Maximum Butter CMS requests in flight at once across every scope and feature */
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 6
+
+let maxConcurrentRequests = DEFAULT_MAX_CONCURRENT_REQUESTS
+let activeRequests = 0
+let pausedUntil = 0
+let resumeTimer: ReturnType<typeof setTimeout> | null = null
+const waitingRequests: Array<() => void> = []
+
+/** Change how many Butter CMS requests may be in flight at once */
+export function setMaxConcurrentRequests(limit: number): void {
+  maxConcurrentRequests = Math.max(1, Math.floor(limit))
+  startWaitingRequests()
+}
+
+/**
+ * Hold back every queued request for `ms` milliseconds, e.g. after Butter CMS responds with 429.
+ * Requests already in flight are unaffected.
+ */
+export function pauseRequests(ms: number): void {
+  pausedUntil = Math.max(pausedUntil, Date.now() + ms)
+}
+
+function startWaitingRequests(): void {
+  const wait = pausedUntil - Date.now()
+  if (wait > 0) {
+    resumeTimer ??= setTimeout(() => {
+      resumeTimer = null
+      startWaitingRequests()
+    }, wait)
+    return
+  }
+  while (activeRequests < maxConcurrentRequests && waitingRequests.length > 0) {
+    activeRequests++
+    waitingRequests.shift()!()
+  }
+}
+
+/** Wait for a free request slot. Aborting while queued gives up the place in the queue */
+function acquireRequestSlot(signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal))
+    const start = () => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }
+    const onAbort = () => {
+      waitingRequests.splice(waitingRequests.indexOf(start), 1)
+      reject(abortError(signal!))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+    waitingRequests.push(start)
+    startWaitingRequests()
+  })
+}
+
+function releaseRequestSlot(): void {
+  activeRequests--
+  startWaitingRequests()
+}
+
+/**
+ * Run a request through the global scheduler, so no more than the configured number of Butter CMS
+ * requests are ever in flight, however many scopes and pages are being fetched.
+ */
+export async function scheduleRequest<T>(
+  request: () => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  await acquireRequestSlot(signal)
+  try {
+    return await request()
+  } finally {
+    releaseRequestSlot()
+  }
+}
+
+/** Answers Butter CMS requests in place of the network, e.g. to serve demo content offline */
+export type FetchInterceptor = (url: string, init: { signal?: AbortSignal }) => Promise<Response>
+
+let fetchInterceptor: FetchInterceptor | null = null
+
+/**
+ * Route every request made by {@link fetchWithRetry} through `interceptor` instead of the network,
+ * or back to the network when `null`. Requests still go through the scheduler and retries.
+ */
+export function setFetchInterceptor(interceptor: FetchInterceptor | null): void {
+  fetchInterceptor = interceptor
+}
+
+/** A request made by {@link fetchWithRetry}. Each retry is a new request with a higher `attempt` */
+export interface RequestEvent {
+  url: string
+  attempt: number
+  /** Answered by the fetch interceptor, so it never reached Butter CMS */
+  intercepted: boolean
+  /** When the request was sent, in milliseconds since the epoch */
+  startedAt: number
+  /** Until the response headers arrived or the request failed */
+  durationMs: number
+  /** HTTP status, or `null` if no response arrived */
+  status: number | null
+  /** Body size in bytes from `Content-Length`, or `null` if the response does not say */
+  size: number | null
+  /** Why no response arrived, e.g. a network error or the request being aborted */
+  error?: string
+}
+
+export type RequestListener = (event: RequestEvent) => void
+
+const requestListeners = new Set<RequestListener>()
+
+/**
+ * Call `listener` as each request settles, whether it got a response, failed or was aborted.
+ * Requests abandoned while queued are never sent and not reported. Returns a function that stops
+ * listening.
+ */
+export function addRequestListener(listener: RequestListener): () => void {
+  requestListeners.add(listener)
+  return () => {
+    requestListeners.delete(listener)
+  }
+}
+
+function contentLength(response: Response): number | null {
+  const header = response.headers?.get('Content-Length')
+  const size = header ? Number(header) : NaN
+  return Number.isFinite(size) ? size : null
+}
+
+async function sendRequest(url: string, attempt: number, signal?: AbortSignal): Promise<Response> {
+  const interceptor = fetchInterceptor
+  const startedAt = Date.now()
+  const report = (outcome: Pick<RequestEvent, 'status' | 'size' | 'error'>) => {
+    const event = {
+      url,
+      attempt,
+      intercepted: interceptor !== null,
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      ...outcome,
+    }
+    requestListeners.forEach((listener) => listener(event))
+  }
+  try {
+    const response = await (interceptor ? interceptor(url, { signal }) : fetch(url, { signal }))
+    report({ status: response.status ?? null, size: contentLength(response) })
+    return response
+  } catch (error) {
+    report({ status: null, size: null, error: (error as Error).message })
+    throw error
+  }
+}
+
+/** Rate limits, timeouts and server errors are worth retrying; other client errors are permanent */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+/** The longest a `Retry-After` holds back requests, so a bad header cannot stall every run */
+export const MAX_RETRY_AFTER_MS = 5 * 60_000
+
+/**
+ * Parse a `Retry-After` header (seconds or an HTTP date) into milliseconds, at most
+ * {@link MAX_RETRY_AFTER_MS}, or `null` if absent
+ */
+export function parseRetryAfter(
+  header: string | null | undefined,
+  now = Date.now(),
+): number | null {
+  if (!header) return null
+  const seconds = Number(header)
+  const date = Number.isFinite(seconds) ? now + seconds * 1000 : Date.parse(header)
+  return Number.isNaN(date) ? null : Math.min(Math.max(0, date - now), MAX_RETRY_AFTER_MS)
+}
+
+/** Exponential backoff (1s, 2s, 4s, ...) plus up to 25% random jitter so retries don't align */
+export function backoffDelay(attempt: number, random = Math.random()): number {
+  const base = 1000 * 2 ** (attempt - 1)
+  return base + Math.round(base * 0.25 * random)
+}
+
+/**
+ * Read a successful response as JSON. A body that is not JSON, such as an HTML page from a proxy
+ * or captive portal, is an unexpected response shape rather than a network error, and is not
+ * retried.
+ */
+async function parseJson<T>(
+  response: Response,
+  url: string,
+  attempt: number,
+): Promise<Butter.Response<T>> {
+  try {
+    return await response.json()
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw ButterApiError.unexpectedShape('expected a JSON response', {
+      status: response.status,
+      url,
+      attempts: attempt,
+      cause: error,
+    })
+  }
+}
+
+export interface FetchOptions {
+  /** Total attempts before giving up (default 3) */
+  maxRetries?: number
+  /** Aborting the signal stops immediately, including during a retry delay, without retrying */
+  signal?: AbortSignal
+  /** Called as each attempt starts, so errors raised over the response can say how many it took */
+  onAttempt?: (attempt: number) => void
+}
+
+/**
+ * Fetch generic data with retry logic. Requests go through the global scheduler. A 429 honours
+ * `Retry-After` up to {@link MAX_RETRY_AFTER_MS} (pausing all queued requests), other transient
+ * failures back off exponentially, and permanent errors such as 401 and 404 are not retried, nor is
+ * a successful response whose body is not JSON. Failures reject with a {@link ButterApiError}.
+ */
+export async function fetchWithRetry<T>(
+  url: string,
+  { maxRetries = 3, signal, onAttempt }: FetchOptions = {},
+): Promise<Butter.Response<T>> {
+  let lastError: ButterApiError | null = null
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    if (signal?.aborted) throw abortError(signal)
+    onAttempt?.(attempt)
+    let retryAfter: number | null = null
     try {
-      const response = await fetch(url)
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      const response = await scheduleRequest(async () => {
+        const sent = await sendRequest(url, attempt, signal)
+        // Paused before the slot is released, or the next queued request starts into the limit
+        if (sent.status === 429) {
+          retryAfter = parseRetryAfter(sent.headers?.get('Retry-After'))
+          if (retryAfter !== null) pauseRequests(retryAfter)
+        }
+        return sent
+      }, signal)
+      if (response.ok) {
+        return await parseJson<T>(response, url, attempt)
       }
-      return await response.json()
+      lastError = new ButterApiError(`HTTP ${response.status}: ${response.statusText}`, {
+        status: response.status,
+        url,
+        attempts: attempt,
+      })
+      if (!isRetryableStatus(response.status)) break
     } catch (error) {
-      lastError = error as Error
-      if (attempt < maxRetries) {
-        await new Promise((resolve) => setTimeout(resolve, 1000 * attempt))
-      }
+      if (isAbortError(error) || error instanceof ButterApiError) throw error
+      lastError = new ButterApiError((error as Error).message, {
+        status: null,
+        url,
+        attempts: attempt,
+        cause: error,
+      })
+    }
+    if (attempt < maxRetries) {
+      await delay(retryAfter ?? backoffDelay(attempt), signal)
     }
   }
   throw lastError
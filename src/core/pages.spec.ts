@@ -1,10 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import type { Butter } from '@/types'
-import { getAllPages } from './pages'
+import { getAllPages, getPagesUpdatedSince } from './pages'
 import * as fetchModule from './fetch'
+import { ButterApiError } from './errors'
 
 // Mock the fetch module
-vi.mock('./fetch', () => ({
+vi.mock('./fetch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./fetch')>()),
   fetchWithRetry: vi.fn(),
 }))
 
@@ -55,14 +57,28 @@ describe('getAllPages', () => {
     expect(mockFetchWithRetry).toHaveBeenCalledOnce()
     expect(mockFetchWithRetry).toHaveBeenCalledWith(
       expect.stringContaining('https://api.buttercms.com/v2/pages/landing_page/'),
+      expect.anything(),
     )
     expect(mockFetchWithRetry).toHaveBeenCalledWith(
       expect.stringContaining('auth_token=test-token'),
+      expect.anything(),
+    )
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('page=1'),
+      expect.anything(),
+    )
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('page_size=100'),
+      expect.anything(),
+    )
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('levels=5'),
+      expect.anything(),
+    )
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('alt_media_text=1'),
+      expect.anything(),
     )
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('page=1'))
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('page_size=100'))
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('levels=5'))
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('alt_media_text=1'))
   })
 
   it('should include different page types in URL', async () => {
@@ -79,7 +95,48 @@ describe('getAllPages', () => {
       pageType: 'product_page',
     })
 
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('pages/product_page/'))
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('pages/product_page/'),
+      expect.anything(),
+    )
+  })
+
+  it('should ask for the configured locale', async () => {
+    const mockResponse: Butter.Response<Butter.Page[]> = {
+      data: [],
+      meta: { next_page: null, previous_page: null, count: 0 },
+    }
+
+    mockFetchWithRetry.mockResolvedValue(mockResponse)
+
+    await getAllPages({
+      token: 'test-token',
+      preview: false,
+      pageType: 'landing_page',
+      locale: 'fr',
+    })
+    await getAllPages({ token: 'test-token', preview: false, pageType: 'landing_page' })
+
+    expect(mockFetchWithRetry.mock.calls[0]?.[0]).toContain('locale=fr')
+    expect(mockFetchWithRetry.mock.calls[1]?.[0]).not.toContain('locale=')
+  })
+
+  it('should send field filters as fields.<name> parameters', async () => {
+    mockFetchWithRetry.mockResolvedValue({
+      data: [],
+      meta: { next_page: null, previous_page: null, count: 0 },
+    })
+
+    await getAllPages({
+      token: 'test-token',
+      preview: false,
+      pageType: 'product_page',
+      fields: { region: 'eu', 'seo.title': 'Shoes & boots' },
+    })
+
+    const params = new URL(mockFetchWithRetry.mock.calls[0]![0]).searchParams
+    expect(params.get('fields.region')).toBe('eu')
+    expect(params.get('fields.seo.title')).toBe('Shoes & boots')
   })
 
   it('should include preview=1 in URL when preview is true', async () => {
@@ -96,7 +153,10 @@ describe('getAllPages', () => {
       pageType: 'landing_page',
     })
 
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('preview=1'))
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('preview=1'),
+      expect.anything(),
+    )
   })
 
   it('should not include preview parameter when preview is false', async () => {
@@ -172,7 +232,11 @@ describe('getAllPages', () => {
     expect(result[0]!.slug).toBe('page-1')
     expect(result[1]!.slug).toBe('page-2')
     expect(mockFetchWithRetry).toHaveBeenCalledTimes(2)
-    expect(mockFetchWithRetry).toHaveBeenNthCalledWith(2, expect.stringContaining('page=2'))
+    expect(mockFetchWithRetry).toHaveBeenNthCalledWith(
+      2,
+      expect.stringContaining('page=2'),
+      expect.anything(),
+    )
   })
 
   it('should handle pagination across three pages', async () => {
@@ -211,6 +275,36 @@ describe('getAllPages', () => {
     expect(mockFetchWithRetry).toHaveBeenCalledTimes(3)
   })
 
+  it('should fetch the remaining pages concurrently and keep them in page order', async () => {
+    const createPages = (page: number, length: number) =>
+      Array.from({ length }, (_, index) => ({ slug: `page-${page}-${index}` }) as Butter.Page)
+    const resolvers: Array<() => void> = []
+    mockFetchWithRetry.mockImplementation(async (url: string) => {
+      const page = Number(new URL(url).searchParams.get('page'))
+      if (page > 1) await new Promise<void>((resolve) => resolvers.push(resolve))
+      return {
+        data: createPages(page, page === 3 ? 50 : 100),
+        meta: { next_page: page < 3 ? page + 1 : null, previous_page: null, count: 250 },
+      }
+    })
+
+    const resultPromise = getAllPages({
+      token: 'test-token',
+      preview: false,
+      pageType: 'landing_page',
+    })
+    await vi.waitFor(() => expect(resolvers).toHaveLength(2))
+    // Both remaining pages are in flight at once; resolve them in reverse order
+    resolvers[1]!()
+    resolvers[0]!()
+    const result = await resultPromise
+
+    expect(result).toHaveLength(250)
+    expect(result[0]!.slug).toBe('page-1-0')
+    expect(result[100]!.slug).toBe('page-2-0')
+    expect(result[249]!.slug).toBe('page-3-49')
+  })
+
   it('should return empty array when no pages exist', async () => {
     const mockResponse: Butter.Response<Butter.Page[]> = {
       data: [],
@@ -229,6 +323,52 @@ describe('getAllPages', () => {
     expect(mockFetchWithRetry).toHaveBeenCalledOnce()
   })
 
+  it('should pass the abort signal to each request', async () => {
+    const controller = new AbortController()
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: [],
+      meta: { next_page: null, previous_page: null, count: 0 },
+    })
+
+    await getAllPages({
+      token: 'test-token',
+      preview: false,
+      pageType: 'landing_page',
+      signal: controller.signal,
+    })
+
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.any(String), {
+      signal: controller.signal,
+      onAttempt: expect.any(Function),
+    })
+  })
+
+  it('should report progress after each page using meta.count as the total', async () => {
+    const onProgress = vi.fn()
+    mockFetchWithRetry
+      .mockResolvedValueOnce({
+        data: [{ slug: 'page-1' }, { slug: 'page-2' }],
+        meta: { next_page: 2, previous_page: null, count: 3 },
+      })
+      .mockResolvedValueOnce({
+        data: [{ slug: 'page-3' }],
+        meta: { next_page: null, previous_page: 1, count: 3 },
+      })
+
+    await getAllPages({ token: 'test-token', preview: false, pageType: 'landing_page', onProgress })
+
+    expect(onProgress.mock.calls).toEqual([[{ fetched: 2, total: 3 }], [{ fetched: 3, total: 3 }]])
+  })
+
+  it('should rethrow abort errors without wrapping them', async () => {
+    const abortError = new DOMException('The operation was aborted.', 'AbortError')
+    mockFetchWithRetry.mockRejectedValueOnce(abortError)
+
+    await expect(
+      getAllPages({ token: 'test-token', preview: false, pageType: 'landing_page' }),
+    ).rejects.toBe(abortError)
+  })
+
   it('should throw error on fetch failure', async () => {
     mockFetchWithRetry.mockRejectedValueOnce(new Error('API error'))
 
@@ -241,6 +381,23 @@ describe('getAllPages', () => {
     ).rejects.toThrow('Failed to fetch page landing_page: API error')
   })
 
+  it('should attach the page type to API errors', async () => {
+    mockFetchWithRetry.mockRejectedValueOnce(
+      new ButterApiError('HTTP 404: Not Found', { status: 404, url: null, attempts: 1 }),
+    )
+
+    const error = await getAllPages({
+      token: 'test-token',
+      preview: false,
+      pageType: 'landing_page',
+    }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(ButterApiError)
+    expect(error.message).toBe('Failed to fetch page landing_page: HTTP 404: Not Found')
+    expect(error.status).toBe(404)
+    expect(error.scope).toEqual({ kind: 'page', key: 'landing_page' })
+  })
+
   it('should handle different error messages in fetch failure', async () => {
     mockFetchWithRetry.mockRejectedValueOnce(new Error('Network timeout'))
 
@@ -253,38 +410,38 @@ describe('getAllPages', () => {
     ).rejects.toThrow('Failed to fetch page product_page: Network timeout')
   })
 
-  it('should handle response with null data gracefully', async () => {
-    const mockResponse: Partial<Butter.Response<Butter.Page[]>> = {
+  it('should reject a response without data as an unexpected response shape', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({
       meta: { next_page: null, previous_page: null, count: 0 },
-    }
-
-    mockFetchWithRetry.mockResolvedValueOnce(mockResponse)
+    })
 
-    const result = await getAllPages({
+    const error = await getAllPages({
       token: 'test-token',
       preview: false,
       pageType: 'landing_page',
-    })
+    }).catch((e) => e)
 
-    expect(result).toEqual([])
+    expect(error).toBeInstanceOf(ButterApiError)
+    expect(error.scope).toEqual({ kind: 'page', key: 'landing_page' })
+    expect(error.reason).toBe(
+      'unexpected response shape: expected data to be an array, got undefined',
+    )
     expect(mockFetchWithRetry).toHaveBeenCalledOnce()
   })
 
-  it('should handle response with non-array data gracefully', async () => {
-    const mockResponse: Partial<Butter.Response<Butter.Page[]>> = {
+  it('should reject a response whose data is not an array', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: { detail: 'Not found' },
       meta: { next_page: null, previous_page: null, count: 0 },
-    }
-
-    mockFetchWithRetry.mockResolvedValueOnce(mockResponse)
+    })
 
-    const result = await getAllPages({
+    const error = await getAllPages({
       token: 'test-token',
       preview: false,
       pageType: 'landing_page',
-    })
+    }).catch((e) => e)
 
-    expect(result).toEqual([])
-    expect(mockFetchWithRetry).toHaveBeenCalledOnce()
+    expect(error.diagnostic).toBe('expected data to be an array, got an object')
   })
 
   it('should continue pagination until next_page is null', async () => {
@@ -354,4 +511,133 @@ describe('getAllPages', () => {
     expect(result).toHaveLength(1)
     expect(result[0]!.fields).toEqual(mockPage.fields)
   })
+
+  it('should honour the configured request options', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: [],
+      meta: { next_page: null, previous_page: null, count: 0 },
+    })
+
+    await getAllPages({
+      token: 'test-token',
+      preview: true,
+      pageType: 'landing_page',
+      requestOptions: { baseUrl: 'http://localhost:4000/v2', levels: 3, altMediaText: false },
+    })
+
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      'http://localhost:4000/v2/pages/landing_page/?auth_token=test-token&page=1&page_size=100&levels=3&preview=1',
+      expect.anything(),
+    )
+  })
+})
+
+describe('getPagesUpdatedSince', () => {
+  const makePage = (slug: string, updated: string | null): Butter.Page => ({
+    fields: {},
+    name: slug,
+    page_type: 'landing_page',
+    published: '2024-01-01T00:00:00Z',
+    scheduled: null,
+    slug,
+    status: 'published',
+    updated,
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should request pages ordered by most recently updated', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: [],
+      meta: { next_page: null, previous_page: null, count: 0 },
+    })
+
+    await getPagesUpdatedSince({
+      token: 'test-token',
+      preview: true,
+      pageType: 'landing_page',
+      since: '2024-01-01T00:00:00Z',
+    })
+
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('https://api.buttercms.com/v2/pages/landing_page/'),
+      expect.anything(),
+    )
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('order=-updated'),
+      expect.anything(),
+    )
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('preview=1'),
+      expect.anything(),
+    )
+  })
+
+  it('should stop at the first page that has not changed', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: [
+        makePage('newest', '2024-03-01T00:00:00Z'),
+        makePage('newer', '2024-02-01T00:00:00Z'),
+        makePage('unchanged', '2024-01-01T00:00:00Z'),
+      ],
+      meta: { next_page: 2, previous_page: null, count: 250 },
+    })
+
+    const result = await getPagesUpdatedSince({
+      token: 'test-token',
+      preview: false,
+      pageType: 'landing_page',
+      since: '2024-01-01T00:00:00Z',
+    })
+
+    expect(result.items.map((page) => page.slug)).toEqual(['newest', 'newer'])
+    expect(result.count).toBe(250)
+    expect(mockFetchWithRetry).toHaveBeenCalledOnce()
+  })
+
+  it('should keep paginating while every page has changed', async () => {
+    mockFetchWithRetry
+      .mockResolvedValueOnce({
+        data: [makePage('a', '2024-03-01T00:00:00Z')],
+        meta: { next_page: 2, previous_page: null, count: 3 },
+      })
+      .mockResolvedValueOnce({
+        data: [makePage('b', '2024-02-01T00:00:00Z'), makePage('c', null)],
+        meta: { next_page: null, previous_page: 1, count: 3 },
+      })
+
+    const result = await getPagesUpdatedSince({
+      token: 'test-token',
+      preview: false,
+      pageType: 'landing_page',
+      since: '2024-01-01T00:00:00Z',
+    })
+
+    expect(result.items.map((page) => page.slug)).toEqual(['a', 'b'])
+    expect(mockFetchWithRetry).toHaveBeenCalledTimes(2)
+    expect(mockFetchWithRetry).toHaveBeenNthCalledWith(
+      2,
+      expect.stringContaining('page=2'),
+      expect.anything(),
+    )
+  })
+
+  it('should throw error on fetch failure', async () => {
+    mockFetchWithRetry.mockRejectedValueOnce(new Error('API error'))
+
+    await expect(
+      getPagesUpdatedSince({
+        token: 'test-token',
+        preview: false,
+        pageType: 'landing_page',
+        since: '2024-01-01T00:00:00Z',
+      }),
+    ).rejects.toThrow('Failed to fetch page landing_page: API error')
+  })
 })
@@ -1,35 +1,133 @@
 import type { Butter } from '@/types'
-import { fetchWithRetry } from './fetch'
+import { fetchWithRetry, isAbortError, type FetchProgress } from './fetch'
+import { fetchAllPages } from './paginate'
+import { ButterApiError } from './errors'
+import {
+  buildApiUrl,
+  fieldFilterParams,
+  resolveRequestOptions,
+  type FieldFilters,
+  type RequestOptions,
+} from './requestOptions'
+import { validatePagesResponse } from './responseShape'
 
 /**
- * Get all pages of a specific type from ButterCMS with automatic pagination handling
+ * Get all pages of a specific type from ButterCMS with automatic pagination handling.
+ * `onProgress` is called after each page with the running item count and `meta.count` total.
  */
 export async function getAllPages(config: {
   token: string
   preview: boolean
+  signal?: AbortSignal
+  onProgress?: (progress: FetchProgress) => void
+  /** Pages fetched at once after the first */
+  concurrency?: number
+  /** Page to resume from after an earlier fetch failed part-way */
+  startPage?: number
+  /** Called with each page of items, in page order, as it arrives instead of returning them */
+  onPage?: (items: Butter.Page[]) => void
+  /** Base URL, page size and other request settings. Defaults apply to anything missing */
+  requestOptions?: Partial<RequestOptions>
+  /** Locale to fetch, e.g. `fr`. Omit for the account's default locale */
+  locale?: string
+  /** Only fetch pages whose fields match, sent as `fields.<name>=<value>` */
+  fields?: FieldFilters
   pageType: string
 }): Promise<Butter.Page[]> {
-  const allItems: Butter.Page[] = []
+  const options = resolveRequestOptions(config.requestOptions)
+  try {
+    return await fetchAllPages<Butter.Page[], Butter.Page>(
+      (page) =>
+        buildApiUrl(options, `pages/${config.pageType}`, {
+          auth_token: config.token,
+          page,
+          page_size: options.pageSize,
+          levels: options.levels,
+          alt_media_text: options.altMediaText,
+          locale: config.locale,
+          preview: config.preview,
+          ...fieldFilterParams(config.fields),
+        }),
+      (data) => (Array.isArray(data) ? data : undefined),
+      { ...config, pageSize: options.pageSize, validate: validatePagesResponse },
+    )
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw ButterApiError.forScope(
+      error,
+      { kind: 'page', key: config.pageType, locale: config.locale },
+      `Failed to fetch page ${config.pageType}: ${(error as Error).message}`,
+    )
+  }
+}
+
+/**
+ * Get pages of a specific type that were updated after `since`, most recently updated first.
+ * Walks `order=-updated` pagination and stops at the first unchanged page, so an incremental
+ * refresh only downloads what has changed. Also returns the total page count so callers can
+ * detect deleted pages.
+ */
+export async function getPagesUpdatedSince(config: {
+  token: string
+  preview: boolean
+  signal?: AbortSignal
+  /** Base URL, page size and other request settings. Defaults apply to anything missing */
+  requestOptions?: Partial<RequestOptions>
+  /** Locale to fetch, e.g. `fr`. Omit for the account's default locale */
+  locale?: string
+  /** Only fetch pages whose fields match, sent as `fields.<name>=<value>` */
+  fields?: FieldFilters
+  pageType: string
+  since: string
+}): Promise<{ items: Butter.Page[]; count: number }> {
+  const options = resolveRequestOptions(config.requestOptions)
+  const sinceTime = Date.parse(config.since)
+  const items: Butter.Page[] = []
+  let count = 0
 
   let page = 1
   let hasMore = true
   while (hasMore) {
-    const url = `https://api.buttercms.com/v2/pages/${config.pageType}/?auth_token=${config.token}&page=${page}&page_size=100&levels=5&alt_media_text=1${config.preview ? '&preview=1' : ''}`
+    const url = buildApiUrl(options, `pages/${config.pageType}`, {
+      auth_token: config.token,
+      page,
+      page_size: options.pageSize,
+      levels: options.levels,
+      alt_media_text: options.altMediaText,
+      order: '-updated',
+      locale: config.locale,
+      preview: config.preview,
+      ...fieldFilterParams(config.fields),
+    })
 
     try {
-      const data = await fetchWithRetry<Butter.Page[]>(url)
-
-      if (data.data && Array.isArray(data.data) && data.data.length > 0) {
-        allItems.push(...data.data)
-        hasMore = data.meta?.next_page !== null
-        page++
-      } else {
-        hasMore = false
+      let attempts = 1
+      const data = await fetchWithRetry<Butter.Page[]>(url, {
+        signal: config.signal,
+        onAttempt: (attempt) => (attempts = attempt),
+      })
+      const diagnostic = validatePagesResponse(data)
+      if (diagnostic) {
+        throw ButterApiError.unexpectedShape(diagnostic, { status: 200, url, attempts })
       }
+      count = data.meta.count
+
+      const pages = data.data
+      const changed = pages.filter((p) => p.updated !== null && Date.parse(p.updated) > sinceTime)
+      items.push(...changed)
+
+      // Results are newest first, so the first unchanged page means everything after it is too
+      hasMore = changed.length === pages.length && pages.length > 0 && data.meta?.next_page !== null
+      page++
     } catch (error) {
-      throw new Error(`Failed to fetch page ${config.pageType}: ${(error as Error).message}`)
+      if (isAbortError(error)) throw error
+      throw ButterApiError.forScope(
+        error,
+        { kind: 'page', key: config.pageType, locale: config.locale },
+        `Failed to fetch page ${config.pageType}: ${(error as Error).message}`,
+      )
     }
   }
 
-  return allItems
+  return { items, count }
 }
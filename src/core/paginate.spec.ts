@@ -0,0 +1,311 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { fetchAllPages, fetchList, PAGE_SIZE } from './paginate'
+import * as fetchModule from './fetch'
+import type { FetchOptions } from './fetch'
+import { ButterApiError } from './errors'
+
+vi.mock('./fetch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./fetch')>()),
+  fetchWithRetry: vi.fn(),
+}))
+
+const mockFetchWithRetry = fetchModule.fetchWithRetry as ReturnType<typeof vi.fn>
+
+const url = (page: number) => `https://api.example.com/items/?page=${page}`
+const extract = (data: number[]) => (Array.isArray(data) ? data : undefined)
+
+/** A full page of item numbers for `page`, as Butter CMS would return for a given total count */
+function pageOf(page: number, count: number) {
+  const first = (page - 1) * PAGE_SIZE
+  const length = Math.max(0, Math.min(PAGE_SIZE, count - first))
+  const lastPage = Math.ceil(count / PAGE_SIZE)
+  return {
+    data: Array.from({ length }, (_, index) => first + index),
+    meta: {
+      next_page: page < lastPage ? page + 1 : null,
+      previous_page: page > 1 ? page - 1 : null,
+      count,
+    },
+  }
+}
+
+function pageFromUrl(requestUrl: string): number {
+  return Number(new URL(requestUrl).searchParams.get('page'))
+}
+
+describe('fetchAllPages', () => {
+  beforeEach(() => {
+    mockFetchWithRetry.mockReset()
+  })
+
+  it('should fetch a single page without further requests', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce(pageOf(1, 42))
+
+    const result = await fetchAllPages(url, extract)
+
+    expect(result).toHaveLength(42)
+    expect(mockFetchWithRetry).toHaveBeenCalledOnce()
+  })
+
+  it('should request every remaining page from meta.count after the first', async () => {
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) =>
+      pageOf(pageFromUrl(requestUrl), 950),
+    )
+
+    const result = await fetchAllPages(url, extract)
+
+    expect(result).toHaveLength(950)
+    expect(mockFetchWithRetry.mock.calls.map(([requestUrl]) => pageFromUrl(requestUrl))).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10,
+    ])
+  })
+
+  it('should reassemble pages in order when they resolve out of order', async () => {
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) => {
+      const page = pageFromUrl(requestUrl)
+      // Later pages resolve first
+      await new Promise((resolve) => setTimeout(resolve, (10 - page) * 2))
+      return pageOf(page, 1000)
+    })
+
+    const result = await fetchAllPages(url, extract, { concurrency: 10 })
+
+    expect(result).toEqual(Array.from({ length: 1000 }, (_, index) => index))
+  })
+
+  it('should never have more than the configured number of requests in flight', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+      inFlight--
+      return pageOf(pageFromUrl(requestUrl), 2000)
+    })
+
+    const result = await fetchAllPages(url, extract, { concurrency: 3 })
+
+    expect(result).toHaveLength(2000)
+    expect(maxInFlight).toBe(3)
+  })
+
+  it('should keep following next_page when there are more pages than meta.count implied', async () => {
+    mockFetchWithRetry
+      .mockResolvedValueOnce({ data: [1], meta: { next_page: 2, previous_page: null, count: 1 } })
+      .mockResolvedValueOnce({ data: [2], meta: { next_page: 3, previous_page: 1, count: 1 } })
+      .mockResolvedValueOnce({ data: [3], meta: { next_page: null, previous_page: 2, count: 1 } })
+
+    const result = await fetchAllPages(url, extract)
+
+    expect(result).toEqual([1, 2, 3])
+    expect(mockFetchWithRetry).toHaveBeenCalledTimes(3)
+  })
+
+  it('should stop at the first empty page', async () => {
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) => {
+      const page = pageFromUrl(requestUrl)
+      return page === 2 ? { ...pageOf(2, 300), data: [] } : pageOf(page, 300)
+    })
+
+    const result = await fetchAllPages(url, extract)
+
+    expect(result).toEqual(Array.from({ length: PAGE_SIZE }, (_, index) => index))
+  })
+
+  it('should report progress after every page with a running total', async () => {
+    const onProgress = vi.fn()
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) =>
+      pageOf(pageFromUrl(requestUrl), 250),
+    )
+
+    await fetchAllPages(url, extract, { concurrency: 1, onProgress })
+
+    expect(onProgress.mock.calls).toEqual([
+      [{ fetched: 100, total: 250 }],
+      [{ fetched: 200, total: 250 }],
+      [{ fetched: 250, total: 250 }],
+    ])
+  })
+
+  it('should reject and stop starting new pages when one fails', async () => {
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) => {
+      const page = pageFromUrl(requestUrl)
+      if (page === 2) throw new Error('HTTP 500: Internal Server Error')
+      return pageOf(page, 1000)
+    })
+
+    await expect(fetchAllPages(url, extract, { concurrency: 1 })).rejects.toThrow('HTTP 500')
+    expect(mockFetchWithRetry).toHaveBeenCalledTimes(2)
+  })
+
+  it('should report the pages fetched before a failure and where to resume', async () => {
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) => {
+      const page = pageFromUrl(requestUrl)
+      if (page === 3) throw new Error('HTTP 503: Service Unavailable')
+      return pageOf(page, 500)
+    })
+
+    const error = await fetchAllPages(url, extract, { concurrency: 1 }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(ButterApiError)
+    expect(error.message).toBe('HTTP 503: Service Unavailable')
+    expect(error.partial.resumePage).toBe(3)
+    expect(error.partial.items).toEqual(Array.from({ length: 2 * PAGE_SIZE }, (_, index) => index))
+  })
+
+  it('should only keep the unbroken run of pages before the failed page', async () => {
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) => {
+      const page = pageFromUrl(requestUrl)
+      // Page 3 fails while pages 2 and 4 are still in flight
+      if (page === 3) throw new Error('HTTP 500: Internal Server Error')
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      return pageOf(page, 1000)
+    })
+
+    const error = await fetchAllPages(url, extract, { concurrency: 3 }).catch((e) => e)
+
+    expect(error.partial.resumePage).toBe(3)
+    expect(error.partial.items).toHaveLength(2 * PAGE_SIZE)
+  })
+
+  it('should resume from a later page', async () => {
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) =>
+      pageOf(pageFromUrl(requestUrl), 450),
+    )
+
+    const result = await fetchAllPages(url, extract, { startPage: 3 })
+
+    expect(mockFetchWithRetry.mock.calls.map(([requestUrl]) => pageFromUrl(requestUrl))).toEqual([
+      3, 4, 5,
+    ])
+    expect(result).toEqual(Array.from({ length: 250 }, (_, index) => index + 2 * PAGE_SIZE))
+  })
+
+  it('should keep the resume page when a resumed fetch fails straight away', async () => {
+    mockFetchWithRetry.mockRejectedValue(new Error('HTTP 503: Service Unavailable'))
+
+    const error = await fetchAllPages(url, extract, { startPage: 37 }).catch((e) => e)
+
+    expect(error.partial).toEqual({ items: [], resumePage: 37 })
+  })
+
+  it('should reject with the abort error itself when aborted', async () => {
+    const abort = new DOMException('Aborted', 'AbortError')
+    mockFetchWithRetry.mockRejectedValue(abort)
+
+    await expect(fetchAllPages(url, extract)).rejects.toBe(abort)
+  })
+
+  it('should hand on pages in page order as soon as each can be used', async () => {
+    const onPage = vi.fn()
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) => {
+      const page = pageFromUrl(requestUrl)
+      // Later pages resolve first
+      await new Promise((resolve) => setTimeout(resolve, (5 - page) * 2))
+      return pageOf(page, 450)
+    })
+
+    await fetchAllPages(url, extract, { concurrency: 4, onPage })
+
+    expect(onPage.mock.calls.map(([items]) => items[0])).toEqual([0, 100, 200, 300, 400])
+    expect(onPage.mock.calls.flatMap(([items]) => items)).toHaveLength(450)
+  })
+
+  it('should not collect pages it hands on', async () => {
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) =>
+      pageOf(pageFromUrl(requestUrl), 250),
+    )
+
+    expect(await fetchAllPages(url, extract, { onPage: vi.fn() })).toEqual([])
+  })
+
+  it('should never hand on pages after a failed page', async () => {
+    const onPage = vi.fn()
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) => {
+      const page = pageFromUrl(requestUrl)
+      if (page === 2) throw new Error('HTTP 503: Service Unavailable')
+      return pageOf(page, 400)
+    })
+
+    const error = await fetchAllPages(url, extract, { concurrency: 3, onPage }).catch((e) => e)
+
+    expect(onPage).toHaveBeenCalledOnce()
+    expect(onPage.mock.calls[0]![0]).toHaveLength(100)
+    expect(error.partial).toEqual({ items: [], resumePage: 2 })
+  })
+
+  it('should fail with the diagnostic when a page does not pass validation', async () => {
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) => {
+      const page = pageFromUrl(requestUrl)
+      return page === 2 ? { data: 'oops', meta: {} } : pageOf(page, 300)
+    })
+    const validate = (body: unknown) =>
+      Array.isArray((body as { data: unknown }).data) ? null : 'expected data to be an array'
+
+    const error = await fetchAllPages(url, extract, { concurrency: 1, validate }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(ButterApiError)
+    expect(error.reason).toBe('unexpected response shape: expected data to be an array')
+    expect(error.partial).toEqual({
+      items: Array.from({ length: PAGE_SIZE }, (_, index) => index),
+      resumePage: 2,
+    })
+  })
+
+  it('should report how many attempts the page that failed validation took', async () => {
+    mockFetchWithRetry.mockImplementation(async (_url: string, options: FetchOptions) => {
+      options.onAttempt?.(1)
+      options.onAttempt?.(2)
+      return { data: 'oops', meta: {} }
+    })
+    const validate = () => 'expected data to be an array'
+
+    const error = await fetchAllPages(url, extract, { validate }).catch((e) => e)
+
+    expect(error.attempts).toBe(2)
+  })
+
+  it('should pass the abort signal to every request', async () => {
+    const controller = new AbortController()
+    mockFetchWithRetry.mockImplementation(async (requestUrl: string) =>
+      pageOf(pageFromUrl(requestUrl), 150),
+    )
+
+    await fetchAllPages(url, extract, { signal: controller.signal })
+
+    expect(mockFetchWithRetry).toHaveBeenCalledTimes(2)
+    for (const [, options] of mockFetchWithRetry.mock.calls) {
+      expect(options).toEqual({ signal: controller.signal, onAttempt: expect.any(Function) })
+    }
+  })
+})
+
+describe('fetchList', () => {
+  const listUrl = 'https://api.example.com/tags/'
+
+  beforeEach(() => {
+    mockFetchWithRetry.mockReset()
+  })
+
+  it('should return every item from a single request and report it as complete', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({ data: [1, 2, 3] })
+    const onProgress = vi.fn()
+
+    const result = await fetchList(listUrl, { onProgress })
+
+    expect(result).toEqual([1, 2, 3])
+    expect(mockFetchWithRetry).toHaveBeenCalledOnce()
+    expect(onProgress).toHaveBeenCalledWith({ fetched: 3, total: 3 })
+  })
+
+  it('should reject a response that fails validation', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({ data: null })
+    const validate = () => 'expected data to be an array'
+
+    const error = await fetchList(listUrl, { validate }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(ButterApiError)
+    expect(error.reason).toBe('unexpected response shape: expected data to be an array')
+  })
+})
@@ -0,0 +1,192 @@
+import type { Butter } from '@/types'
+import { fetchWithRetry, isAbortError, type FetchProgress } from './fetch'
+import { ButterApiError } from './errors'
+import type { ResponseValidator } from './responseShape'
+
+/** Items requested per page from paginated Butter CMS endpoints unless configured otherwise */
+export const PAGE_SIZE = 100
+
+/** How many pages are fetched at once after the first, unless a fetcher is told otherwise */
+export const DEFAULT_PAGE_CONCURRENCY = 4
+
+export interface PaginateOptions<Item = unknown> {
+  signal?: AbortSignal
+  /** Maximum number of pages requested at the same time (default {@link DEFAULT_PAGE_CONCURRENCY}) */
+  concurrency?: number
+  onProgress?: (progress: FetchProgress) => void
+  /** Items requested per page, used to work out the last page from `meta.count` (default {@link PAGE_SIZE}) */
+  pageSize?: number
+  /** Page to start from, e.g. the `resumePage` of an earlier failed fetch (default 1) */
+  startPage?: number
+  /**
+   * Called with each page's items as soon as the page and every page before it have arrived, so
+   * callers see pages in order and never a page that is later dropped. Pages handed on this way
+   * are not collected: the fetch resolves with no items, and a failure's `partial` has none either
+   */
+  onPage?: (items: Item[]) => void
+  /** Checks each response before its items are used. A response that fails ends pagination */
+  validate?: ResponseValidator
+}
+
+interface FetchedPage<Item> {
+  items: Item[]
+  hasMore: boolean
+  count: number
+}
+
+/**
+ * Run `task` for every input with at most `limit` tasks in flight, resolving with the results in
+ * input order. Stops starting new tasks as soon as one fails, but lets tasks already in flight
+ * settle before rejecting with the first failure.
+ */
+async function mapWithConcurrency<Input, Output>(
+  inputs: Input[],
+  limit: number,
+  task: (input: Input) => Promise<Output>,
+): Promise<Output[]> {
+  const results = new Array<Output>(inputs.length)
+  let next = 0
+  let failed = false
+
+  const worker = async () => {
+    while (!failed && next < inputs.length) {
+      const index = next++
+      try {
+        results[index] = await task(inputs[index]!)
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+
+  const workers = await Promise.allSettled(
+    Array.from({ length: Math.min(Math.max(1, limit), inputs.length) }, worker),
+  )
+  const rejected = workers.find((result) => result.status === 'rejected')
+  if (rejected) throw rejected.reason
+  return results
+}
+
+/**
+ * Fetch every page of a paginated Butter CMS endpoint. The first page is fetched on its own to
+ * learn `meta.count`; the remaining pages are then fetched concurrently and reassembled in page
+ * order. If Butter CMS still reports a `next_page` after the expected last page (e.g. content was
+ * published mid-scan, or the count was missing), pagination carries on one page at a time.
+ * An empty page ends pagination, as before. A page that fails `validate` is a failure like any
+ * other, so a typo'd collection key or a proxy error page is reported instead of looking empty.
+ *
+ * If a page fails, the rejection is a {@link ButterApiError} whose `partial` holds the items from
+ * the unbroken run of pages fetched before it and the page to resume from, so the work already
+ * done is not lost. Aborting rejects with the abort error as usual. With `onPage` set, items are
+ * only handed on, never collected, so a scope is not held in memory while it is fetched.
+ */
+export async function fetchAllPages<Data, Item>(
+  url: (page: number) => string,
+  extract: (data: Data) => Item[] | undefined,
+  {
+    signal,
+    concurrency = DEFAULT_PAGE_CONCURRENCY,
+    onProgress,
+    pageSize = PAGE_SIZE,
+    startPage = 1,
+    onPage,
+    validate,
+  }: PaginateOptions<Item> = {},
+): Promise<Item[]> {
+  let fetched = 0
+  // Pages that arrived ahead of an earlier page, held until they can be released in order
+  const waiting = new Map<number, FetchedPage<Item>>()
+  const collected: Item[] = []
+  let nextPage = startPage
+  let ended = false
+
+  // Release pages in order up to the first empty page, mirroring sequential next_page walking
+  const release = () => {
+    while (!ended && waiting.has(nextPage)) {
+      const { items } = waiting.get(nextPage)!
+      waiting.delete(nextPage)
+      if (items.length === 0) {
+        ended = true
+        break
+      }
+      if (onPage) onPage(items)
+      else collected.push(...items)
+      nextPage++
+    }
+  }
+
+  const fetchPage = async (page: number): Promise<FetchedPage<Item>> => {
+    let attempts = 1
+    const response: Butter.Response<Data> = await fetchWithRetry<Data>(url(page), {
+      signal,
+      onAttempt: (attempt) => (attempts = attempt),
+    })
+    const diagnostic = validate?.(response)
+    if (diagnostic) {
+      throw ButterApiError.unexpectedShape(diagnostic, { status: 200, url: url(page), attempts })
+    }
+    const items = (response.data && extract(response.data)) || []
+    fetched += items.length
+    if (items.length > 0) {
+      onProgress?.({ fetched, total: response.meta?.count ?? fetched })
+    }
+    const result = {
+      items,
+      hasMore: response.meta?.next_page !== null,
+      count: response.meta?.count ?? 0,
+    }
+    waiting.set(page, result)
+    release()
+    return result
+  }
+
+  try {
+    let last = await fetchPage(startPage)
+
+    const lastPage = Math.ceil(last.count / pageSize)
+    if (last.items.length > 0 && last.hasMore && lastPage > startPage) {
+      const remaining = Array.from(
+        { length: lastPage - startPage },
+        (_, index) => index + startPage + 1,
+      )
+      const pages = await mapWithConcurrency(remaining, concurrency, fetchPage)
+      last = pages[pages.length - 1]!
+    }
+
+    while (!ended && last.hasMore) {
+      last = await fetchPage(nextPage)
+    }
+
+    return collected
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw ButterApiError.withPartial(error, { items: collected, resumePage: nextPage })
+  }
+}
+
+/**
+ * Fetch an endpoint that lists every item in one unpaginated response, such as authors, categories
+ * and tags. A response that fails `validate` is reported as an unexpected response shape.
+ */
+export async function fetchList<Item>(
+  url: string,
+  {
+    signal,
+    onProgress,
+    validate,
+  }: Pick<PaginateOptions, 'signal' | 'onProgress' | 'validate'> = {},
+): Promise<Item[]> {
+  let attempts = 1
+  const response = await fetchWithRetry<Item[]>(url, {
+    signal,
+    onAttempt: (attempt) => (attempts = attempt),
+  })
+  const diagnostic = validate?.(response)
+  if (diagnostic) {
+    throw ButterApiError.unexpectedShape(diagnostic, { status: 200, url, attempts })
+  }
+  const items = Array.isArray(response.data) ? response.data : []
+  onProgress?.({ fetched: items.length, total: items.length })
+  return items
+}
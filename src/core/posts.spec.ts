@@ -1,10 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import type { Butter } from '@/types'
-import { getAllPosts } from './posts'
+import { getAllPosts, searchPosts } from './posts'
 import * as fetchModule from './fetch'
+import { ButterApiError } from './errors'
 
 // Mock the fetch module
-vi.mock('./fetch', () => ({
+vi.mock('./fetch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./fetch')>()),
   fetchWithRetry: vi.fn(),
 }))
 
@@ -73,12 +75,72 @@ describe('getAllPosts', () => {
     expect(mockFetchWithRetry).toHaveBeenCalledOnce()
     expect(mockFetchWithRetry).toHaveBeenCalledWith(
       expect.stringContaining('https://api.buttercms.com/v2/posts/'),
+      expect.anything(),
     )
     expect(mockFetchWithRetry).toHaveBeenCalledWith(
       expect.stringContaining('auth_token=test-token'),
+      expect.anything(),
+    )
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('page=1'),
+      expect.anything(),
+    )
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('page_size=100'),
+      expect.anything(),
+    )
+  })
+
+  it('should honour the configured base URL and page size', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: [],
+      meta: { next_page: null, previous_page: null, count: 0 },
+    })
+
+    await getAllPosts({
+      token: 'test-token',
+      preview: false,
+      requestOptions: { baseUrl: 'https://proxy.example.com/butter/', pageSize: 10, levels: 1 },
+    })
+
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      'https://proxy.example.com/butter/posts/?auth_token=test-token&page=1&page_size=10',
+      expect.anything(),
     )
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('page=1'))
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('page_size=100'))
+  })
+
+  it('should work out the remaining pages from the configured page size', async () => {
+    mockFetchWithRetry.mockImplementation(async (url: string) => {
+      const page = Number(new URL(url).searchParams.get('page'))
+      return {
+        data: [{ slug: `post-${page}` }],
+        meta: { next_page: page < 3 ? page + 1 : null, previous_page: null, count: 3 },
+      }
+    })
+
+    const result = await getAllPosts({
+      token: 'test-token',
+      preview: false,
+      requestOptions: { pageSize: 1 },
+    })
+
+    expect(result.map((post) => post.slug)).toEqual(['post-1', 'post-2', 'post-3'])
+    expect(mockFetchWithRetry).toHaveBeenCalledTimes(3)
+  })
+
+  it('should ask for the configured locale', async () => {
+    const mockResponse: Butter.Response<Butter.Post[]> = {
+      data: [],
+      meta: { next_page: null, previous_page: null, count: 0 },
+    }
+
+    mockFetchWithRetry.mockResolvedValue(mockResponse)
+
+    await getAllPosts({ token: 'test-token', preview: false, locale: 'fr' })
+    await getAllPosts({ token: 'test-token', preview: false })
+
+    expect(mockFetchWithRetry.mock.calls[0]?.[0]).toContain('locale=fr')
+    expect(mockFetchWithRetry.mock.calls[1]?.[0]).not.toContain('locale=')
   })
 
   it('should include preview=1 in URL when preview is true', async () => {
@@ -94,7 +156,10 @@ describe('getAllPosts', () => {
       preview: true,
     })
 
-    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.stringContaining('preview=1'))
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      expect.stringContaining('preview=1'),
+      expect.anything(),
+    )
   })
 
   it('should not include preview parameter when preview is false', async () => {
@@ -190,7 +255,11 @@ describe('getAllPosts', () => {
     expect(result[0]!.slug).toBe('post-1')
     expect(result[1]!.slug).toBe('post-2')
     expect(mockFetchWithRetry).toHaveBeenCalledTimes(2)
-    expect(mockFetchWithRetry).toHaveBeenNthCalledWith(2, expect.stringContaining('page=2'))
+    expect(mockFetchWithRetry).toHaveBeenNthCalledWith(
+      2,
+      expect.stringContaining('page=2'),
+      expect.anything(),
+    )
   })
 
   it('should handle pagination across three pages', async () => {
@@ -267,6 +336,45 @@ describe('getAllPosts', () => {
     expect(mockFetchWithRetry).toHaveBeenCalledOnce()
   })
 
+  it('should pass the abort signal to each request', async () => {
+    const controller = new AbortController()
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: [],
+      meta: { next_page: null, previous_page: null, count: 0 },
+    })
+
+    await getAllPosts({ token: 'test-token', preview: false, signal: controller.signal })
+
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(expect.any(String), {
+      signal: controller.signal,
+      onAttempt: expect.any(Function),
+    })
+  })
+
+  it('should report progress after each page using meta.count as the total', async () => {
+    const onProgress = vi.fn()
+    mockFetchWithRetry
+      .mockResolvedValueOnce({
+        data: [{ slug: 'post-1' }],
+        meta: { next_page: 2, previous_page: null, count: 2 },
+      })
+      .mockResolvedValueOnce({
+        data: [{ slug: 'post-2' }],
+        meta: { next_page: null, previous_page: 1, count: 2 },
+      })
+
+    await getAllPosts({ token: 'test-token', preview: false, onProgress })
+
+    expect(onProgress.mock.calls).toEqual([[{ fetched: 1, total: 2 }], [{ fetched: 2, total: 2 }]])
+  })
+
+  it('should rethrow abort errors without wrapping them', async () => {
+    const abortError = new DOMException('The operation was aborted.', 'AbortError')
+    mockFetchWithRetry.mockRejectedValueOnce(abortError)
+
+    await expect(getAllPosts({ token: 'test-token', preview: false })).rejects.toBe(abortError)
+  })
+
   it('should throw error on fetch failure', async () => {
     mockFetchWithRetry.mockRejectedValueOnce(new Error('API error'))
 
@@ -278,36 +386,36 @@ describe('getAllPosts', () => {
     ).rejects.toThrow('Failed to fetch posts: API error')
   })
 
-  it('should handle response with null data gracefully', async () => {
-    const mockResponse: Partial<Butter.Response<Butter.Post[]>> = {
+  it('should reject a response without data as an unexpected response shape', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({
       meta: { next_page: null, previous_page: null, count: 0 },
-    }
-
-    mockFetchWithRetry.mockResolvedValueOnce(mockResponse)
+    })
 
-    const result = await getAllPosts({
+    const error = await getAllPosts({
       token: 'test-token',
       preview: false,
-    })
+    }).catch((e) => e)
 
-    expect(result).toEqual([])
+    expect(error).toBeInstanceOf(ButterApiError)
+    expect(error.scope).toEqual({ kind: 'post', key: 'Blog' })
+    expect(error.reason).toBe(
+      'unexpected response shape: expected data to be an array, got undefined',
+    )
     expect(mockFetchWithRetry).toHaveBeenCalledOnce()
   })
 
-  it('should handle response with non-array data gracefully', async () => {
-    const mockResponse: Partial<Butter.Response<Butter.Post[]>> = {
+  it('should reject a response whose data is not an array', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: { detail: 'Not found' },
       meta: { next_page: null, previous_page: null, count: 0 },
-    }
-
-    mockFetchWithRetry.mockResolvedValueOnce(mockResponse)
+    })
 
-    const result = await getAllPosts({
+    const error = await getAllPosts({
       token: 'test-token',
       preview: false,
-    })
+    }).catch((e) => e)
 
-    expect(result).toEqual([])
-    expect(mockFetchWithRetry).toHaveBeenCalledOnce()
+    expect(error.diagnostic).toBe('expected data to be an array, got an object')
   })
 
   it('should use pagination until next_page is null', async () => {
@@ -363,3 +471,33 @@ describe('getAllPosts', () => {
     expect(mockFetchWithRetry).toHaveBeenCalledTimes(2)
   })
 })
+
+describe('searchPosts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should query the search endpoint without preview', async () => {
+    mockFetchWithRetry.mockResolvedValueOnce({
+      data: [{ slug: 'headless-guide', title: 'Going headless' }],
+      meta: { next_page: null, previous_page: null, count: 1 },
+    })
+
+    const result = await searchPosts({ token: 'test-token', query: 'going headless', locale: 'fr' })
+
+    expect(result.map((post) => post.slug)).toEqual(['headless-guide'])
+    expect(mockFetchWithRetry).toHaveBeenCalledWith(
+      'https://api.buttercms.com/v2/search/?auth_token=test-token&query=going+headless&page=1&page_size=100&locale=fr',
+      expect.anything(),
+    )
+  })
+
+  it('should throw error on fetch failure', async () => {
+    mockFetchWithRetry.mockRejectedValueOnce(new Error('API error'))
+
+    const error = await searchPosts({ token: 'test-token', query: 'headless' }).catch((e) => e)
+
+    expect(error.message).toBe('Failed to search posts: API error')
+    expect(error.scope).toEqual({ kind: 'post', key: 'Blog' })
+  })
+})
@@ -1,34 +1,89 @@
 import type { Butter } from '@/types'
-import { fetchWithRetry } from './fetch'
+import { isAbortError, type FetchProgress } from './fetch'
+import { fetchAllPages } from './paginate'
+import { ButterApiError } from './errors'
+import { buildApiUrl, resolveRequestOptions, type RequestOptions } from './requestOptions'
+import { validatePostsResponse } from './responseShape'
 
 /**
- * Get all posts from ButterCMS with automatic pagination handling
+ * Get all posts from ButterCMS with automatic pagination handling.
+ * `onProgress` is called after each page with the running item count and `meta.count` total.
  */
 export async function getAllPosts(config: {
   token: string
   preview: boolean
+  signal?: AbortSignal
+  onProgress?: (progress: FetchProgress) => void
+  /** Pages fetched at once after the first */
+  concurrency?: number
+  /** Page to resume from after an earlier fetch failed part-way */
+  startPage?: number
+  /** Called with each page of items, in page order, as it arrives instead of returning them */
+  onPage?: (items: Butter.Post[]) => void
+  /** Base URL and page size. Posts do not take the reference levels or alt-media text settings */
+  requestOptions?: Partial<RequestOptions>
+  /** Locale to fetch, e.g. `fr`. Omit for the account's default locale */
+  locale?: string
 }): Promise<Butter.Post[]> {
-  const allItems: Butter.Post[] = []
-
-  let page = 1
-  let hasMore = true
-  while (hasMore) {
-    const url = `https://api.buttercms.com/v2/posts/?auth_token=${config.token}&page=${page}&page_size=100${config.preview ? '&preview=1' : ''}`
-
-    try {
-      const data = await fetchWithRetry<Butter.Post[]>(url)
-
-      if (data.data && Array.isArray(data.data) && data.data.length > 0) {
-        allItems.push(...data.data)
-        hasMore = data.meta?.next_page !== null
-        page++
-      } else {
-        hasMore = false
-      }
-    } catch (error) {
-      throw new Error(`Failed to fetch posts: ${(error as Error).message}`)
-    }
+  const options = resolveRequestOptions(config.requestOptions)
+  try {
+    return await fetchAllPages<Butter.Post[], Butter.Post>(
+      (page) =>
+        buildApiUrl(options, 'posts', {
+          auth_token: config.token,
+          page,
+          page_size: options.pageSize,
+          locale: config.locale,
+          preview: config.preview,
+        }),
+      (data) => (Array.isArray(data) ? data : undefined),
+      { ...config, pageSize: options.pageSize, validate: validatePostsResponse },
+    )
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw ButterApiError.forScope(
+      error,
+      { kind: 'post', key: 'Blog', locale: config.locale },
+      `Failed to fetch posts: ${(error as Error).message}`,
+    )
   }
+}
 
-  return allItems
+/**
+ * Get the published posts matching `query` from the ButterCMS search endpoint, with automatic
+ * pagination handling. Butter matches whole words in each post, so the results are candidates to
+ * check rather than exact matches. `onProgress` is called after each page, as for {@link getAllPosts}.
+ */
+export async function searchPosts(config: {
+  token: string
+  query: string
+  signal?: AbortSignal
+  onProgress?: (progress: FetchProgress) => void
+  /** Base URL and page size, as for {@link getAllPosts} */
+  requestOptions?: Partial<RequestOptions>
+  /** Locale to search, e.g. `fr`. Omit for the account's default locale */
+  locale?: string
+}): Promise<Butter.Post[]> {
+  const options = resolveRequestOptions(config.requestOptions)
+  try {
+    return await fetchAllPages<Butter.Post[], Butter.Post>(
+      (page) =>
+        buildApiUrl(options, 'search', {
+          auth_token: config.token,
+          query: config.query,
+          page,
+          page_size: options.pageSize,
+          locale: config.locale,
+        }),
+      (data) => (Array.isArray(data) ? data : undefined),
+      { ...config, pageSize: options.pageSize, validate: validatePostsResponse },
+    )
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw ButterApiError.forScope(
+      error,
+      { kind: 'post', key: 'Blog', locale: config.locale },
+      `Failed to search posts: ${(error as Error).message}`,
+    )
+  }
 }
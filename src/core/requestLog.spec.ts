@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import {
+  appendRequestLog,
+  exportRequestLog,
+  MAX_REQUEST_LOG_ENTRIES,
+  toRequestLogEntry,
+  type RequestLogEntry,
+} from './requestLog'
+
+const event = {
+  url: 'https://api.buttercms.com/v2/posts/?auth_token=secret-token&page=2',
+  attempt: 1,
+  intercepted: false,
+  startedAt: Date.UTC(2026, 9, 20),
+  durationMs: 120,
+  status: 200,
+  size: 2048,
+}
+
+describe('toRequestLogEntry', () => {
+  it('should redact the URL and mark demo requests', () => {
+    expect(toRequestLogEntry({ ...event, intercepted: true })).toEqual({
+      url: 'https://api.buttercms.com/v2/posts/?auth_token=REDACTED&page=2',
+      attempt: 1,
+      demo: true,
+      startedAt: event.startedAt,
+      durationMs: 120,
+      status: 200,
+      size: 2048,
+    })
+  })
+})
+
+describe('appendRequestLog', () => {
+  it('should keep only the most recent entries', () => {
+    const entry = toRequestLogEntry(event)
+    let log: RequestLogEntry[] = []
+    for (let attempt = 1; attempt <= MAX_REQUEST_LOG_ENTRIES + 2; attempt++) {
+      log = appendRequestLog(log, { ...entry, attempt })
+    }
+
+    expect(log).toHaveLength(MAX_REQUEST_LOG_ENTRIES)
+    expect(log[0]!.attempt).toBe(3)
+    expect(log[log.length - 1]!.attempt).toBe(MAX_REQUEST_LOG_ENTRIES + 2)
+  })
+})
+
+describe('exportRequestLog', () => {
+  it('should export the log as JSON without the token', () => {
+    const json = exportRequestLog([toRequestLogEntry(event)], new Date(Date.UTC(2026, 9, 21)))
+
+    expect(JSON.parse(json)).toEqual({
+      exportedAt: '2026-10-21T00:00:00.000Z',
+      requests: [expect.objectContaining({ status: 200, size: 2048 })],
+    })
+    expect(json).not.toContain('secret-token')
+  })
+})
@@ -0,0 +1,28 @@
+import { redactUrl } from './errors'
+import type { RequestEvent } from './fetch'
+
+/** Most requests kept in the log. Older ones are dropped first */
+export const MAX_REQUEST_LOG_ENTRIES = 500
+
+/** A request as recorded in the request log, safe to share because its token is redacted */
+export type RequestLogEntry = Omit<RequestEvent, 'intercepted'> & {
+  /** Answered by the bundled demo account rather than Butter CMS */
+  demo: boolean
+}
+
+export function toRequestLogEntry({ intercepted, url, ...event }: RequestEvent): RequestLogEntry {
+  return { ...event, url: redactUrl(url), demo: intercepted }
+}
+
+/** Add `entry` to the end of `log`, dropping the oldest entries beyond the limit */
+export function appendRequestLog(
+  log: RequestLogEntry[],
+  entry: RequestLogEntry,
+): RequestLogEntry[] {
+  return [...log.slice(-(MAX_REQUEST_LOG_ENTRIES - 1)), entry]
+}
+
+/** The log as pretty-printed JSON, ready to attach to a bug report */
+export function exportRequestLog(log: RequestLogEntry[], exportedAt = new Date()): string {
+  return JSON.stringify({ exportedAt: exportedAt.toISOString(), requests: log }, null, 2)
+}
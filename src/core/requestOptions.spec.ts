@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildApiUrl,
+  DEFAULT_REQUEST_OPTIONS,
+  fieldFilterParams,
+  isValidBaseUrl,
+  MAX_LEVELS,
+  requestOptionsKey,
+  resolveRequestOptions,
+  scanDepthLimit,
+} from './requestOptions'
+
+describe('fieldFilterParams', () => {
+  it('should prefix each field name and sort them', () => {
+    expect(fieldFilterParams({ region: 'eu', category: 'shoes' })).toEqual({
+      'fields.category': 'shoes',
+      'fields.region': 'eu',
+    })
+    expect(Object.keys(fieldFilterParams({ region: 'eu', category: 'shoes' }))).toEqual([
+      'fields.category',
+      'fields.region',
+    ])
+  })
+
+  it('should return no parameters without filters', () => {
+    expect(fieldFilterParams()).toEqual({})
+  })
+})
+
+describe('buildApiUrl', () => {
+  it('should append the endpoint path and query to the base URL', () => {
+    expect(
+      buildApiUrl(DEFAULT_REQUEST_OPTIONS, 'pages/landing_page', {
+        auth_token: 'secret',
+        page: 2,
+        page_size: 100,
+        levels: 5,
+        alt_media_text: true,
+      }),
+    ).toBe(
+      'https://api.buttercms.com/v2/pages/landing_page/?auth_token=secret&page=2&page_size=100&levels=5&alt_media_text=1',
+    )
+  })
+
+  it('should leave out parameters that are undefined or false', () => {
+    expect(
+      buildApiUrl(DEFAULT_REQUEST_OPTIONS, 'posts', {
+        page: 1,
+        preview: false,
+        alt_media_text: undefined,
+      }),
+    ).toBe('https://api.buttercms.com/v2/posts/?page=1')
+  })
+
+  it('should use a custom base URL such as a proxy or local mock', () => {
+    const options = { ...DEFAULT_REQUEST_OPTIONS, baseUrl: 'http://localhost:4000/butter/v2' }
+
+    expect(buildApiUrl(options, 'content/recipes', { page: 1, preview: true })).toBe(
+      'http://localhost:4000/butter/v2/content/recipes/?page=1&preview=1',
+    )
+  })
+
+  it('should encode path segments and parameter values', () => {
+    expect(buildApiUrl(DEFAULT_REQUEST_OPTIONS, 'pages/a b', { auth_token: 'a&b=c' })).toBe(
+      'https://api.buttercms.com/v2/pages/a%20b/?auth_token=a%26b%3Dc',
+    )
+  })
+})
+
+describe('resolveRequestOptions', () => {
+  it('should use the defaults when nothing is configured', () => {
+    expect(resolveRequestOptions()).toEqual(DEFAULT_REQUEST_OPTIONS)
+    expect(resolveRequestOptions({})).toEqual(DEFAULT_REQUEST_OPTIONS)
+  })
+
+  it('should keep valid settings and drop trailing slashes from the base URL', () => {
+    expect(
+      resolveRequestOptions({
+        baseUrl: ' https://proxy.example.com/butter/v2// ',
+        pageSize: 25,
+        levels: 2,
+        altMediaText: false,
+      }),
+    ).toEqual({
+      baseUrl: 'https://proxy.example.com/butter/v2',
+      pageSize: 25,
+      levels: 2,
+      altMediaText: false,
+    })
+  })
+
+  it('should fall back to the default for each invalid setting', () => {
+    expect(resolveRequestOptions({ baseUrl: 'ftp://example.com', pageSize: 0, levels: 6 })).toEqual(
+      DEFAULT_REQUEST_OPTIONS,
+    )
+    expect(resolveRequestOptions({ baseUrl: '', pageSize: 2.5, levels: 0 })).toEqual(
+      DEFAULT_REQUEST_OPTIONS,
+    )
+    expect(resolveRequestOptions({ pageSize: 101 }).pageSize).toBe(100)
+  })
+})
+
+describe('isValidBaseUrl', () => {
+  it('should accept absolute http and https URLs only', () => {
+    expect(isValidBaseUrl('https://api.buttercms.com/v2')).toBe(true)
+    expect(isValidBaseUrl('http://localhost:4000')).toBe(true)
+    expect(isValidBaseUrl('api.buttercms.com/v2')).toBe(false)
+    expect(isValidBaseUrl('javascript:alert(1)')).toBe(false)
+  })
+})
+
+describe('requestOptionsKey', () => {
+  it('should change with settings that change the content but not with the page size', () => {
+    const key = requestOptionsKey(DEFAULT_REQUEST_OPTIONS)
+
+    expect(requestOptionsKey({ ...DEFAULT_REQUEST_OPTIONS, pageSize: 10 })).toBe(key)
+    expect(requestOptionsKey({ ...DEFAULT_REQUEST_OPTIONS, levels: 2 })).not.toBe(key)
+    expect(requestOptionsKey({ ...DEFAULT_REQUEST_OPTIONS, altMediaText: false })).not.toBe(key)
+    expect(
+      requestOptionsKey({ ...DEFAULT_REQUEST_OPTIONS, baseUrl: 'http://localhost:4000' }),
+    ).not.toBe(key)
+  })
+})
+
+describe('scanDepthLimit', () => {
+  it('should scan deeper for each level of references expanded', () => {
+    expect(scanDepthLimit(2)).toBeGreaterThan(scanDepthLimit(1))
+    expect(scanDepthLimit(MAX_LEVELS)).toBeGreaterThan(scanDepthLimit(MAX_LEVELS - 1))
+  })
+
+  it('should never scan less deeply than the scanners did before levels were configurable', () => {
+    expect(scanDepthLimit(1)).toBeGreaterThan(10)
+    expect(scanDepthLimit(MAX_LEVELS)).toBeGreaterThan(20)
+  })
+})
@@ -0,0 +1,118 @@
+import { PAGE_SIZE } from './paginate'
+
+/** Settings applied to every request made to the Butter CMS API */
+export interface RequestOptions {
+  /** API root that endpoint paths are appended to, e.g. a corporate proxy or a local mock */
+  baseUrl: string
+  /** Items requested per page from paginated endpoints */
+  pageSize: number
+  /** How many levels of references Butter CMS expands in page and collection fields */
+  levels: number
+  /** Whether media fields come back with their alt text */
+  altMediaText: boolean
+}
+
+/** Butter CMS expands at most this many levels of references */
+export const MAX_LEVELS = 5
+
+/** JSON nesting an item has before any references: its fields, repeaters, components and media */
+const BASE_SCAN_DEPTH = 10
+
+/** JSON nesting each expanded level of references adds: the reference, its fields and values */
+const SCAN_DEPTH_PER_LEVEL = 4
+
+/**
+ * How deep the scanners walk an item's JSON when Butter CMS expands `levels` levels of
+ * references, so every expanded reference is scanned. Subtrees nested deeper are left unscanned
+ * and the item is reported as having hit the depth limit.
+ */
+export function scanDepthLimit(levels: number): number {
+  return BASE_SCAN_DEPTH + levels * SCAN_DEPTH_PER_LEVEL
+}
+
+/** Depth the scanners walk to when no levels are given: enough for the most Butter CMS expands */
+export const DEFAULT_SCAN_DEPTH = scanDepthLimit(MAX_LEVELS)
+
+/** Largest page size requested from Butter CMS */
+export const MAX_PAGE_SIZE = PAGE_SIZE
+
+export const DEFAULT_REQUEST_OPTIONS: RequestOptions = {
+  baseUrl: 'https://api.buttercms.com/v2',
+  pageSize: PAGE_SIZE,
+  levels: MAX_LEVELS,
+  altMediaText: true,
+}
+
+/** Whether `url` can be used as the API base URL: an absolute http(s) URL */
+export function isValidBaseUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+}
+
+/**
+ * Fill in defaults for missing or invalid settings, so fetchers can rely on every field.
+ * Trailing slashes are dropped from the base URL.
+ */
+export function resolveRequestOptions(options: Partial<RequestOptions> = {}): RequestOptions {
+  const baseUrl = options.baseUrl?.trim().replace(/\/+$/, '')
+  return {
+    baseUrl: baseUrl && isValidBaseUrl(baseUrl) ? baseUrl : DEFAULT_REQUEST_OPTIONS.baseUrl,
+    pageSize: isIntegerInRange(options.pageSize, 1, MAX_PAGE_SIZE)
+      ? options.pageSize
+      : DEFAULT_REQUEST_OPTIONS.pageSize,
+    levels: isIntegerInRange(options.levels, 1, MAX_LEVELS)
+      ? options.levels
+      : DEFAULT_REQUEST_OPTIONS.levels,
+    altMediaText: options.altMediaText ?? DEFAULT_REQUEST_OPTIONS.altMediaText,
+  }
+}
+
+/**
+ * Identifies the settings that change what Butter CMS returns, so content fetched with one set of
+ * settings is never served from the cache for another. Page size only changes how it is split up.
+ */
+export function requestOptionsKey(options: RequestOptions): string {
+  return `${options.baseUrl}|levels=${options.levels}|alt_media_text=${options.altMediaText}`
+}
+
+/** Field filters for a page type or collection, e.g. `{ region: 'eu' }`, keyed by field name */
+export type FieldFilters = Record<string, string>
+
+/**
+ * Query parameters for field filters, e.g. `{ region: 'eu' }` becomes `fields.region=eu`, sorted by
+ * field name so the same filters always give the same URL
+ */
+export function fieldFilterParams(fields: FieldFilters = {}): Record<string, string> {
+  return Object.fromEntries(
+    Object.keys(fields)
+      .sort()
+      .map((name) => [`fields.${name}`, fields[name]!]),
+  )
+}
+
+/**
+ * Build an API URL from an endpoint path such as `pages/landing_page` and its query parameters.
+ * Parameters that are `undefined` or `false` are left out and `true` is sent as `1`, as Butter CMS
+ * expects. Endpoint paths always end in a slash.
+ */
+export function buildApiUrl(
+  options: RequestOptions,
+  path: string,
+  params: Record<string, string | number | boolean | undefined>,
+): string {
+  const query = new URLSearchParams()
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined || value === false) continue
+    query.set(name, value === true ? '1' : String(value))
+  }
+  const encodedPath = path.split('/').map(encodeURIComponent).join('/')
+  return `${options.baseUrl}/${encodedPath}/?${query}`
+}
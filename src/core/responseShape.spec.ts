@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  collectionResponseValidator,
+  validateAuthorsResponse,
+  validatePagesResponse,
+  validatePostsResponse,
+  validateTaxonomyResponse,
+} from './responseShape'
+
+const meta = { next_page: null, previous_page: null, count: 1 }
+
+describe('validatePostsResponse', () => {
+  it('should accept a list of posts', () => {
+    expect(validatePostsResponse({ data: [{ slug: 'hello', title: 'Hello' }], meta })).toBeNull()
+  })
+
+  it('should describe a body that is not an object', () => {
+    expect(validatePostsResponse('<html>Bad gateway</html>')).toBe(
+      'expected the response to be an object, got a string',
+    )
+    expect(validatePostsResponse(null)).toBe('expected the response to be an object, got null')
+  })
+
+  it('should point at the first item that is missing its slug', () => {
+    expect(validatePostsResponse({ data: [{ slug: 'a' }, { title: 'B' }], meta })).toBe(
+      'expected data[1].slug to be a string, got undefined',
+    )
+  })
+
+  it('should check the pagination meta', () => {
+    expect(validatePostsResponse({ data: [] })).toBe('expected meta to be an object, got undefined')
+    expect(validatePostsResponse({ data: [], meta: { ...meta, count: '1' } })).toBe(
+      'expected meta.count to be a number, got a string',
+    )
+    expect(validatePostsResponse({ data: [], meta: { ...meta, next_page: '2' } })).toBe(
+      'expected meta.next_page to be a number, got a string',
+    )
+  })
+
+  it('should ignore fields it does not rely on', () => {
+    expect(
+      validatePostsResponse({ data: [{ slug: 'a', author: null, extra: 1 }], meta, more: true }),
+    ).toBeNull()
+  })
+})
+
+describe('validatePagesResponse', () => {
+  it('should accept pages with or without fields', () => {
+    expect(validatePagesResponse({ data: [{ slug: 'a', fields: {} }, { slug: 'b' }], meta })).toBe(
+      null,
+    )
+  })
+
+  it('should reject page fields that are not an object', () => {
+    expect(validatePagesResponse({ data: [{ slug: 'a', fields: [] }], meta })).toBe(
+      'expected data[0].fields to be an object, got an array',
+    )
+  })
+})
+
+describe('collectionResponseValidator', () => {
+  it('should accept items keyed by the collection', () => {
+    expect(collectionResponseValidator('recipes')({ data: { recipes: [{}] }, meta })).toBeNull()
+  })
+
+  it('should name the missing collection key', () => {
+    expect(collectionResponseValidator('recipes')({ data: { recipe: [] }, meta })).toBe(
+      'expected data.recipes to be an array, got undefined',
+    )
+  })
+
+  it('should reject items that are not objects', () => {
+    expect(collectionResponseValidator('tags')({ data: { tags: ['a'] }, meta })).toBe(
+      'expected data.tags[0] to be an object, got a string',
+    )
+  })
+})
+
+describe('validateAuthorsResponse', () => {
+  it('should accept a list of authors without pagination meta', () => {
+    expect(validateAuthorsResponse({ data: [{ slug: 'ada', first_name: 'Ada' }] })).toBeNull()
+  })
+
+  it('should point at the first author that is missing its slug', () => {
+    expect(validateAuthorsResponse({ data: [{ first_name: 'Ada' }] })).toBe(
+      'expected data[0].slug to be a string, got undefined',
+    )
+  })
+})
+
+describe('validateTaxonomyResponse', () => {
+  it('should accept a list of named items', () => {
+    expect(validateTaxonomyResponse({ data: [{ name: 'Recipes', slug: 'recipes' }] })).toBeNull()
+  })
+
+  it('should require a name as well as a slug', () => {
+    expect(validateTaxonomyResponse({ data: [{ slug: 'recipes' }] })).toBe(
+      'expected data[0].name to be a string, got undefined',
+    )
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Runtime checks for Butter CMS responses. Responses are only checked as far as the tool relies on
+ * them, so new or optional fields never cause a failure. Each check returns a diagnostic such as
+ * `expected data.recipes to be an array, got undefined`, or `null` if the response is usable.
+ */
+
+/** Checks a parsed response body, returning what is wrong with it or `null` if it is usable */
+export type ResponseValidator = (body: unknown) => string | null
+
+/** Checks the value found at `path` */
+type Check = (value: unknown, path: string) => string | null
+
+function describeValue(value: unknown): string {
+  if (value === null || value === undefined) return String(value)
+  if (Array.isArray(value)) return 'an array'
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`
+}
+
+function expected(path: string, what: string, value: unknown): string {
+  return `expected ${path || 'the response'} to be ${what}, got ${describeValue(value)}`
+}
+
+const string: Check = (value, path) =>
+  typeof value === 'string' ? null : expected(path, 'a string', value)
+
+const number: Check = (value, path) =>
+  typeof value === 'number' ? null : expected(path, 'a number', value)
+
+function nullable(check: Check): Check {
+  return (value, path) => (value === null ? null : check(value, path))
+}
+
+function optional(check: Check): Check {
+  return (value, path) => (value === undefined ? null : check(value, path))
+}
+
+function object(properties: Record<string, Check> = {}): Check {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return expected(path, 'an object', value)
+    }
+    for (const [key, check] of Object.entries(properties)) {
+      const problem = check((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key)
+      if (problem) return problem
+    }
+    return null
+  }
+}
+
+function arrayOf(item: Check): Check {
+  return (value, path) => {
+    if (!Array.isArray(value)) return expected(path, 'an array', value)
+    for (const [index, element] of value.entries()) {
+      const problem = item(element, `${path}[${index}]`)
+      if (problem) return problem
+    }
+    return null
+  }
+}
+
+/** A paginated list response, whose `data` is checked with `data` */
+function listResponse(data: Check): ResponseValidator {
+  const check = object({
+    data,
+    meta: object({ count: number, next_page: nullable(number) }),
+  })
+  return (body) => check(body, '')
+}
+
+// Slugs identify posts and pages in results; page fields are walked for components
+export const validatePostsResponse = listResponse(arrayOf(object({ slug: string })))
+
+export const validatePagesResponse = listResponse(
+  arrayOf(object({ slug: string, fields: optional(object()) })),
+)
+
+/** Collection items are keyed by collection, e.g. `{ data: { recipes: [...] } }` */
+export function collectionResponseValidator(collectionType: string): ResponseValidator {
+  return listResponse(object({ [collectionType]: arrayOf(object()) }))
+}
+
+/** An unpaginated list response, which has no `meta`, whose `data` is checked with `data` */
+function unpaginatedResponse(data: Check): ResponseValidator {
+  const check = object({ data })
+  return (body) => check(body, '')
+}
+
+export const validateAuthorsResponse = unpaginatedResponse(arrayOf(object({ slug: string })))
+
+/** Categories and tags share a shape: a name shown in results and a slug */
+export const validateTaxonomyResponse = unpaginatedResponse(
+  arrayOf(object({ name: string, slug: string })),
+)
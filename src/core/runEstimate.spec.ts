@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { ESTIMATED_REQUEST_MS, estimateRun, formatEstimatedDuration } from './runEstimate'
+
+describe('estimateRun', () => {
+  it('should total the items and the pages needed at the page size', () => {
+    expect(estimateRun([250, 100, 1], 100, 6)).toEqual({
+      items: 351,
+      requests: 5,
+      durationMs: ESTIMATED_REQUEST_MS,
+    })
+  })
+
+  it('should count one request for an empty scope', () => {
+    expect(estimateRun([0, 0], 100).requests).toBe(2)
+  })
+
+  it('should spread requests across the concurrency limit', () => {
+    expect(estimateRun([1000], 10, 4).durationMs).toBe(25 * ESTIMATED_REQUEST_MS)
+  })
+
+  it('should estimate nothing for no scopes', () => {
+    expect(estimateRun([], 100)).toEqual({ items: 0, requests: 0, durationMs: 0 })
+  })
+})
+
+describe('formatEstimatedDuration', () => {
+  it('should describe short runs', () => {
+    expect(formatEstimatedDuration(0)).toBe('under a second')
+    expect(formatEstimatedDuration(500)).toBe('under a second')
+  })
+
+  it('should round to seconds, then minutes', () => {
+    expect(formatEstimatedDuration(1000)).toBe('about 1 second')
+    expect(formatEstimatedDuration(12_400)).toBe('about 12 seconds')
+    expect(formatEstimatedDuration(60_000)).toBe('about 1 minute')
+    expect(formatEstimatedDuration(200_000)).toBe('about 3 minutes')
+  })
+})
@@ -0,0 +1,35 @@
+import { DEFAULT_MAX_CONCURRENT_REQUESTS } from './fetch'
+
+/** Rough round trip of one Butter CMS request, used to estimate how long a run takes */
+export const ESTIMATED_REQUEST_MS = 500
+
+export interface RunEstimate {
+  /** Items across every scope */
+  items: number
+  /** Requests to list every scope at the page size, before any cached content is reused */
+  requests: number
+  durationMs: number
+}
+
+/**
+ * Estimate the cost of fetching scopes holding `counts` items. Every scope takes at least one
+ * request, even when empty, and requests run `concurrency` at a time.
+ */
+export function estimateRun(
+  counts: number[],
+  pageSize: number,
+  concurrency = DEFAULT_MAX_CONCURRENT_REQUESTS,
+): RunEstimate {
+  const items = counts.reduce((sum, count) => sum + count, 0)
+  const requests = counts.reduce((sum, count) => sum + Math.max(1, Math.ceil(count / pageSize)), 0)
+  return { items, requests, durationMs: Math.ceil(requests / concurrency) * ESTIMATED_REQUEST_MS }
+}
+
+/** Describe an estimated duration loosely, e.g. "about 2 seconds" or "about 3 minutes" */
+export function formatEstimatedDuration(durationMs: number): string {
+  if (durationMs < 1000) return 'under a second'
+  const seconds = Math.round(durationMs / 1000)
+  if (seconds < 60) return `about ${seconds} second${seconds === 1 ? '' : 's'}`
+  const minutes = Math.round(seconds / 60)
+  return `about ${minutes} minute${minutes === 1 ? '' : 's'}`
+}
@@ -0,0 +1,33 @@
+import type { Butter } from '@/types'
+import { isAbortError, type FetchProgress } from './fetch'
+import { fetchList } from './paginate'
+import { ButterApiError } from './errors'
+import { buildApiUrl, resolveRequestOptions, type RequestOptions } from './requestOptions'
+import { validateTaxonomyResponse } from './responseShape'
+
+/**
+ * Get all blog tags from ButterCMS. Tags are listed in a single, unpaginated response.
+ * `onProgress` is called once, when the response arrives.
+ */
+export async function getAllTags(config: {
+  token: string
+  signal?: AbortSignal
+  onProgress?: (progress: FetchProgress) => void
+  /** Base URL only. Tags take no page size, reference levels or alt-media text settings */
+  requestOptions?: Partial<RequestOptions>
+}): Promise<Butter.Tag[]> {
+  const options = resolveRequestOptions(config.requestOptions)
+  try {
+    return await fetchList<Butter.Tag>(buildApiUrl(options, 'tags', { auth_token: config.token }), {
+      ...config,
+      validate: validateTaxonomyResponse,
+    })
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw ButterApiError.forScope(
+      error,
+      { kind: 'tag', key: 'Tags' },
+      `Failed to fetch tags: ${(error as Error).message}`,
+    )
+  }
+}
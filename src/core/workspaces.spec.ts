@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { emptyWorkspace, workspaceNameError, workspaceSettings } from './workspaces'
+
+describe('workspaceSettings', () => {
+  it('should keep only the settings that belong to a workspace', () => {
+    const config = { ...emptyWorkspace(), token: 'token', pageTypes: ['landing_page'], levels: 2 }
+
+    expect(workspaceSettings(config)).toEqual({
+      ...emptyWorkspace(),
+      token: 'token',
+      pageTypes: ['landing_page'],
+    })
+  })
+
+  it('should fill in settings missing from older configs', () => {
+    expect(workspaceSettings({ token: 'token' })).toEqual({ ...emptyWorkspace(), token: 'token' })
+  })
+
+  it('should share nothing with the config it was copied from', () => {
+    const config = { ...emptyWorkspace(), pageTypes: ['landing_page'] }
+
+    const settings = workspaceSettings(config)
+    config.pageTypes.push('article')
+    config.selectedScopes.pageTypes.push('landing_page')
+
+    expect(settings.pageTypes).toEqual(['landing_page'])
+    expect(settings.selectedScopes.pageTypes).toEqual([])
+  })
+})
+
+describe('workspaceNameError', () => {
+  it('should accept a new name', () => {
+    expect(workspaceNameError('Production', ['Default'])).toBeUndefined()
+  })
+
+  it('should reject blank and overly long names', () => {
+    expect(workspaceNameError('  ', [])).toBe('Enter a name for the workspace')
+    expect(workspaceNameError('x'.repeat(41), [])).toContain('40 characters')
+  })
+
+  it('should reject names in use, ignoring case and surrounding spaces', () => {
+    expect(workspaceNameError(' default ', ['Default'])).toBe(
+      'A workspace called "default" already exists',
+    )
+  })
+})
@@ -0,0 +1,82 @@
+import type { ContentScopeSelection } from './contentSource'
+import type { FieldFilters } from './requestOptions'
+
+/** Name of the workspace a config starts in, and that configs from before workspaces are in */
+export const DEFAULT_WORKSPACE_NAME = 'Default'
+
+/** Longest workspace name, so names fit in the header switcher */
+export const MAX_WORKSPACE_NAME_LENGTH = 40
+
+/** The scopes selected for scanning, as the store keeps them */
+export interface SelectedScopes extends ContentScopeSelection {
+  /** Locales to scan. None means the account's default locale only */
+  locales?: string[]
+  /** Field filters for page types and collections, keyed by scope id e.g. `page:product_page` */
+  fieldFilters?: Record<string, FieldFilters>
+}
+
+/** The settings that belong to one Butter CMS account. Each workspace keeps its own */
+export interface WorkspaceSettings {
+  token: string
+  lockToken: boolean
+  includePreview: boolean
+  pageTypes: string[]
+  collectionKeys: string[]
+  locales: string[]
+  knownComponents: string[]
+  selectedScopes: SelectedScopes
+}
+
+const WORKSPACE_FIELDS: Array<keyof WorkspaceSettings> = [
+  'token',
+  'lockToken',
+  'includePreview',
+  'pageTypes',
+  'collectionKeys',
+  'locales',
+  'knownComponents',
+  'selectedScopes',
+]
+
+/** Settings for a new workspace: no token and nothing configured */
+export function emptyWorkspace(): WorkspaceSettings {
+  return {
+    token: '',
+    lockToken: false,
+    includePreview: false,
+    pageTypes: [],
+    collectionKeys: [],
+    locales: [],
+    knownComponents: [],
+    selectedScopes: { blog: false, pageTypes: [], collectionKeys: [] },
+  }
+}
+
+/**
+ * Copy the workspace settings out of `config`, leaving every other setting behind. Settings missing
+ * from configs saved before they existed are filled in, and the copy shares nothing with `config`,
+ * so later edits never reach a saved workspace.
+ */
+export function workspaceSettings(config: Partial<WorkspaceSettings>): WorkspaceSettings {
+  const empty = emptyWorkspace()
+  const settings = Object.fromEntries(
+    WORKSPACE_FIELDS.map((field) => [field, config[field] ?? empty[field]]),
+  )
+  return JSON.parse(JSON.stringify(settings))
+}
+
+/**
+ * Why `name` cannot be used for a workspace, or `undefined` if it can. Names are trimmed and must
+ * differ from every name in `existing`, ignoring case.
+ */
+export function workspaceNameError(name: string, existing: string[]): string | undefined {
+  const trimmed = name.trim()
+  if (!trimmed) return 'Enter a name for the workspace'
+  if (trimmed.length > MAX_WORKSPACE_NAME_LENGTH) {
+    return `Keep the name to ${MAX_WORKSPACE_NAME_LENGTH} characters or fewer`
+  }
+  if (existing.some((other) => other.toLowerCase() === trimmed.toLowerCase())) {
+    return `A workspace called "${trimmed}" already exists`
+  }
+  return undefined
+}
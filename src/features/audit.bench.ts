@@ -0,0 +1,79 @@
+import { bench, describe } from 'vitest'
+import { toContentItem } from '@/core/contentSource'
+import { normalizeWhitespace } from '@/utils/textNormalization'
+import { auditItem, UGLY_HTML_PATTERNS } from './audit'
+
+const ACCOUNT_SIZE = 1000
+
+const PARAGRAPHS = [
+  '<p>Plain copy written straight into the editor, with nothing to clean up.</p>',
+  '<p class="MsoNormal" style="mso-line-height-alt: 12pt"><span data-contrast="auto">Pasted from Word</span><o:p></o:p></p>',
+  '<p dir="ltr" id="docs-internal-guid-1234"><span style="google-font: Arial">Pasted from Google Docs</span></p>',
+  '<span data-metadata="<!--(figmeta)eyJmaWxlS2V5Ijo=-->"><!--(figma)ZmlnLWtpd2k=--></span>',
+  '<div data-pm-slice="1 1 []">Pasted from a note-taking app</div>',
+  '<p>Fancy “quotes” and&nbsp;entities &amp; dashes – all normalised first.</p>',
+]
+
+/** A synthetic account of pages with a few rich text fields each, some of them pasted */
+function syntheticAccount(size: number) {
+  return Array.from({ length: size }, (_, index) => {
+    const paragraph = (offset: number) => PARAGRAPHS[(index + offset) % PARAGRAPHS.length]!
+    return toContentItem(
+      {
+        slug: `page-${index}`,
+        name: `Page ${index}`,
+        fields: {
+          headline: `Page ${index}`,
+          body: Array.from({ length: 20 }, (_, offset) => paragraph(offset)).join(''),
+          sections: Array.from({ length: 5 }, (_, offset) => ({
+            type: 'rich_text',
+            content: paragraph(offset) + paragraph(offset + 1),
+          })),
+        },
+      },
+      { kind: 'page', key: 'landing_page' },
+    )
+  })
+}
+
+/** The approach this replaced: a full traversal per pattern, normalising every string each time */
+function countPattern(obj: unknown, pattern: string, depth = 0): number {
+  if (depth > 10 || obj === null || obj === undefined) return 0
+  if (typeof obj === 'string') {
+    const lower = normalizeWhitespace(obj).toLowerCase()
+    let count = 0
+    for (let index = lower.indexOf(pattern); index !== -1; index = lower.indexOf(pattern, index)) {
+      count++
+      index += pattern.length
+    }
+    return count
+  }
+  if (typeof obj !== 'object') return 0
+  return Object.values(obj).reduce<number>(
+    (sum, value) => sum + countPattern(value, pattern, depth + 1),
+    0,
+  )
+}
+
+const account = syntheticAccount(ACCOUNT_SIZE)
+const options = { iterations: 5, time: 0, warmupIterations: 1 }
+
+describe(`audit ${ACCOUNT_SIZE.toLocaleString()} pages`, () => {
+  bench(
+    'single pass over every pattern',
+    () => {
+      account.forEach((item) => auditItem(item))
+    },
+    options,
+  )
+
+  bench(
+    'one traversal per pattern',
+    () => {
+      for (const item of account) {
+        UGLY_HTML_PATTERNS.forEach((pattern) => countPattern(item.data, pattern.toLowerCase()))
+      }
+    },
+    options,
+  )
+})
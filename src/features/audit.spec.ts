@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { auditContent, UGLY_HTML_PATTERNS } from './audit'
+import { auditContent, mergeAuditResponses, UGLY_HTML_PATTERNS, type AuditResponse } from './audit'
 
 const {
   getAllPages: mockGetAllPages,
@@ -113,6 +113,25 @@ describe('auditContent', () => {
       expect(result.patternsFound).toContain('data-font')
     })
 
+    it('should only count data- where no specific data attribute matched', async () => {
+      mockGetAllPosts.mockResolvedValueOnce([
+        {
+          slug: 'post-1',
+          body: '<span data-contrast="auto" data-ccp-props="{}" data-id="1">Text</span>',
+        },
+      ])
+
+      const result = await auditContent('test-token', false, [], [], true)
+
+      const counts = Object.fromEntries(
+        result.results[0]!.issues.map((issue) => [issue.pattern, issue.count]),
+      )
+      expect(counts).toEqual({ 'data-contrast': 1, 'data-ccp': 1, 'data-': 1 })
+      expect(result.results[0]!.issues.find((issue) => issue.pattern === 'data-')!.value).toContain(
+        'data-id',
+      )
+    })
+
     it('should detect inline event handlers', async () => {
       mockGetAllPages.mockResolvedValueOnce([
         {
@@ -361,6 +380,52 @@ describe('auditContent', () => {
     })
   })
 
+  describe('Streaming', () => {
+    it('should report findings from each page as it arrives', async () => {
+      const onResults = vi.fn()
+      mockGetAllPosts.mockImplementationOnce(async (config) => {
+        config.onPage([{ slug: 'word-paste', body: '<p style="mso-line-height: 1">Hi</p>' }])
+        config.onPage([{ slug: 'clean', body: '<p>Hi</p>' }])
+        return []
+      })
+
+      const result = await auditContent('test-token', false, [], [], true, { onResults })
+
+      expect(onResults).toHaveBeenCalledTimes(2)
+      expect(onResults.mock.calls[0]![0].map((r: { slug: string }) => r.slug)).toEqual([
+        'word-paste',
+      ])
+      expect(result.results.map((r) => r.slug)).toEqual(['word-paste'])
+      expect(result.patternsFound).toContain('mso-')
+    })
+  })
+
+  describe('Cancellation', () => {
+    const abortError = () => new DOMException('The operation was aborted.', 'AbortError')
+
+    it('should keep results from scopes that finished before cancelling', async () => {
+      mockGetAllPages.mockRejectedValueOnce(abortError())
+      mockGetAllPosts.mockResolvedValueOnce([{ slug: 'post-1', body: '<p style="mso-x">' }])
+
+      const result = await auditContent('test-token', false, ['landing_page'], [], true)
+
+      expect(result.success).toBe(true)
+      expect(result.cancelled).toBe(true)
+      expect(result.results).toHaveLength(1)
+      expect(result.failedScopes).toBeUndefined()
+    })
+
+    it('should report cancellation rather than failure when no scope finished', async () => {
+      mockGetAllPages.mockRejectedValueOnce(abortError())
+
+      const result = await auditContent('test-token', false, ['landing_page'], [], false)
+
+      expect(result.success).toBe(false)
+      expect(result.cancelled).toBe(true)
+      expect(result.error).toBe('Audit cancelled before any scope finished.')
+    })
+  })
+
   describe('Results formatting', () => {
     it('should include title, slug, and sourceType', async () => {
       mockGetAllPages.mockResolvedValueOnce([
@@ -522,6 +587,25 @@ describe('auditContent', () => {
     })
   })
 
+  describe('Depth limit', () => {
+    it('should report items with content nested deeper than the reference levels reach', async () => {
+      // Sixteen objects deep: within reach of the most levels, beyond a single level
+      let fields: unknown = '<p style="mso-line-height: 1">Hi</p>'
+      for (let level = 0; level < 16; level++) fields = { reference: fields }
+      mockGetAllPages.mockResolvedValue([{ slug: 'deep', page_type: 'landing_page', fields }])
+
+      const full = await auditContent('token', false, ['landing_page'], [], false)
+      const shallow = await auditContent('token', false, ['landing_page'], [], false, {
+        requestOptions: { levels: 1 },
+      })
+
+      expect(full.results).toHaveLength(1)
+      expect(full.depthLimitedItems).toBeUndefined()
+      expect(shallow.results).toHaveLength(0)
+      expect(shallow.depthLimitedItems).toBe(1)
+    })
+  })
+
   describe('Preview mode', () => {
     it('should pass preview flag to fetch functions', async () => {
       mockGetAllPages.mockResolvedValueOnce([])
@@ -655,3 +739,55 @@ describe('auditContent', () => {
     })
   })
 })
+
+describe('mergeAuditResponses', () => {
+  const result = (slug: string, pattern: string) => ({
+    title: slug,
+    slug,
+    sourceType: 'Blog',
+    issues: [{ pattern, path: 'body', value: pattern, count: 1 }],
+  })
+  const previous: AuditResponse = {
+    success: true,
+    results: [result('bravo', 'mso-')],
+    totalIssues: 1,
+    patternsFound: ['mso-'],
+    failedScopes: ['Collection: recipes'],
+    failures: [
+      {
+        scope: { kind: 'collection', key: 'recipes' },
+        label: 'Collection: recipes',
+        reason: 'network error',
+      },
+    ],
+  }
+
+  it('should add retried results and recompute issue totals and patterns', () => {
+    const merged = mergeAuditResponses(previous, {
+      success: true,
+      results: [result('alpha', 'figma'), result('charlie', 'mso-')],
+      totalIssues: 2,
+      patternsFound: ['figma', 'mso-'],
+      failedScopes: [],
+      failures: [],
+    })
+
+    expect(merged.results.map((r) => r.slug)).toEqual(['alpha', 'bravo', 'charlie'])
+    expect(merged.totalIssues).toBe(3)
+    expect(merged.patternsFound).toEqual(['figma', 'mso-'])
+    expect(merged.failedScopes).toEqual([])
+  })
+
+  it('should keep existing results when every retried scope fails again', () => {
+    const merged = mergeAuditResponses(previous, {
+      success: false,
+      results: [],
+      totalIssues: 0,
+      patternsFound: [],
+      failedScopes: ['Collection: recipes'],
+      error: 'Failed to fetch from all selected scopes',
+    })
+
+    expect(merged).toEqual({ ...previous, failures: previous.failures })
+  })
+})
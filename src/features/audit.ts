@@ -1,7 +1,17 @@
-import { getAllPages } from '@/core/pages'
-import { getAllPosts } from '@/core/posts'
-import { getAllCollections } from '@/core/collections'
+import {
+  describeFailures,
+  scanContent,
+  scopeLabel,
+  type BlogMetadataSelection,
+  type ContentItem,
+  type FailureReason,
+  type ScanContentOptions,
+} from '@/core/contentSource'
+import { DEFAULT_SCAN_DEPTH, resolveRequestOptions, scanDepthLimit } from '@/core/requestOptions'
 import { normalizeWhitespace, createContextSnippet } from '@/utils/textNormalization'
+import { createPatternMatcher } from '@/utils/patternMatcher'
+import { scanItems } from './scanner'
+import type { DepthGuard } from './scanJobs'
 
 /**
  * Predefined patterns for detecting HTML bloat from various sources.
@@ -111,23 +121,47 @@ function buildGenericPatternMapping(patterns: readonly string[]): Record<string,
  */
 const GENERIC_PATTERN_SPECIFICS = buildGenericPatternMapping(UGLY_HTML_PATTERNS)
 
-interface AuditResponse {
-  success: boolean
-  results: Array<{
-    title: string
-    slug: string
-    sourceType: string
-    status?: 'published' | 'draft' | 'scheduled'
-    issues: Array<{
-      pattern: string
-      path: string
-      value: string
-      count: number
-    }>
+const LOWERCASE_PATTERNS = UGLY_HTML_PATTERNS.map((pattern) => pattern.toLowerCase())
+const GENERIC_PATTERN_INDEXES = new Set(
+  Object.keys(GENERIC_PATTERN_SPECIFICS).map((pattern) =>
+    UGLY_HTML_PATTERNS.indexOf(pattern as UglyHtmlPattern),
+  ),
+)
+// Built once and shared by every item, so each string is searched for all patterns in one pass
+const PATTERN_MATCHER = createPatternMatcher(LOWERCASE_PATTERNS)
+
+export interface AuditResult {
+  title: string
+  slug: string
+  sourceType: string
+  /** Locale the item was found in, unless it is the default locale */
+  locale?: string
+  status?: 'published' | 'draft' | 'scheduled'
+  issues: Array<{
+    pattern: string
+    path: string
+    value: string
+    count: number
   }>
+}
+
+export interface AuditResponse {
+  success: boolean
+  results: AuditResult[]
   totalIssues: number
   patternsFound: string[]
   failedScopes?: string[]
+  /** Why each failed scope could not be fetched, labelled as in `failedScopes` */
+  failures?: FailureReason[]
+  /** Failed scopes whose results only cover the pages fetched before the failure */
+  incompleteScopes?: string[]
+  /** Set when the audit was cancelled. Results only cover scopes that finished beforehand */
+  cancelled?: boolean
+  /**
+   * Items with content nested deeper than the reference levels reach, which was not audited.
+   * Unset when every item was audited in full
+   */
+  depthLimitedItems?: number
   error?: string
 }
 
@@ -135,125 +169,179 @@ interface MatchAccumulator {
   path: string
   snippets: string[]
   count: number
-  positions?: number[] // Track match positions for deduplication
 }
 
-function searchObjectForPattern(
+/**
+ * Find every pattern in one normalised string, keyed by pattern index. Each pattern counts
+ * non-overlapping occurrences from left to right, and a generic pattern skips any position already
+ * matched by a specific one, so e.g. `data-contrast=` is not also reported as `data-`.
+ */
+function matchPatterns(normalized: string, path: string): Map<number, MatchAccumulator> {
+  // Where each counted occurrence of a pattern starts, and where its next one may start
+  const positions = new Map<number, number[]>()
+  const nextStart = new Map<number, number>()
+  for (const { pattern, start } of PATTERN_MATCHER.findAll(normalized.toLowerCase())) {
+    if (start < (nextStart.get(pattern) ?? 0)) continue
+    nextStart.set(pattern, start + LOWERCASE_PATTERNS[pattern]!.length)
+    const starts = positions.get(pattern) ?? []
+    starts.push(start)
+    positions.set(pattern, starts)
+  }
+
+  const claimed = new Set<number>()
+  for (const [pattern, starts] of positions) {
+    if (!GENERIC_PATTERN_INDEXES.has(pattern)) starts.forEach((start) => claimed.add(start))
+  }
+
+  const matches = new Map<number, MatchAccumulator>()
+  for (const [pattern, starts] of positions) {
+    const counted = GENERIC_PATTERN_INDEXES.has(pattern)
+      ? starts.filter((start) => !claimed.has(start))
+      : starts
+    if (counted.length === 0) continue
+    matches.set(pattern, {
+      path,
+      // Limit snippets to first 3 occurrences to prevent bloat
+      snippets: counted
+        .slice(0, 3)
+        .map((start) =>
+          createContextSnippet(normalized, start, LOWERCASE_PATTERNS[pattern]!.length),
+        ),
+      count: counted.length,
+    })
+  }
+  return matches
+}
+
+/**
+ * Walk `obj` once, recording every pattern found in each value as pattern -> path -> matches.
+ * Each string is normalised once and searched for all patterns together.
+ */
+function collectPatternMatches(
   obj: unknown,
-  pattern: string,
+  allMatches: Map<string, Map<string, MatchAccumulator>>,
+  guard: DepthGuard,
   path = '',
   depth = 0,
   visited = new WeakSet(),
-  excludedPositions?: Map<string, Set<number>>, // Positions to exclude for generic patterns
-): Map<string, MatchAccumulator> {
-  const matchMap = new Map<string, MatchAccumulator>()
-
-  // Guard against excessive depth and circular references
-  if (depth > 10) return matchMap
-  if (obj === null || obj === undefined) return matchMap
+): void {
+  if (obj === null || obj === undefined) return
+  // Guard against excessive depth, noting that this subtree went unaudited
+  if (depth > guard.maxDepth) {
+    guard.truncated = true
+    return
+  }
 
-  // Prevent circular reference issues
+  // Prevent circular reference issues. Objects already audited are not a truncation
   if (typeof obj === 'object' && !Array.isArray(obj)) {
-    if (visited.has(obj as object)) return matchMap
+    if (visited.has(obj as object)) return
     visited.add(obj as object)
   }
 
-  if (typeof obj === 'string') {
-    const normalizedObj = normalizeWhitespace(obj)
-    const lowerNormalizedObj = normalizedObj.toLowerCase()
-    const patternLower = pattern.toLowerCase()
-
-    // Find all matches for this pattern
-    let searchIndex = 0
-    let occurrenceCount = 0
-    const snippets: string[] = []
-    const positions: number[] = []
-    const pathKey = path || 'root'
-    const excludedSet = excludedPositions?.get(pathKey)
-
-    while ((searchIndex = lowerNormalizedObj.indexOf(patternLower, searchIndex)) !== -1) {
-      // Skip this match if it's in an excluded position (already matched by specific pattern)
-      if (excludedSet && excludedSet.has(searchIndex)) {
-        searchIndex += patternLower.length
-        continue
-      }
-
-      occurrenceCount++
-      positions.push(searchIndex)
-
-      // Limit snippets to first 3 occurrences to prevent bloat
-      if (snippets.length < 3) {
-        snippets.push(createContextSnippet(normalizedObj, searchIndex, patternLower.length))
-      }
-
-      searchIndex += patternLower.length
-    }
+  const record = (pattern: number, acc: MatchAccumulator) => {
+    const patternMatches = allMatches.get(UGLY_HTML_PATTERNS[pattern]!) ?? new Map()
+    patternMatches.set(acc.path, acc)
+    allMatches.set(UGLY_HTML_PATTERNS[pattern]!, patternMatches)
+  }
 
-    if (occurrenceCount > 0) {
-      matchMap.set(pathKey, {
-        path: pathKey,
-        snippets,
-        count: occurrenceCount,
-        positions,
-      })
-    }
+  if (typeof obj === 'string') {
+    matchPatterns(normalizeWhitespace(obj), path || 'root').forEach((acc, pattern) =>
+      record(pattern, acc),
+    )
   } else if (typeof obj === 'number' || typeof obj === 'boolean') {
     const stringValue = String(obj)
-    const patternLower = pattern.toLowerCase()
-    if (stringValue.toLowerCase().includes(patternLower)) {
-      matchMap.set(path || 'root', {
-        path: path || 'root',
-        snippets: [stringValue],
-        count: 1,
-      })
-    }
+    const found = new Set(
+      PATTERN_MATCHER.findAll(stringValue.toLowerCase()).map((match) => match.pattern),
+    )
+    found.forEach((pattern) =>
+      record(pattern, { path: path || 'root', snippets: [stringValue], count: 1 }),
+    )
   } else if (Array.isArray(obj)) {
     obj.forEach((item, index) => {
-      const nestedMatches = searchObjectForPattern(
-        item,
-        pattern,
-        `${path}[${index}]`,
-        depth + 1,
-        visited,
-        excludedPositions,
-      )
-      nestedMatches.forEach((value, key) => {
-        matchMap.set(key, value)
-      })
+      collectPatternMatches(item, allMatches, guard, `${path}[${index}]`, depth + 1, visited)
     })
   } else if (typeof obj === 'object') {
     for (const [key, value] of Object.entries(obj)) {
-      const nestedMatches = searchObjectForPattern(
+      collectPatternMatches(
         value,
-        pattern,
+        allMatches,
+        guard,
         path ? `${path}.${key}` : key,
         depth + 1,
         visited,
-        excludedPositions,
       )
-      nestedMatches.forEach((value, key) => {
-        matchMap.set(key, value)
-      })
     }
   }
-
-  return matchMap
 }
 
-function toStatus(val: unknown): 'published' | 'draft' | 'scheduled' | undefined {
-  if (val === 'published' || val === 'draft' || val === 'scheduled') return val
-  return undefined
+/**
+ * Audit one item for every pattern, returning its result or `undefined` if it has no issues.
+ * Runs in the scan worker
+ */
+export function auditItem(
+  item: ContentItem,
+  guard: DepthGuard = { maxDepth: DEFAULT_SCAN_DEPTH, truncated: false },
+): AuditResult | undefined {
+  const itemIssues: AuditResult['issues'] = []
+
+  const allMatches = new Map<string, Map<string, MatchAccumulator>>()
+  collectPatternMatches(item.data, allMatches, guard)
+
+  // Convert all matches to issues
+  for (const [pattern, matchMap] of allMatches) {
+    if (matchMap.size > 0) {
+      matchMap.forEach((acc) => {
+        itemIssues.push({
+          pattern,
+          path: acc.count > 1 ? `${acc.path} (${acc.count} occurrences)` : acc.path,
+          value: acc.snippets[0] || '',
+          count: acc.count,
+        })
+      })
+    }
+  }
+
+  // Only list items that have issues
+  if (itemIssues.length === 0) return undefined
+
+  return {
+    title: item.title,
+    slug: item.slug,
+    sourceType: item.scope,
+    ...(item.locale ? { locale: item.locale } : {}),
+    status: item.status,
+    issues: itemIssues.sort((a, b) => {
+      // Sort by pattern first, then by path
+      const patternCompare = a.pattern.localeCompare(b.pattern)
+      if (patternCompare !== 0) return patternCompare
+      return a.path.localeCompare(b.path)
+    }),
+  }
 }
 
+/**
+ * Audit the selected scopes for HTML bloat. Each page of content is audited as it arrives; pass
+ * `options.onResults` to show findings progressively. The final results are sorted by slug.
+ * `options.authors`, `options.categories` and `options.tags` add the blog's metadata to the scopes.
+ */
 export async function auditContent(
   token: string,
   preview: boolean,
   selectedPageTypes: string[],
   selectedCollectionKeys: string[],
   includeBlog: boolean,
+  options: ScanContentOptions<AuditResult> & BlogMetadataSelection = {},
 ): Promise<AuditResponse> {
   // Validate that at least one scope is selected
-  if (!includeBlog && selectedPageTypes.length === 0 && selectedCollectionKeys.length === 0) {
+  const { authors, categories, tags, ...scanOptions } = options
+  if (
+    !includeBlog &&
+    !authors &&
+    !categories &&
+    !tags &&
+    selectedPageTypes.length === 0 &&
+    selectedCollectionKeys.length === 0
+  ) {
     return {
       success: false,
       results: [],
@@ -263,198 +351,77 @@ export async function auditContent(
     }
   }
 
-  const failedScopes: string[] = []
-  let hasAnySuccessfulScope = false
-  const patternsFoundSet = new Set<string>()
+  // Expanded references nest content deeper, so audit as deep as the reference levels reach
+  const maxDepth = scanDepthLimit(resolveRequestOptions(scanOptions.requestOptions).levels)
 
   try {
-    const auditResults: Array<{
-      title: string
-      slug: string
-      sourceType: string
-      status?: 'published' | 'draft' | 'scheduled'
-      issues: Array<{
-        pattern: string
-        path: string
-        value: string
-        count: number
-      }>
-    }> = []
-
-    // Build items with source type tracking
-    const itemsWithSource: Array<{ data: unknown; sourceType: string }> = []
-
-    // Fan-out all data fetches concurrently for maximum throughput
-    const fetchPromises: Promise<void>[] = []
-
-    // Fetch pages if any page types are selected
-    if (selectedPageTypes.length > 0) {
-      for (const pageType of selectedPageTypes) {
-        fetchPromises.push(
-          getAllPages({ token, pageType, preview })
-            .then((pages) => {
-              pages.forEach((page) => itemsWithSource.push({ data: page, sourceType: pageType }))
-              hasAnySuccessfulScope = true
-            })
-            .catch((error) => {
-              console.error(`Failed to fetch page type "${pageType}":`, error)
-              failedScopes.push(`Page Type: ${pageType}`)
-            }),
-        )
-      }
-    }
-
-    // Fetch blog posts if enabled
-    if (includeBlog) {
-      fetchPromises.push(
-        getAllPosts({ token, preview })
-          .then((posts) => {
-            posts.forEach((post) => itemsWithSource.push({ data: post, sourceType: 'Blog' }))
-            hasAnySuccessfulScope = true
-          })
-          .catch((error) => {
-            console.error('Failed to fetch Blog posts:', error)
-            failedScopes.push('Blog')
-          }),
-      )
-    }
-
-    // Fetch collections if any collection keys are selected
-    if (selectedCollectionKeys.length > 0) {
-      for (const collectionKey of selectedCollectionKeys) {
-        fetchPromises.push(
-          getAllCollections({ token, collectionType: collectionKey, preview })
-            .then((collections) => {
-              collections.forEach((collection) =>
-                itemsWithSource.push({ data: collection, sourceType: collectionKey }),
-              )
-              hasAnySuccessfulScope = true
-            })
-            .catch((error) => {
-              console.error(`Failed to fetch collection "${collectionKey}":`, error)
-              failedScopes.push(`Collection: ${collectionKey}`)
-            }),
-        )
-      }
-    }
-
-    await Promise.all(fetchPromises)
-
-    // If all scopes failed, return error
-    if (!hasAnySuccessfulScope) {
+    const {
+      results,
+      depthLimitedItems,
+      succeededScopes,
+      failedScopes,
+      failures,
+      incompleteScopes,
+      cancelledScopes,
+      scanCancelled,
+    } = await scanContent(
+      {
+        token,
+        preview,
+        scopes: {
+          blog: includeBlog,
+          pageTypes: selectedPageTypes,
+          collectionKeys: selectedCollectionKeys,
+          authors,
+          categories,
+          tags,
+        },
+        ...scanOptions,
+      },
+      (items) => scanItems({ kind: 'audit', maxDepth }, items),
+    )
+    const failedScopeLabels = failedScopes.map(scopeLabel)
+    const failureReasons = describeFailures(failures)
+    const cancelled = cancelledScopes.length > 0 || scanCancelled
+
+    // If all scopes failed or were cancelled with nothing fetched, return error
+    if (succeededScopes.length === 0 && incompleteScopes.length === 0) {
       return {
         success: false,
         results: [],
         totalIssues: 0,
         patternsFound: [],
-        failedScopes,
-        error: 'Failed to fetch all selected scopes. Check console for details.',
+        failedScopes: failedScopeLabels,
+        failures: failureReasons,
+        ...(cancelled
+          ? { cancelled, error: 'Audit cancelled before any scope finished.' }
+          : { error: 'Failed to fetch all selected scopes. See the request log for details.' }),
       }
     }
 
-    // Audit each item for all patterns
+    // Totals only cover the scopes that were kept, so count them from the final results
     let totalIssuesCount = 0
-
-    for (const { data: itemData, sourceType } of itemsWithSource) {
-      const item = itemData as Record<string, unknown>
-      const itemIssues: Array<{
-        pattern: string
-        path: string
-        value: string
-        count: number
-      }> = []
-
-      // First pass: Collect matches for all patterns and track positions for specific patterns
-      const allMatches = new Map<string, Map<string, MatchAccumulator>>()
-      const matchedPositions = new Map<string, Set<number>>() // path -> set of matched positions
-      const genericPatterns = Object.keys(GENERIC_PATTERN_SPECIFICS)
-
-      for (const pattern of UGLY_HTML_PATTERNS) {
-        const isGeneric = genericPatterns.includes(pattern)
-
-        // For generic patterns, skip the first pass - we'll do them in second pass with exclusions
-        if (isGeneric) {
-          continue
-        }
-
-        const matchMap = searchObjectForPattern(itemData, pattern)
-        if (matchMap.size > 0) {
-          allMatches.set(pattern, matchMap)
-
-          // Track positions for specific patterns
-          matchMap.forEach((acc, path) => {
-            if (acc.positions) {
-              if (!matchedPositions.has(path)) {
-                matchedPositions.set(path, new Set())
-              }
-              const posSet = matchedPositions.get(path)!
-              acc.positions.forEach((pos) => posSet.add(pos))
-            }
-          })
-        }
-      }
-
-      // Second pass: Search generic patterns with position exclusions
-      for (const genericPattern of genericPatterns) {
-        const matchMap = searchObjectForPattern(
-          itemData,
-          genericPattern,
-          '',
-          0,
-          new WeakSet(),
-          matchedPositions,
-        )
-        if (matchMap.size > 0) {
-          allMatches.set(genericPattern, matchMap)
-        }
-      }
-
-      // Convert all matches to issues
-      for (const [pattern, matchMap] of allMatches) {
-        if (matchMap.size > 0) {
-          patternsFoundSet.add(pattern)
-
-          matchMap.forEach((acc) => {
-            const issueCount = acc.count
-            totalIssuesCount += issueCount
-
-            itemIssues.push({
-              pattern,
-              path: acc.count > 1 ? `${acc.path} (${acc.count} occurrences)` : acc.path,
-              value: acc.snippets[0] || '',
-              count: acc.count,
-            })
-          })
-        }
-      }
-
-      // Only add items that have issues
-      if (itemIssues.length > 0) {
-        auditResults.push({
-          title:
-            (item.name as string) || (item.title as string) || (item.slug as string) || 'Untitled',
-          slug: (item.slug as string) || 'N/A',
-          sourceType: sourceType,
-          status: toStatus(item.status),
-          issues: itemIssues.sort((a, b) => {
-            // Sort by pattern first, then by path
-            const patternCompare = a.pattern.localeCompare(b.pattern)
-            if (patternCompare !== 0) return patternCompare
-            return a.path.localeCompare(b.path)
-          }),
-        })
+    const patternsFoundSet = new Set<string>()
+    for (const result of results) {
+      for (const issue of result.issues) {
+        totalIssuesCount += issue.count
+        patternsFoundSet.add(issue.pattern)
       }
     }
 
     // Sort results by slug
-    auditResults.sort((a, b) => a.slug.localeCompare(b.slug))
+    results.sort((a, b) => a.slug.localeCompare(b.slug))
 
     return {
       success: true,
-      results: auditResults,
+      results,
       totalIssues: totalIssuesCount,
       patternsFound: Array.from(patternsFoundSet).sort(),
-      failedScopes: failedScopes.length > 0 ? failedScopes : undefined,
+      failedScopes: failedScopeLabels.length > 0 ? failedScopeLabels : undefined,
+      failures: failureReasons.length > 0 ? failureReasons : undefined,
+      incompleteScopes: incompleteScopes.length > 0 ? incompleteScopes.map(scopeLabel) : undefined,
+      cancelled: cancelled || undefined,
+      depthLimitedItems: depthLimitedItems || undefined,
     }
   } catch (error) {
     return {
@@ -462,8 +429,36 @@ export async function auditContent(
       results: [],
       totalIssues: 0,
       patternsFound: [],
-      failedScopes,
       error: (error as Error).message,
     }
   }
 }
+
+/**
+ * Merge the response from retrying failed scopes into the response being shown, as if every scope
+ * had been audited in one run: results are re-sorted and issue totals and patterns recomputed.
+ * Scopes that fail again stay listed as failed.
+ */
+export function mergeAuditResponses(previous: AuditResponse, retry: AuditResponse): AuditResponse {
+  if (!retry.success) {
+    return {
+      ...previous,
+      failedScopes: retry.failedScopes ?? previous.failedScopes,
+      failures: retry.failures ?? previous.failures,
+      incompleteScopes: retry.incompleteScopes,
+    }
+  }
+
+  return {
+    success: true,
+    results: [...previous.results, ...retry.results].sort((a, b) => a.slug.localeCompare(b.slug)),
+    totalIssues: previous.totalIssues + retry.totalIssues,
+    patternsFound: Array.from(new Set([...previous.patternsFound, ...retry.patternsFound])).sort(),
+    depthLimitedItems:
+      (previous.depthLimitedItems ?? 0) + (retry.depthLimitedItems ?? 0) || undefined,
+    failedScopes: retry.failedScopes,
+    failures: retry.failures,
+    incompleteScopes: retry.incompleteScopes,
+    cancelled: previous.cancelled,
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { auditComponents } from './components'
+import { auditComponents, mergeComponentsResponses, type ComponentsResponse } from './components'
 
 const { getAllPages: mockGetAllPages } = vi.hoisted(() => ({
   getAllPages: vi.fn(),
@@ -233,11 +233,9 @@ describe('auditComponents', () => {
 
       await auditComponents('token', true, ['landing_page'], ['hero_banner'])
 
-      expect(mockGetAllPages).toHaveBeenCalledWith({
-        token: 'token',
-        preview: true,
-        pageType: 'landing_page',
-      })
+      expect(mockGetAllPages).toHaveBeenCalledWith(
+        expect.objectContaining({ token: 'token', preview: true, pageType: 'landing_page' }),
+      )
     })
   })
 
@@ -278,6 +276,76 @@ describe('auditComponents', () => {
     })
   })
 
+  describe('Progress', () => {
+    it('finishes with every page of each page type scanned', async () => {
+      const onProgress = vi.fn()
+      mockGetAllPages.mockResolvedValueOnce([makePage('a', {}), makePage('b', {})])
+
+      await auditComponents('token', false, ['landing_page'], ['hero_banner'], { onProgress })
+
+      expect(onProgress).toHaveBeenLastCalledWith({
+        scope: { kind: 'page', key: 'landing_page' },
+        phase: 'scanning',
+        fetched: 2,
+        total: 2,
+      })
+    })
+  })
+
+  describe('Cancellation', () => {
+    const abortError = () => new DOMException('The operation was aborted.', 'AbortError')
+
+    it('reports cancellation rather than failure when no page type finished', async () => {
+      mockGetAllPages.mockRejectedValueOnce(abortError())
+
+      const result = await auditComponents('token', false, ['landing_page'], ['hero_banner'])
+
+      expect(result.success).toBe(false)
+      expect(result.cancelled).toBe(true)
+      expect(result.failedScopes).toBeUndefined()
+    })
+
+    it('keeps page types that finished before cancelling', async () => {
+      mockGetAllPages
+        .mockResolvedValueOnce([makePage('page-1', { hero_banner: {} })])
+        .mockRejectedValueOnce(abortError())
+
+      const result = await auditComponents('token', false, ['done', 'cancelled'], ['hero_banner'])
+
+      expect(result.success).toBe(true)
+      expect(result.cancelled).toBe(true)
+      expect(result.totalScanned).toBe(1)
+      expect(result.results[0]!.usageCount).toBe(1)
+    })
+
+    it('stops scanning the remaining pages when aborted mid-scan', async () => {
+      const controller = new AbortController()
+      const fields = {}
+      // Aborts as the first page is scanned, while the second is still waiting
+      Object.defineProperty(fields, 'hero_banner', {
+        enumerable: true,
+        get: () => {
+          controller.abort()
+          return {}
+        },
+      })
+      mockGetAllPages.mockImplementationOnce(async (config) => {
+        config.onPage([makePage('page-1', fields)])
+        config.onPage([makePage('page-2', { hero_banner: {} })])
+        return []
+      })
+
+      const result = await auditComponents('token', false, ['landing_page'], ['hero_banner'], {
+        signal: controller.signal,
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.cancelled).toBe(true)
+      expect(result.totalScanned).toBe(1)
+      expect(result.results[0]!.usages.map((usage) => usage.slug)).toEqual(['page-1'])
+    })
+  })
+
   describe('Sorting', () => {
     it('sorts results ascending by usageCount, with 0-usage components first', async () => {
       mockGetAllPages.mockResolvedValueOnce([
@@ -329,6 +397,22 @@ describe('auditComponents', () => {
       ).resolves.not.toThrow()
     })
 
+    it('reports pages with components nested deeper than the reference levels reach', async () => {
+      let fields: Record<string, unknown> = { hero_banner: {} }
+      for (let level = 0; level < 16; level++) fields = { reference: fields }
+      mockGetAllPages.mockResolvedValue([makePage('deep', fields)])
+
+      const full = await auditComponents('token', false, ['landing_page'], ['hero_banner'])
+      const shallow = await auditComponents('token', false, ['landing_page'], ['hero_banner'], {
+        requestOptions: { levels: 1 },
+      })
+
+      expect(full.results[0]!.usageCount).toBe(1)
+      expect(full.depthLimitedItems).toBeUndefined()
+      expect(shallow.results[0]!.usageCount).toBe(0)
+      expect(shallow.depthLimitedItems).toBe(1)
+    })
+
     it('handles arrays containing non-objects without throwing', async () => {
       mockGetAllPages.mockResolvedValueOnce([
         makePage('page-1', {
@@ -372,3 +456,62 @@ describe('auditComponents', () => {
     })
   })
 })
+
+describe('mergeComponentsResponses', () => {
+  const usage = (slug: string, pageType: string) => ({
+    title: slug,
+    slug,
+    pageType,
+    status: 'published' as const,
+  })
+  const previous: ComponentsResponse = {
+    success: true,
+    results: [
+      { componentSlug: 'hero', usageCount: 1, usages: [usage('home', 'landing_page')] },
+      {
+        componentSlug: 'faq',
+        usageCount: 2,
+        usages: [usage('home', 'landing_page'), usage('pricing', 'landing_page')],
+      },
+    ],
+    totalScanned: 2,
+    failedScopes: ['article'],
+  }
+
+  it('should combine usages per component and re-sort by usage count', () => {
+    const merged = mergeComponentsResponses(previous, {
+      success: true,
+      results: [
+        { componentSlug: 'faq', usageCount: 0, usages: [] },
+        {
+          componentSlug: 'hero',
+          usageCount: 2,
+          usages: [usage('news', 'article'), usage('guide', 'article')],
+        },
+      ],
+      totalScanned: 2,
+      failedScopes: [],
+    })
+
+    expect(merged.results.map((r) => [r.componentSlug, r.usageCount])).toEqual([
+      ['faq', 2],
+      ['hero', 3],
+    ])
+    expect(merged.results[1]!.usages.map((u) => u.slug)).toEqual(['home', 'news', 'guide'])
+    expect(merged.totalScanned).toBe(4)
+    expect(merged.failedScopes).toEqual([])
+  })
+
+  it('should keep existing results when the retried page types fail again', () => {
+    const merged = mergeComponentsResponses(previous, {
+      success: false,
+      results: [],
+      totalScanned: 0,
+      failedScopes: ['article'],
+      error: 'Failed to fetch pages from all selected page types',
+    })
+
+    expect(merged.results).toEqual(previous.results)
+    expect(merged.success).toBe(true)
+  })
+})
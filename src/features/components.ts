@@ -1,10 +1,22 @@
 import type { Butter } from '@/types'
-import { getAllPages } from '@/core/pages'
+import {
+  describeFailures,
+  scanContent,
+  type ContentItem,
+  type ContentScope,
+  type FailureReason,
+  type FetchContentOptions,
+} from '@/core/contentSource'
+import { DEFAULT_SCAN_DEPTH, resolveRequestOptions, scanDepthLimit } from '@/core/requestOptions'
+import { scanItems } from './scanner'
+import type { DepthGuard } from './scanJobs'
 
 export interface ComponentUsage {
   title: string
   slug: string
   pageType: string
+  /** Locale the item was found in, unless it is the default locale */
+  locale?: string
   status: 'published' | 'draft' | 'scheduled' | undefined
 }
 
@@ -19,10 +31,25 @@ export interface ComponentsResponse {
   results: ComponentResult[]
   totalScanned: number
   failedScopes?: string[]
+  /** Why each failed page type could not be fetched, labelled by page type */
+  failures?: FailureReason[]
+  /** Failed page types whose usages only cover the pages fetched before the failure */
+  incompleteScopes?: string[]
+  /** Set when the analysis was cancelled. Results only cover pages scanned beforehand */
+  cancelled?: boolean
+  /**
+   * Pages with content nested deeper than the reference levels reach, which was not checked for
+   * components. Unset when every page was checked in full
+   */
+  depthLimitedItems?: number
   error?: string
 }
 
-const MAX_DEPTH = 20
+/** The known components found on one page */
+export interface ComponentMatch {
+  usage: ComponentUsage
+  components: string[]
+}
 
 /**
  * Recursively walk a JSON tree to count how many times each known component slug appears.
@@ -35,14 +62,19 @@ function walkJson(
   slugSet: Set<string>,
   counts: Map<string, number>,
   visited: WeakSet<object>,
+  guard: DepthGuard,
   depth: number,
 ): void {
-  if (depth > MAX_DEPTH) return
   if (node === null || node === undefined) return
+  // Stop at the depth limit, noting that this subtree went unchecked
+  if (depth > guard.maxDepth) {
+    guard.truncated = true
+    return
+  }
 
   if (Array.isArray(node)) {
     for (const item of node) {
-      walkJson(item, slugSet, counts, visited, depth + 1)
+      walkJson(item, slugSet, counts, visited, guard, depth + 1)
     }
     return
   }
@@ -67,11 +99,42 @@ function walkJson(
 
     // Recurse into all values
     for (const value of Object.values(obj)) {
-      walkJson(value, slugSet, counts, visited, depth + 1)
+      walkJson(value, slugSet, counts, visited, guard, depth + 1)
     }
   }
 }
 
+/**
+ * Find which of the components in `slugSet` appear on one page, returning `undefined` if none do.
+ * Runs in the scan worker
+ */
+export function findComponentUsage(
+  item: ContentItem,
+  slugSet: Set<string>,
+  guard: DepthGuard = { maxDepth: DEFAULT_SCAN_DEPTH, truncated: false },
+): ComponentMatch | undefined {
+  const counts = new Map<string, number>()
+  const visited = new WeakSet<object>()
+  walkJson((item.data as Butter.Page).fields, slugSet, counts, visited, guard, 0)
+  if (counts.size === 0) return undefined
+
+  return {
+    usage: {
+      title: item.title,
+      slug: item.slug,
+      pageType: item.scope,
+      ...(item.locale ? { locale: item.locale } : {}),
+      status: item.status,
+    },
+    components: [...counts.keys()],
+  }
+}
+
+/** Page types are labelled by name alone, with the locale when there is one */
+function pageTypeLabel(scope: ContentScope): string {
+  return scope.locale ? `${scope.key} (${scope.locale})` : scope.key
+}
+
 /**
  * Audit component usage across selected page types.
  * Returns, for each known component, how many times it appears and on which pages.
@@ -81,6 +144,7 @@ export async function auditComponents(
   preview: boolean,
   selectedPageTypes: string[],
   knownComponents: string[],
+  options: FetchContentOptions = {},
 ): Promise<ComponentsResponse> {
   if (!token) {
     return { success: false, results: [], totalScanned: 0, error: 'No API token provided' }
@@ -104,62 +168,49 @@ export async function auditComponents(
     }
   }
 
-  const slugSet = new Set(knownComponents)
   // Map: componentSlug -> list of pages where it appears
   const usageMap = new Map<string, ComponentUsage[]>()
   for (const slug of knownComponents) {
     usageMap.set(slug, [])
   }
 
-  const failedScopes: string[] = []
-  let totalScanned = 0
-
-  // Fetch all page types concurrently
-  const fetchedPages: Array<{ pages: Butter.Page[]; pageType: string }> = []
-  await Promise.all(
-    selectedPageTypes.map(async (pageType) => {
-      try {
-        const pages = await getAllPages({ token, preview, pageType })
-        fetchedPages.push({ pages, pageType })
-      } catch {
-        failedScopes.push(pageType)
-      }
-    }),
+  // Expanded references nest components deeper, so look as deep as the reference levels reach
+  const maxDepth = scanDepthLimit(resolveRequestOptions(options.requestOptions).levels)
+  const {
+    results: matches,
+    scannedItems,
+    depthLimitedItems,
+    succeededScopes,
+    failedScopes,
+    failures,
+    incompleteScopes,
+    cancelledScopes,
+    scanCancelled,
+  } = await scanContent(
+    {
+      token,
+      preview,
+      scopes: { blog: false, pageTypes: selectedPageTypes, collectionKeys: [] },
+      ...options,
+    },
+    (items) => scanItems({ kind: 'components', components: knownComponents, maxDepth }, items),
   )
+  const cancelled = cancelledScopes.length > 0 || scanCancelled
 
-  // Process all pages sequentially with periodic main-thread yields to avoid
-  // blocking the UI during large crawls (walkJson is a deep recursive tree-walk)
-  let pageIndex = 0
-  for (const { pages, pageType } of fetchedPages) {
-    for (const page of pages) {
-      totalScanned++
-
-      const counts = new Map<string, number>()
-      const visited = new WeakSet<object>()
-      walkJson(page.fields, slugSet, counts, visited, 0)
-
-      if (counts.size > 0) {
-        const usage: ComponentUsage = {
-          title: (page as Butter.Page).name ?? page.slug,
-          slug: page.slug,
-          pageType,
-          status: page.status,
-        }
-
-        for (const [componentSlug, count] of counts.entries()) {
-          if (count > 0) {
-            const existingUsages = usageMap.get(componentSlug) ?? []
-            // Store one entry per page (the count per page is folded into a single entry)
-            existingUsages.push(usage)
-            usageMap.set(componentSlug, existingUsages)
-          }
-        }
-      }
+  if (cancelledScopes.length > 0 && succeededScopes.length === 0 && incompleteScopes.length === 0) {
+    return {
+      success: false,
+      results: [],
+      totalScanned: 0,
+      cancelled,
+      error: 'Analysis cancelled before any page type finished.',
+    }
+  }
 
-      // Yield to the main thread every 50 pages to avoid blocking during large crawls
-      if (++pageIndex % 50 === 0) {
-        await new Promise<void>((resolve) => setTimeout(resolve, 0))
-      }
+  // Store one entry per page (the count per page is folded into a single entry)
+  for (const { usage, components } of matches) {
+    for (const componentSlug of components) {
+      usageMap.get(componentSlug)?.push(usage)
     }
   }
 
@@ -178,7 +229,56 @@ export async function auditComponents(
   return {
     success: true,
     results,
-    totalScanned,
-    failedScopes: failedScopes.length > 0 ? failedScopes : undefined,
+    totalScanned: scannedItems,
+    failedScopes: failedScopes.length > 0 ? failedScopes.map(pageTypeLabel) : undefined,
+    failures: failures.length > 0 ? describeFailures(failures, pageTypeLabel) : undefined,
+    incompleteScopes: incompleteScopes.length > 0 ? incompleteScopes.map(pageTypeLabel) : undefined,
+    cancelled: cancelled || undefined,
+    depthLimitedItems: depthLimitedItems || undefined,
+  }
+}
+
+/**
+ * Merge the response from retrying failed page types into the response being shown, as if every
+ * page type had been analysed in one run: usages are combined per component and re-sorted by usage
+ * count. Page types that fail again stay listed as failed.
+ */
+export function mergeComponentsResponses(
+  previous: ComponentsResponse,
+  retry: ComponentsResponse,
+): ComponentsResponse {
+  if (!retry.success) {
+    return {
+      ...previous,
+      failedScopes: retry.failedScopes ?? previous.failedScopes,
+      failures: retry.failures ?? previous.failures,
+      incompleteScopes: retry.incompleteScopes,
+    }
+  }
+
+  const usagesBySlug = new Map<string, ComponentUsage[]>()
+  for (const result of [...previous.results, ...retry.results]) {
+    usagesBySlug.set(result.componentSlug, [
+      ...(usagesBySlug.get(result.componentSlug) ?? []),
+      ...result.usages,
+    ])
+  }
+  const results: ComponentResult[] = [...usagesBySlug].map(([componentSlug, usages]) => ({
+    componentSlug,
+    usageCount: usages.length,
+    usages,
+  }))
+  results.sort((a, b) => a.usageCount - b.usageCount)
+
+  return {
+    success: true,
+    results,
+    totalScanned: previous.totalScanned + retry.totalScanned,
+    depthLimitedItems:
+      (previous.depthLimitedItems ?? 0) + (retry.depthLimitedItems ?? 0) || undefined,
+    failedScopes: retry.failedScopes,
+    failures: retry.failures,
+    incompleteScopes: retry.incompleteScopes,
+    cancelled: previous.cancelled,
   }
 }
@@ -0,0 +1,13 @@
+import { runScanJob, type ScanReply, type ScanRequest } from './scanJobs'
+
+// Scanning engines run here so the page stays responsive while thousands of items are scanned
+addEventListener('message', (event: MessageEvent<ScanRequest>) => {
+  const { id, job, items } = event.data
+  let reply: ScanReply
+  try {
+    reply = { id, ...runScanJob(job, items) }
+  } catch (error) {
+    reply = { id, error: (error as Error).message }
+  }
+  postMessage(reply)
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { toContentItem } from '@/core/contentSource'
+import { runScanJob } from './scanJobs'
+
+const blog = { kind: 'post' as const, key: 'Blog' }
+const landingPage = { kind: 'page' as const, key: 'landing_page' }
+
+describe('runScanJob', () => {
+  it('should search each item, leaving a gap for items without matches', () => {
+    const items = [
+      toContentItem({ slug: 'match', body: 'Hello World' }, blog),
+      toContentItem({ slug: 'no-match', body: 'Goodbye' }, blog),
+    ]
+
+    const { results } = runScanJob({ kind: 'search', searchLower: 'hello', negate: false }, items)
+
+    expect(results).toHaveLength(2)
+    expect(results[0]).toMatchObject({ slug: 'match', sourceType: 'Blog' })
+    expect(results[1]).toBeUndefined()
+  })
+
+  it('should audit each item for HTML bloat', () => {
+    const items = [
+      toContentItem({ slug: 'word-paste', body: '<p style="mso-line-height: 1">Hi</p>' }, blog),
+      toContentItem({ slug: 'clean', body: '<p>Hi</p>' }, blog),
+    ]
+
+    const [wordPaste, clean] = runScanJob({ kind: 'audit' }, items).results
+
+    expect(wordPaste?.slug).toBe('word-paste')
+    expect(wordPaste?.issues.map((issue) => issue.pattern)).toContain('mso-')
+    expect(clean).toBeUndefined()
+  })
+
+  it('should find the known components on each page', () => {
+    const items = [
+      toContentItem(
+        { slug: 'home', fields: { hero_banner: {}, body: [{ type: 'faq' }] } },
+        landingPage,
+      ),
+      toContentItem({ slug: 'about', fields: {} }, landingPage),
+    ]
+
+    const [home, about] = runScanJob(
+      { kind: 'components', components: ['hero_banner', 'faq'] },
+      items,
+    ).results
+
+    expect(home).toEqual({
+      usage: { title: 'home', slug: 'home', pageType: 'landing_page', status: undefined },
+      components: ['hero_banner', 'faq'],
+    })
+    expect(about).toBeUndefined()
+  })
+
+  describe('Depth limit', () => {
+    // `levels` objects nested one inside another, with `text` at the bottom
+    const nested = (levels: number, text: string): unknown =>
+      levels === 0 ? text : { child: nested(levels - 1, text) }
+    const items = [
+      toContentItem({ slug: 'deep', body: nested(12, 'hello mso-') }, blog),
+      toContentItem({ slug: 'shallow', body: nested(2, 'hello mso-') }, blog),
+    ]
+
+    it('should count items with content nested deeper than the limit', () => {
+      const { results, depthLimited } = runScanJob(
+        { kind: 'search', searchLower: 'hello', negate: false, maxDepth: 6 },
+        items,
+      )
+
+      expect(results.map((result) => result?.slug)).toEqual([undefined, 'shallow'])
+      expect(depthLimited).toBe(1)
+    })
+
+    it('should scan everything within a deeper limit', () => {
+      const { results, depthLimited } = runScanJob({ kind: 'audit', maxDepth: 20 }, items)
+
+      expect(results.map((result) => result?.slug)).toEqual(['deep', 'shallow'])
+      expect(depthLimited).toBe(0)
+    })
+
+    it('should count pages whose components are nested deeper than the limit', () => {
+      const page = toContentItem(
+        { slug: 'home', fields: { sections: nested(8, 'x'), hero_banner: {} } },
+        landingPage,
+      )
+
+      const { results, depthLimited } = runScanJob(
+        { kind: 'components', components: ['hero_banner'], maxDepth: 4 },
+        [page],
+      )
+
+      expect(results[0]?.components).toEqual(['hero_banner'])
+      expect(depthLimited).toBe(1)
+    })
+
+    it('should not count content seen twice through a circular reference', () => {
+      const page: Record<string, unknown> = { title: 'hello' }
+      page.self = page
+
+      const { depthLimited } = runScanJob(
+        { kind: 'search', searchLower: 'hello', negate: false, maxDepth: 6 },
+        [toContentItem({ slug: 'circular', body: page }, blog)],
+      )
+
+      expect(depthLimited).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,96 @@
+import type { ContentItem, ScanBatch } from '@/core/contentSource'
+import { DEFAULT_SCAN_DEPTH } from '@/core/requestOptions'
+import { searchItem, type SearchResult } from './searchContent'
+import { auditItem, type AuditResult } from './audit'
+import { findComponentUsage, type ComponentMatch } from './components'
+
+/** Tracks how deep a scanner may walk one item's JSON, and whether it had to stop short */
+export interface DepthGuard {
+  /** Deepest nesting scanned, from `scanDepthLimit` for the reference levels */
+  maxDepth: number
+  /** Set once a subtree nested deeper than `maxDepth` was left unscanned */
+  truncated: boolean
+}
+
+/** A guard for scanning one item, `maxDepth` deep */
+function depthGuard(maxDepth = DEFAULT_SCAN_DEPTH): DepthGuard {
+  return { maxDepth, truncated: false }
+}
+
+/** What to look for in a batch of items. Jobs are plain data so they can be posted to a worker */
+export type ScanJob = {
+  /** Deepest JSON nesting to scan, from the reference levels. Defaults to the most levels */
+  maxDepth?: number
+} & (
+  | {
+      kind: 'search'
+      /** Normalised, lowercased search term */
+      searchLower: string
+      negate: boolean
+    }
+  | { kind: 'audit' }
+  | {
+      kind: 'components'
+      /** Known component slugs to look for */
+      components: string[]
+    }
+)
+
+/** The result each kind of job produces for a matching item */
+export interface ScanResultMap {
+  search: SearchResult
+  audit: AuditResult
+  components: ComponentMatch
+}
+
+export type ScanResult<Job extends ScanJob> = ScanResultMap[Job['kind']]
+
+/** Message posted to the scan worker */
+export interface ScanRequest {
+  /** Echoed back in the reply so concurrent scans can be told apart */
+  id: number
+  job: ScanJob
+  items: ContentItem[]
+}
+
+/** Message posted back by the scan worker, exactly one per request */
+export type ScanReply =
+  | ({ id: number } & ScanBatch<ScanResultMap[ScanJob['kind']]>)
+  | { id: number; error: string }
+
+/**
+ * Run `job` over `items`, returning a result (or `undefined`) for each item in order and how many
+ * items hit the depth limit
+ */
+export function runScanJob<Job extends ScanJob>(
+  job: Job,
+  items: ContentItem[],
+): ScanBatch<ScanResult<Job>> {
+  const scanJob: ScanJob = job
+  let depthLimited = 0
+  const guarded = <Result>(scan: (item: ContentItem, guard: DepthGuard) => Result) =>
+    items.map((item) => {
+      const guard = depthGuard(scanJob.maxDepth)
+      const result = scan(item, guard)
+      if (guard.truncated) depthLimited++
+      return result
+    })
+
+  let results: Array<ScanResultMap[ScanJob['kind']] | undefined>
+  switch (scanJob.kind) {
+    case 'search':
+      results = guarded((item, guard) =>
+        searchItem(item, scanJob.searchLower, scanJob.negate, guard),
+      )
+      break
+    case 'audit':
+      results = guarded((item, guard) => auditItem(item, guard))
+      break
+    case 'components': {
+      const slugSet = new Set(scanJob.components)
+      results = guarded((item, guard) => findComponentUsage(item, slugSet, guard))
+      break
+    }
+  }
+  return { results: results as Array<ScanResult<Job> | undefined>, depthLimited }
+}
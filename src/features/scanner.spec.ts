@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { toContentItem } from '@/core/contentSource'
+import { runScanJob, type ScanReply, type ScanRequest } from './scanJobs'
+
+const blog = { kind: 'post' as const, key: 'Blog' }
+const items = [
+  toContentItem({ slug: 'match', body: 'Hello World' }, blog),
+  toContentItem({ slug: 'no-match', body: 'Goodbye' }, blog),
+]
+const job = { kind: 'search' as const, searchLower: 'hello', negate: false }
+
+/** Stands in for the scan worker, replying to each request on a later tick */
+class FakeWorker {
+  static instances: FakeWorker[] = []
+  requests: ScanRequest[] = []
+  terminated = false
+  reply: (request: ScanRequest) => ScanReply = ({ id, job, items }) => ({
+    id,
+    ...runScanJob(job, items),
+  })
+  private listeners: Record<string, Array<(event: unknown) => void>> = {}
+
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: (event: unknown) => void) {
+    ;(this.listeners[type] ??= []).push(listener)
+  }
+
+  postMessage(request: ScanRequest) {
+    this.requests.push(request)
+    setTimeout(() => this.emit('message', { data: this.reply(request) }))
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  emit(type: string, event: unknown) {
+    this.listeners[type]?.forEach((listener) => listener(event))
+  }
+}
+
+// The scanner keeps one worker per module instance, so each test loads a fresh copy
+async function loadScanner() {
+  vi.resetModules()
+  return import('./scanner')
+}
+
+describe('scanItems', () => {
+  beforeEach(() => {
+    FakeWorker.instances = []
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should scan on the main thread when workers are unavailable', async () => {
+    const { scanItems } = await loadScanner()
+
+    const { results, depthLimited } = await scanItems(job, items)
+
+    expect(results[0]).toMatchObject({ slug: 'match' })
+    expect(results[1]).toBeUndefined()
+    expect(depthLimited).toBe(0)
+  })
+
+  it('should scan in a single worker and match replies to requests', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const { scanItems } = await loadScanner()
+
+    const [first, second] = await Promise.all([
+      scanItems(job, [items[0]!]),
+      scanItems(job, [items[1]!]),
+    ])
+
+    expect(FakeWorker.instances).toHaveLength(1)
+    expect(FakeWorker.instances[0]!.requests.map((request) => request.id)).toEqual([0, 1])
+    expect(first.results[0]).toMatchObject({ slug: 'match' })
+    expect(second).toEqual({ results: [undefined], depthLimited: 0 })
+  })
+
+  it('should pass on how many items the worker found hit the depth limit', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const { scanItems } = await loadScanner()
+    const scan = scanItems(job, items)
+    FakeWorker.instances[0]!.reply = ({ id }) => ({ id, results: [undefined], depthLimited: 1 })
+
+    expect(await scan).toEqual({ results: [undefined], depthLimited: 1 })
+  })
+
+  it('should reject with the error the worker reports', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const { scanItems } = await loadScanner()
+    const scan = scanItems(job, items)
+    FakeWorker.instances[0]!.reply = ({ id }) => ({ id, error: 'Maximum call stack exceeded' })
+
+    await expect(scan).rejects.toThrow('Maximum call stack exceeded')
+  })
+
+  it('should redo stranded scans on the main thread when the worker fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.stubGlobal('Worker', FakeWorker)
+    const { scanItems } = await loadScanner()
+    const scan = scanItems(job, items)
+    const worker = FakeWorker.instances[0]!
+
+    worker.emit('error', { message: 'Failed to load worker script' })
+
+    expect((await scan).results[0]).toMatchObject({ slug: 'match' })
+    expect(worker.terminated).toBe(true)
+    await scanItems(job, items)
+    expect(FakeWorker.instances).toHaveLength(1)
+  })
+
+  it('should scan on the main thread when the worker cannot be started', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.stubGlobal(
+      'Worker',
+      class {
+        constructor() {
+          throw new Error('Blocked by content security policy')
+        }
+      },
+    )
+    const { scanItems } = await loadScanner()
+
+    const { results } = await scanItems(job, items)
+
+    expect(results[0]).toMatchObject({ slug: 'match' })
+  })
+})
@@ -0,0 +1,85 @@
+import type { ContentItem, ScanBatch } from '@/core/contentSource'
+import type { ScanJob, ScanReply, ScanRequest, ScanResult } from './scanJobs'
+
+interface PendingScan {
+  job: ScanJob
+  items: ContentItem[]
+  resolve: (batch: ScanBatch<unknown>) => void
+  reject: (error: Error) => void
+}
+
+let worker: Worker | null = null
+// Set once the worker fails to start or crashes, after which scanning stays on the main thread
+let workerUnavailable = false
+let nextId = 0
+const pending = new Map<number, PendingScan>()
+
+async function scanOnMainThread<Job extends ScanJob>(
+  job: Job,
+  items: ContentItem[],
+): Promise<ScanBatch<ScanResult<Job>>> {
+  const { runScanJob } = await import('./scanJobs')
+  return runScanJob(job, items)
+}
+
+function handleReply(event: MessageEvent<ScanReply>) {
+  const reply = event.data
+  const scan = pending.get(reply.id)
+  if (!scan) return
+  pending.delete(reply.id)
+  if ('error' in reply) scan.reject(new Error(reply.error))
+  else scan.resolve({ results: reply.results, depthLimited: reply.depthLimited })
+}
+
+function handleWorkerError(event: ErrorEvent) {
+  console.error('Scan worker failed, scanning on the main thread instead:', event.message)
+  workerUnavailable = true
+  worker?.terminate()
+  worker = null
+  // Nothing is lost: scans still waiting on the worker are redone here
+  const stranded = [...pending.values()]
+  pending.clear()
+  for (const { job, items, resolve, reject } of stranded) {
+    scanOnMainThread(job, items).then(resolve, reject)
+  }
+}
+
+function getWorker(): Worker | null {
+  if (workerUnavailable || typeof Worker === 'undefined') return null
+  if (!worker) {
+    try {
+      worker = new Worker(new URL('./scan.worker.ts', import.meta.url), { type: 'module' })
+    } catch (error) {
+      console.error('Could not start the scan worker, scanning on the main thread instead:', error)
+      workerUnavailable = true
+      return null
+    }
+    worker.addEventListener('message', handleReply)
+    worker.addEventListener('error', handleWorkerError)
+  }
+  return worker
+}
+
+/**
+ * Scan `items` with `job` in the scan worker, resolving with a result (or `undefined`) for each
+ * item in order and how many items hit the depth limit. Falls back to scanning on the main thread
+ * where workers are unavailable.
+ */
+export function scanItems<Job extends ScanJob>(
+  job: Job,
+  items: ContentItem[],
+): Promise<ScanBatch<ScanResult<Job>>> {
+  const scanWorker = getWorker()
+  if (!scanWorker) return scanOnMainThread(job, items)
+
+  const id = nextId++
+  return new Promise((resolve, reject) => {
+    pending.set(id, {
+      job,
+      items,
+      resolve: resolve as (batch: ScanBatch<unknown>) => void,
+      reject,
+    })
+    scanWorker.postMessage({ id, job, items } satisfies ScanRequest)
+  })
+}
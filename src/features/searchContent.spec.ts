@@ -1,14 +1,17 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { searchContent } from './searchContent'
+import { ButterApiError } from '@/core/errors'
+import { mergeSearchResponses, searchContent, type SearchResponse } from './searchContent'
 
 const {
   getAllPages: mockGetAllPages,
   getAllPosts: mockGetAllPosts,
   getAllCollections: mockGetAllCollections,
+  searchPosts: mockSearchPosts,
 } = vi.hoisted(() => ({
   getAllPages: vi.fn(),
   getAllPosts: vi.fn(),
   getAllCollections: vi.fn(),
+  searchPosts: vi.fn(),
 }))
 
 vi.mock('@/core/pages', () => ({
@@ -17,6 +20,7 @@ vi.mock('@/core/pages', () => ({
 
 vi.mock('@/core/posts', () => ({
   getAllPosts: mockGetAllPosts,
+  searchPosts: mockSearchPosts,
 }))
 
 vi.mock('@/core/collections', () => ({
@@ -29,6 +33,7 @@ describe('searchContent', () => {
     mockGetAllPages.mockReset()
     mockGetAllPosts.mockReset()
     mockGetAllCollections.mockReset()
+    mockSearchPosts.mockReset()
   })
 
   afterEach(() => {
@@ -84,6 +89,42 @@ describe('searchContent', () => {
     })
   })
 
+  describe('Depth limit', () => {
+    // `levels` objects nested one inside another, with `text` at the bottom
+    const nested = (levels: number, text: string): unknown =>
+      levels === 0 ? text : { reference: nested(levels - 1, text) }
+
+    beforeEach(() => {
+      mockGetAllPages.mockResolvedValue([
+        { slug: 'deep', page_type: 'landing_page', fields: nested(16, 'needle') },
+        { slug: 'shallow', page_type: 'landing_page', fields: nested(2, 'needle') },
+      ])
+    })
+
+    it('should search as deep as the reference levels reach', async () => {
+      const result = await searchContent('needle', 'test-token', false, ['landing_page'], [], false)
+
+      expect(result.results.map((r) => r.slug)).toEqual(['deep', 'shallow'])
+      expect(result.depthLimitedItems).toBeUndefined()
+    })
+
+    it('should report items with content nested deeper than fewer levels reach', async () => {
+      const result = await searchContent(
+        'needle',
+        'test-token',
+        false,
+        ['landing_page'],
+        [],
+        false,
+        false,
+        { requestOptions: { levels: 1 } },
+      )
+
+      expect(result.results.map((r) => r.slug)).toEqual(['shallow'])
+      expect(result.depthLimitedItems).toBe(1)
+    })
+  })
+
   describe('Blog scope', () => {
     it('should search blog', async () => {
       mockGetAllPages.mockImplementation(async () => [])
@@ -105,6 +146,144 @@ describe('searchContent', () => {
     })
   })
 
+  describe('Server search', () => {
+    const post = (slug: string, body: string) => ({ slug, title: slug, body, status: 'published' })
+
+    it('should only check the posts returned by the search endpoint', async () => {
+      mockSearchPosts.mockResolvedValue([
+        post('headless-guide', '<p>Going headless</p>'),
+        // Butter matched a stemmed form the term itself does not contain
+        post('heads-up', '<p>Heads up</p>'),
+      ])
+      mockGetAllPages.mockResolvedValue([{ slug: 'home', fields: { body: 'headless' } }])
+
+      const result = await searchContent(
+        'headless',
+        'test-token',
+        false,
+        ['landing_page'],
+        [],
+        true,
+        false,
+        { wholeWords: true, locales: ['en', 'fr'] },
+      )
+
+      expect(mockGetAllPosts).not.toHaveBeenCalled()
+      expect(mockSearchPosts).toHaveBeenCalledWith(
+        expect.objectContaining({ token: 'test-token', query: 'headless', locale: 'fr' }),
+      )
+      expect(result.blogSearchMode).toBe('server')
+      expect(result.serverSearchFallback).toBeUndefined()
+      expect(result.results.map(({ slug, locale }) => [slug, locale])).toEqual([
+        ['headless-guide', 'en'],
+        ['headless-guide', 'fr'],
+        ['home', 'en'],
+        ['home', 'fr'],
+      ])
+      expect(result.results[0]!.matches.map((match) => match.path)).toEqual([
+        'slug',
+        'title',
+        'body',
+      ])
+      expect(result.totalItems).toBe(6)
+    })
+
+    it.each([
+      ['negated', 'headless', true, false, 'excluding matches needs every post'],
+      ['with preview', 'headless', false, true, 'only covers published posts'],
+      ['with punctuation', 'mso-', false, false, 'matches whole words'],
+    ])('should scan the blog in full when %s', async (_, term, negate, preview, reason) => {
+      mockGetAllPosts.mockResolvedValue([post('hello', 'hello')])
+
+      const result = await searchContent(term, 'test-token', preview, [], [], true, negate, {
+        wholeWords: true,
+      })
+
+      expect(mockSearchPosts).not.toHaveBeenCalled()
+      expect(mockGetAllPosts).toHaveBeenCalledOnce()
+      expect(result.blogSearchMode).toBe('scan')
+      expect(result.serverSearchFallback).toContain(reason)
+    })
+
+    it('should scan the blog in full when the search endpoint fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      mockSearchPosts.mockRejectedValue(
+        new ButterApiError('HTTP 404', { status: 404, url: 'search', attempts: 1 }),
+      )
+      mockGetAllPosts.mockResolvedValue([post('headless-guide', 'headless')])
+
+      const result = await searchContent('headless', 'test-token', false, [], [], true, false, {
+        wholeWords: true,
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.results).toHaveLength(1)
+      expect(result.blogSearchMode).toBe('scan')
+      expect(result.serverSearchFallback).toContain('the search endpoint failed')
+    })
+
+    it('should scan the other scopes while the search endpoint is searched', async () => {
+      let finishSearch!: (posts: unknown[]) => void
+      mockSearchPosts.mockReturnValue(new Promise((resolve) => (finishSearch = resolve)))
+      mockGetAllPages.mockResolvedValue([{ slug: 'home', fields: { body: 'headless' } }])
+      const onResults = vi.fn()
+
+      const searching = searchContent(
+        'headless',
+        'test-token',
+        false,
+        ['landing_page'],
+        [],
+        true,
+        false,
+        { wholeWords: true, onResults },
+      )
+      await vi.waitFor(() => expect(onResults).toHaveBeenCalled())
+      expect(onResults).toHaveBeenLastCalledWith([expect.objectContaining({ slug: 'home' })])
+
+      finishSearch([post('headless-guide', 'headless')])
+      const result = await searching
+
+      expect(onResults).toHaveBeenLastCalledWith([
+        expect.objectContaining({ slug: 'headless-guide' }),
+        expect.objectContaining({ slug: 'home' }),
+      ])
+      expect(result.results.map(({ slug }) => slug)).toEqual(['headless-guide', 'home'])
+      expect(result.totalItems).toBe(2)
+    })
+
+    it('should keep the other scopes when cancelled during the server search', async () => {
+      mockSearchPosts.mockRejectedValue(new DOMException('Aborted', 'AbortError'))
+      mockGetAllPages.mockResolvedValue([{ slug: 'home', fields: { body: 'headless' } }])
+
+      const result = await searchContent(
+        'headless',
+        'test-token',
+        false,
+        ['landing_page'],
+        [],
+        true,
+        false,
+        { wholeWords: true },
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.cancelled).toBe(true)
+      expect(result.results.map(({ slug }) => slug)).toEqual(['home'])
+    })
+
+    it('should scan every post unless whole words were asked for', async () => {
+      mockGetAllPosts.mockResolvedValue([post('terms', '<p>Not illegally copied</p>')])
+
+      const result = await searchContent('legal', 'test-token', false, [], [], true)
+
+      expect(mockSearchPosts).not.toHaveBeenCalled()
+      expect(result.results.map(({ slug }) => slug)).toEqual(['terms'])
+      expect(result.blogSearchMode).toBe('scan')
+      expect(result.serverSearchFallback).toBeUndefined()
+    })
+  })
+
   describe('Collections scope', () => {
     it('should search collections', async () => {
       mockGetAllPages.mockImplementation(async () => [])
@@ -177,6 +356,13 @@ describe('searchContent', () => {
       expect(result.results).toHaveLength(1)
       expect(result.results[0]!.sourceType).toBe('Blog')
       expect(result.failedScopes).toEqual(['Page Type: landing_page'])
+      expect(result.failures).toEqual([
+        {
+          scope: { kind: 'page', key: 'landing_page' },
+          label: 'Page Type: landing_page',
+          reason: 'network error',
+        },
+      ])
 
       // Should log the error
       expect(consoleErrorSpy).toHaveBeenCalledWith(
@@ -187,6 +373,27 @@ describe('searchContent', () => {
       consoleErrorSpy.mockRestore()
     })
 
+    it('should search the pages fetched before a mid-pagination failure', async () => {
+      mockGetAllCollections.mockRejectedValueOnce(
+        new ButterApiError('Failed to fetch collection recipes: HTTP 503', {
+          status: 503,
+          url: null,
+          attempts: 3,
+          scope: { kind: 'collection', key: 'recipes' },
+          partial: { items: [{ slug: 'soup', body: 'test soup' }], resumePage: 37 },
+        }),
+      )
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await searchContent('test', 'test-token', false, [], ['recipes'], false)
+
+      expect(result.success).toBe(true)
+      expect(result.results.map((r) => r.slug)).toEqual(['soup'])
+      expect(result.failedScopes).toEqual(['Collection: recipes'])
+      expect(result.incompleteScopes).toEqual(['Collection: recipes'])
+      expect(result.failures![0]!.resumePage).toBe(37)
+    })
+
     it('should fail completely when all scopes fail', async () => {
       mockGetAllPages.mockRejectedValueOnce(new Error('API Error'))
       mockGetAllPosts.mockImplementation(async () => [])
@@ -200,12 +407,96 @@ describe('searchContent', () => {
       expect(result.success).toBe(false)
       expect(result.results).toHaveLength(0)
       expect(result.failedScopes).toEqual(['Page Type: landing_page'])
-      expect(result.error).toBe('Failed to fetch all selected scopes. Check console for details.')
+      expect(result.error).toBe(
+        'Failed to fetch all selected scopes. See the request log for details.',
+      )
 
       consoleErrorSpy.mockRestore()
     })
   })
 
+  describe('Progress', () => {
+    it('should report scanning progress after fetching each scope', async () => {
+      const onProgress = vi.fn()
+      mockGetAllPosts.mockResolvedValueOnce([{ slug: 'post-1', title: 'Test Post' }])
+
+      await searchContent('Test', 'test-token', false, [], [], true, false, { onProgress })
+
+      const phases = onProgress.mock.calls.map(([progress]) => progress.phase)
+      expect(phases.indexOf('scanning')).toBeGreaterThan(phases.lastIndexOf('fetching'))
+      expect(onProgress).toHaveBeenLastCalledWith({
+        scope: { kind: 'post', key: 'Blog' },
+        phase: 'scanning',
+        fetched: 1,
+        total: 1,
+      })
+    })
+  })
+
+  describe('Streaming', () => {
+    it('should report matches from each page as it arrives and sort them at the end', async () => {
+      const onResults = vi.fn()
+      mockGetAllPosts.mockImplementationOnce(async (config) => {
+        config.onPage([{ slug: 'zulu', body: 'test' }])
+        await vi.waitFor(() =>
+          expect(onResults).toHaveBeenLastCalledWith([expect.objectContaining({ slug: 'zulu' })]),
+        )
+        config.onPage([
+          { slug: 'alpha', body: 'test' },
+          { slug: 'mike', body: 'no match' },
+        ])
+        return []
+      })
+
+      const result = await searchContent('test', 'test-token', false, [], [], true, false, {
+        onResults,
+      })
+
+      expect(onResults).toHaveBeenCalledTimes(2)
+      expect(result.results.map((r) => r.slug)).toEqual(['alpha', 'zulu'])
+      expect(result.totalItems).toBe(3)
+    })
+  })
+
+  describe('Cancellation', () => {
+    const abortError = () => new DOMException('The operation was aborted.', 'AbortError')
+
+    it('should keep results from scopes that finished before cancelling', async () => {
+      mockGetAllPages.mockRejectedValueOnce(abortError())
+      mockGetAllPosts.mockResolvedValueOnce([{ slug: 'post-1', title: 'Test Post' }])
+
+      const result = await searchContent('Test', 'test-token', false, ['landing_page'], [], true)
+
+      expect(result.success).toBe(true)
+      expect(result.cancelled).toBe(true)
+      expect(result.results).toHaveLength(1)
+      expect(result.failedScopes).toBeUndefined()
+    })
+
+    it('should report cancellation rather than failure when no scope finished', async () => {
+      mockGetAllPages.mockRejectedValueOnce(abortError())
+
+      const result = await searchContent('Test', 'test-token', false, ['landing_page'], [], false)
+
+      expect(result.success).toBe(false)
+      expect(result.cancelled).toBe(true)
+      expect(result.error).toBe('Search cancelled before any scope finished.')
+    })
+
+    it('should forward the signal to the content source', async () => {
+      const controller = new AbortController()
+      mockGetAllPages.mockResolvedValueOnce([])
+
+      await searchContent('Test', 'test-token', false, ['landing_page'], [], false, false, {
+        signal: controller.signal,
+      })
+
+      expect(mockGetAllPages).toHaveBeenCalledWith(
+        expect.objectContaining({ signal: controller.signal }),
+      )
+    })
+  })
+
   describe('Multiple matches in single field', () => {
     it('should handle multiple occurrences of search term in same field', async () => {
       mockGetAllPages.mockImplementation(async () => [
@@ -690,3 +981,69 @@ describe('searchContent', () => {
     })
   })
 })
+
+describe('mergeSearchResponses', () => {
+  const result = (slug: string) => ({ title: slug, slug, matches: [] })
+  const landingPageFailure = {
+    scope: { kind: 'page' as const, key: 'landing_page' },
+    label: 'Page Type: landing_page',
+    reason: 'network error',
+  }
+  const previous: SearchResponse = {
+    success: true,
+    results: [result('alpha'), result('charlie')],
+    totalItems: 2,
+    failedScopes: ['Page Type: landing_page'],
+    failures: [landingPageFailure],
+  }
+
+  it('should add retried results in slug order and recount the items searched', () => {
+    const merged = mergeSearchResponses(previous, {
+      success: true,
+      results: [result('bravo')],
+      totalItems: 5,
+      failedScopes: [],
+      failures: [],
+    })
+
+    expect(merged.results.map((r) => r.slug)).toEqual(['alpha', 'bravo', 'charlie'])
+    expect(merged.totalItems).toBe(7)
+    expect(merged.failedScopes).toEqual([])
+    expect(merged.failures).toEqual([])
+  })
+
+  it('should keep existing results when every retried scope fails again', () => {
+    const failure = { ...landingPageFailure, reason: 'token rejected (401)' }
+    const merged = mergeSearchResponses(previous, {
+      success: false,
+      results: [],
+      totalItems: null,
+      failedScopes: ['Page Type: landing_page'],
+      failures: [failure],
+      error: 'Failed to fetch from all selected scopes',
+    })
+
+    expect(merged.success).toBe(true)
+    expect(merged.results).toEqual(previous.results)
+    expect(merged.totalItems).toBe(2)
+    expect(merged.failures).toEqual([failure])
+  })
+
+  it('should add up the items that hit the depth limit in both runs', () => {
+    const merged = mergeSearchResponses(
+      { ...previous, depthLimitedItems: 2 },
+      { success: true, results: [], totalItems: 1, depthLimitedItems: 1 },
+    )
+
+    expect(merged.depthLimitedItems).toBe(3)
+  })
+
+  it('should keep how the blog was searched in the first run', () => {
+    const merged = mergeSearchResponses(
+      { ...previous, blogSearchMode: 'server' },
+      { success: true, results: [], totalItems: 1 },
+    )
+
+    expect(merged.blogSearchMode).toBe('server')
+  })
+})
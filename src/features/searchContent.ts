@@ -1,27 +1,74 @@
-import { getAllPages } from '@/core/pages'
-import { getAllPosts } from '@/core/posts'
-import { getAllCollections } from '@/core/collections'
+import {
+  describeFailures,
+  scanContent,
+  scopeLabel,
+  toContentItem,
+  withLocales,
+  type BlogMetadataSelection,
+  type ContentItem,
+  type ContentScope,
+  type ContentScopeSelection,
+  type FailureReason,
+  type ScanContentOptions,
+  type ScanContentResult,
+} from '@/core/contentSource'
+import { isAbortError } from '@/core/fetch'
+import { ButterApiError } from '@/core/errors'
+import { searchPosts } from '@/core/posts'
+import { DEFAULT_SCAN_DEPTH, resolveRequestOptions, scanDepthLimit } from '@/core/requestOptions'
 import { normalizeWhitespace, createContextSnippet } from '@/utils/textNormalization'
+import { scanItems } from './scanner'
+import type { DepthGuard } from './scanJobs'
 
-function toStatus(val: unknown): 'published' | 'draft' | 'scheduled' | undefined {
-  if (val === 'published' || val === 'draft' || val === 'scheduled') return val
-  return undefined
+export interface SearchResult {
+  title: string
+  slug: string
+  sourceType?: string
+  /** Locale the item was found in, unless it is the default locale */
+  locale?: string
+  status?: 'published' | 'draft' | 'scheduled'
+  matches: Array<{ path: string; value: string; count: number }>
 }
 
-interface SearchResponse {
+/**
+ * How the blog was searched: `server` when Butter's search endpoint chose the posts to check,
+ * `scan` when every post was fetched and checked
+ */
+export type BlogSearchMode = 'server' | 'scan'
+
+export interface SearchResponse {
   success: boolean
-  results: Array<{
-    title: string
-    slug: string
-    sourceType?: string
-    status?: 'published' | 'draft' | 'scheduled'
-    matches: Array<{ path: string; value: string; count: number }>
-  }>
+  results: SearchResult[]
   totalItems: number | null
   failedScopes?: string[]
+  /** Why each failed scope could not be fetched, labelled as in `failedScopes` */
+  failures?: FailureReason[]
+  /** Failed scopes whose results only cover the pages fetched before the failure */
+  incompleteScopes?: string[]
+  /** Set when the search was cancelled. Results only cover scopes that finished beforehand */
+  cancelled?: boolean
+  /**
+   * Items with content nested deeper than the reference levels reach, which was not searched.
+   * Unset when every item was searched in full
+   */
+  depthLimitedItems?: number
+  /** How the blog was searched. Unset when the blog was not searched */
+  blogSearchMode?: BlogSearchMode
+  /** Why the blog was scanned in full even though `wholeWords` was asked for */
+  serverSearchFallback?: string
   error?: string
 }
 
+export interface SearchContentOptions
+  extends ScanContentOptions<SearchResult>, BlogMetadataSelection {
+  /**
+   * Opt into matching whole words in the blog, which lets Butter's search endpoint pick the posts
+   * to check when it can express the search. Without it every post is scanned, so a term inside a
+   * longer word (e.g. "legal" in "illegal") is found. Retries of failed scopes always scan.
+   */
+  wholeWords?: boolean
+}
+
 interface MatchAccumulator {
   path: string
   snippets: string[]
@@ -31,17 +78,21 @@ interface MatchAccumulator {
 function searchObject(
   obj: unknown,
   searchLower: string,
+  guard: DepthGuard,
   path = '',
   depth = 0,
   visited = new WeakSet(),
 ): Map<string, MatchAccumulator> {
   const matchMap = new Map<string, MatchAccumulator>()
 
-  // Guard against excessive depth and circular references
-  if (depth > 10) return matchMap
   if (obj === null || obj === undefined) return matchMap
+  // Guard against excessive depth, noting that this subtree went unsearched
+  if (depth > guard.maxDepth) {
+    guard.truncated = true
+    return matchMap
+  }
 
-  // Prevent circular reference issues
+  // Prevent circular reference issues. Objects already searched are not a truncation
   if (typeof obj === 'object' && !Array.isArray(obj)) {
     if (visited.has(obj as object)) return matchMap
     visited.add(obj as object)
@@ -86,7 +137,14 @@ function searchObject(
     }
   } else if (Array.isArray(obj)) {
     obj.forEach((item, index) => {
-      const nestedMatches = searchObject(item, searchLower, `${path}[${index}]`, depth + 1, visited)
+      const nestedMatches = searchObject(
+        item,
+        searchLower,
+        guard,
+        `${path}[${index}]`,
+        depth + 1,
+        visited,
+      )
       nestedMatches.forEach((value, key) => {
         matchMap.set(key, value)
       })
@@ -96,6 +154,7 @@ function searchObject(
       const nestedMatches = searchObject(
         value,
         searchLower,
+        guard,
         path ? `${path}.${key}` : key,
         depth + 1,
         visited,
@@ -109,6 +168,163 @@ function searchObject(
   return matchMap
 }
 
+/**
+ * Search one item for `searchLower`, returning its result or `undefined` to leave it out. Runs in
+ * the scan worker
+ */
+export function searchItem(
+  item: ContentItem,
+  searchLower: string,
+  negate: boolean,
+  guard: DepthGuard = { maxDepth: DEFAULT_SCAN_DEPTH, truncated: false },
+): SearchResult | undefined {
+  const matchMap = searchObject(item.data, searchLower, guard)
+  const hasMatches = matchMap.size > 0
+
+  // When negating: include items WITHOUT matches. When not negating: include items WITH matches
+  if (hasMatches !== !negate) return undefined
+
+  // When negating, we don't show any matches since we're looking for items that DON'T contain the term
+  if (negate) {
+    return {
+      title: item.title,
+      slug: item.slug,
+      sourceType: item.scope,
+      ...(item.locale ? { locale: item.locale } : {}),
+      status: item.status,
+      matches: [],
+    }
+  }
+
+  // Convert map to array of matches
+  const matches = Array.from(matchMap.values()).map((acc) => {
+    // For multiple occurrences, show count in path and use first snippet
+    if (acc.count > 1) {
+      return {
+        path: `${acc.path} (${acc.count} occurrences)`,
+        value: acc.snippets[0] || '',
+        count: acc.count,
+      }
+    }
+    // For single occurrence, return as-is
+    return {
+      path: acc.path,
+      value: acc.snippets[0] || '',
+      count: acc.count,
+    }
+  })
+
+  const validMatches = matches.filter((m) => m.value && m.value.trim().length > 0)
+  if (validMatches.length === 0) return undefined
+
+  return {
+    title: item.title,
+    slug: item.slug,
+    sourceType: item.scope,
+    ...(item.locale ? { locale: item.locale } : {}),
+    status: item.status,
+    matches: validMatches,
+  }
+}
+
+/**
+ * Why Butter's search endpoint cannot stand in for a whole-word scan of the blog, or `undefined`
+ * when it can. The endpoint only returns published posts, and only matches words.
+ */
+function serverSearchFallbackReason(
+  term: string,
+  negate: boolean,
+  preview: boolean,
+): string | undefined {
+  if (negate) return 'excluding matches needs every post'
+  if (preview) return 'the search endpoint only covers published posts, not drafts or scheduled'
+  if (!/^[\p{L}\p{N}]+(?:\s+[\p{L}\p{N}]+)*$/u.test(term)) {
+    return 'the search endpoint matches whole words, not punctuation or symbols'
+  }
+  return undefined
+}
+
+const BLOG_SCOPE: ContentScope = { kind: 'post', key: 'Blog' }
+
+/** The outcome of searching scopes without {@link scanContent}, nothing found unless given */
+function searchOutcome(
+  outcome: Partial<ScanContentResult<SearchResult>>,
+): ScanContentResult<SearchResult> {
+  return {
+    results: [],
+    scannedItems: 0,
+    depthLimitedItems: 0,
+    scanCancelled: false,
+    succeededScopes: [],
+    failedScopes: [],
+    failures: [],
+    incompleteScopes: [],
+    cancelledScopes: [],
+    ...outcome,
+  }
+}
+
+/**
+ * Search the blog in each locale with Butter's search endpoint, checking only the posts it returns.
+ * They go through the same matcher as a full scan, so match paths and snippets are the same, and
+ * the outcome is reported as if the blog had been scanned.
+ */
+async function searchBlogOnServer(
+  term: string,
+  searchLower: string,
+  token: string,
+  maxDepth: number,
+  { locales, signal, requestOptions, onProgress }: ScanContentOptions<SearchResult>,
+): Promise<ScanContentResult<SearchResult>> {
+  const scopes = withLocales([BLOG_SCOPE], locales)
+  const results: SearchResult[] = []
+  let scannedItems = 0
+  let depthLimitedItems = 0
+  for (const scope of scopes) {
+    const posts = await searchPosts({
+      token,
+      query: term,
+      signal,
+      requestOptions,
+      locale: scope.locale,
+      onProgress: (progress) => onProgress?.({ scope, phase: 'fetching', ...progress }),
+    })
+    const items = posts.map((post) => toContentItem(post, scope))
+    const found = await scanItems({ kind: 'search', searchLower, negate: false, maxDepth }, items)
+    for (const result of found.results) {
+      if (result !== undefined) results.push(result)
+    }
+    scannedItems += items.length
+    depthLimitedItems += found.depthLimited
+    onProgress?.({ scope, phase: 'scanning', fetched: items.length, total: items.length })
+  }
+  return searchOutcome({ results, scannedItems, depthLimitedItems, succeededScopes: scopes })
+}
+
+/** Put together the outcomes of searching different scopes, as if they were searched in one run */
+function combineScans(
+  first: ScanContentResult<SearchResult>,
+  second: ScanContentResult<SearchResult>,
+): ScanContentResult<SearchResult> {
+  return {
+    results: [...first.results, ...second.results],
+    scannedItems: first.scannedItems + second.scannedItems,
+    depthLimitedItems: first.depthLimitedItems + second.depthLimitedItems,
+    scanCancelled: first.scanCancelled || second.scanCancelled,
+    succeededScopes: [...first.succeededScopes, ...second.succeededScopes],
+    failedScopes: [...first.failedScopes, ...second.failedScopes],
+    failures: [...first.failures, ...second.failures],
+    incompleteScopes: [...first.incompleteScopes, ...second.incompleteScopes],
+    cancelledScopes: [...first.cancelledScopes, ...second.cancelledScopes],
+  }
+}
+
+/**
+ * Search the selected scopes for `searchString`. Each page of content is searched as it arrives;
+ * pass `options.onResults` to show matches progressively. The final results are sorted by slug.
+ * `options.authors`, `options.categories` and `options.tags` add the blog's metadata to the scopes,
+ * and `options.wholeWords` lets Butter's search endpoint pick the blog posts to check.
+ */
 export async function searchContent(
   searchString: string,
   token: string,
@@ -117,6 +333,7 @@ export async function searchContent(
   selectedCollectionKeys: string[],
   includeBlog: boolean,
   negate: boolean = false,
+  options: SearchContentOptions = {},
 ): Promise<SearchResponse> {
   // Validate and normalize search input
   const trimmedSearch = searchString.trim()
@@ -129,7 +346,15 @@ export async function searchContent(
   }
 
   // Validate that at least one search scope is selected
-  if (!includeBlog && selectedPageTypes.length === 0 && selectedCollectionKeys.length === 0) {
+  const { authors, categories, tags, wholeWords, ...scanOptions } = options
+  if (
+    !includeBlog &&
+    !authors &&
+    !categories &&
+    !tags &&
+    selectedPageTypes.length === 0 &&
+    selectedCollectionKeys.length === 0
+  ) {
     return {
       success: false,
       results: [],
@@ -140,162 +365,165 @@ export async function searchContent(
 
   // Normalize and lowercase the search term once; searchObject receives it ready to use
   const searchLower = normalizeWhitespace(trimmedSearch).toLowerCase()
-
-  const failedScopes: string[] = []
-  let hasAnySuccessfulScope = false
+  // Expanded references nest content deeper, so search as deep as the reference levels reach
+  const maxDepth = scanDepthLimit(resolveRequestOptions(scanOptions.requestOptions).levels)
 
   try {
-    const searchResults: Array<{
-      title: string
-      slug: string
-      sourceType?: string
-      status?: 'published' | 'draft' | 'scheduled'
-      matches: Array<{ path: string; value: string; count: number }>
-    }> = []
-
-    // Build items with source type tracking
-    const itemsWithSource: Array<{ data: unknown; sourceType: string }> = []
-
-    // Fan-out all data fetches concurrently for maximum throughput
-    const fetchPromises: Promise<void>[] = []
-
-    // Search pages if any page types are selected
-    if (selectedPageTypes.length > 0) {
-      for (const pageType of selectedPageTypes) {
-        fetchPromises.push(
-          getAllPages({ token, pageType, preview })
-            .then((pages) => {
-              pages.forEach((page) => itemsWithSource.push({ data: page, sourceType: pageType }))
-              hasAnySuccessfulScope = true
-            })
-            .catch((error) => {
-              console.error(`Failed to fetch page type "${pageType}":`, error)
-              failedScopes.push(`Page Type: ${pageType}`)
-            }),
-        )
-      }
-    }
+    // The endpoint finds whole words only, so it is only asked when the user opted into that
+    const askedForServerSearch = wholeWords && includeBlog && !scanOptions.onlyScopeIds
+    let serverSearchFallback = askedForServerSearch
+      ? serverSearchFallbackReason(trimmedSearch, negate, preview)
+      : undefined
+    const searchOnServer = askedForServerSearch && !serverSearchFallback
 
-    // Search blog posts if enabled
-    if (includeBlog) {
-      fetchPromises.push(
-        getAllPosts({ token, preview })
-          .then((posts) => {
-            posts.forEach((post) => itemsWithSource.push({ data: post, sourceType: 'Blog' }))
-            hasAnySuccessfulScope = true
-          })
-          .catch((error) => {
-            console.error('Failed to fetch Blog posts:', error)
-            failedScopes.push('Blog')
-          }),
+    // Results found so far in the blog on its own and in every other scope, shown together
+    let blogFound: SearchResult[] = []
+    let othersFound: SearchResult[] = []
+    const showFound = () => scanOptions.onResults?.([...blogFound, ...othersFound])
+
+    const scan = (scopes: ContentScopeSelection, onFound: (found: SearchResult[]) => void) =>
+      scanContent<SearchResult>(
+        {
+          token,
+          preview,
+          scopes,
+          ...scanOptions,
+          onResults: (found) => {
+            onFound(found)
+            showFound()
+          },
+        },
+        (items) => scanItems({ kind: 'search', searchLower, negate, maxDepth }, items),
       )
-    }
 
-    // Search collections if any collection keys are selected
-    if (selectedCollectionKeys.length > 0) {
-      for (const collectionKey of selectedCollectionKeys) {
-        fetchPromises.push(
-          getAllCollections({ token, collectionType: collectionKey, preview })
-            .then((collections) => {
-              collections.forEach((collection) =>
-                itemsWithSource.push({ data: collection, sourceType: collectionKey }),
-              )
-              hasAnySuccessfulScope = true
-            })
-            .catch((error) => {
-              console.error(`Failed to fetch collection "${collectionKey}":`, error)
-              failedScopes.push(`Collection: ${collectionKey}`)
-            }),
+    // Scan the blog in full instead if the search endpoint fails. Aborting cancels the blog
+    const searchBlog = async (): Promise<ScanContentResult<SearchResult>> => {
+      try {
+        const blog = await searchBlogOnServer(
+          trimmedSearch,
+          searchLower,
+          token,
+          maxDepth,
+          scanOptions,
         )
+        blogFound = blog.results
+        showFound()
+        return blog
+      } catch (error) {
+        if (isAbortError(error)) {
+          return searchOutcome({ cancelledScopes: withLocales([BLOG_SCOPE], scanOptions.locales) })
+        }
+        console.error('Server search failed, scanning the blog instead:', error)
+        const reason = error instanceof ButterApiError ? error.reason : (error as Error).message
+        serverSearchFallback = `the search endpoint failed: ${reason}`
+        return scan({ blog: true, pageTypes: [], collectionKeys: [] }, (found) => {
+          blogFound = found
+        })
       }
     }
 
-    await Promise.all(fetchPromises)
+    // The search endpoint picks the blog posts while the other scopes are scanned
+    const [blog, others] = await Promise.all([
+      searchOnServer ? searchBlog() : undefined,
+      scan(
+        {
+          blog: includeBlog && !searchOnServer,
+          pageTypes: selectedPageTypes,
+          collectionKeys: selectedCollectionKeys,
+          authors,
+          categories,
+          tags,
+        },
+        (found) => {
+          othersFound = found
+        },
+      ),
+    ])
+    const {
+      results,
+      scannedItems,
+      depthLimitedItems,
+      succeededScopes,
+      failedScopes,
+      failures,
+      incompleteScopes,
+      cancelledScopes,
+      scanCancelled,
+    } = blog ? combineScans(blog, others) : others
+    const searchedOnServer = searchOnServer && !serverSearchFallback
+    const searchMode = includeBlog
+      ? ({ blogSearchMode: searchedOnServer ? 'server' : 'scan' } as const)
+      : {}
+    const failedScopeLabels = failedScopes.map(scopeLabel)
+    const failureReasons = describeFailures(failures)
+    const cancelled = cancelledScopes.length > 0 || scanCancelled
 
-    // If all scopes failed, return error
-    if (!hasAnySuccessfulScope) {
+    // If all scopes failed or were cancelled with nothing fetched, return error
+    if (succeededScopes.length === 0 && incompleteScopes.length === 0) {
       return {
         success: false,
         results: [],
         totalItems: null,
-        failedScopes,
-        error: `Failed to fetch all selected scopes. Check console for details.`,
-      }
-    }
-
-    for (const { data: itemData, sourceType } of itemsWithSource) {
-      const matchMap = searchObject(itemData, searchLower)
-      const hasMatches = matchMap.size > 0
-
-      // When negating: include items WITHOUT matches. When not negating: include items WITH matches
-      if (hasMatches === !negate) {
-        const item = itemData as Record<string, unknown>
-
-        // When negating, we don't show any matches since we're looking for items that DON'T contain the term
-        if (negate) {
-          searchResults.push({
-            title:
-              (item.name as string) ||
-              (item.title as string) ||
-              (item.slug as string) ||
-              'Untitled',
-            slug: (item.slug as string) || 'N/A',
-            sourceType: sourceType,
-            status: toStatus(item.status),
-            matches: [],
-          })
-        } else {
-          // Convert map to array of matches
-          const matches = Array.from(matchMap.values()).map((acc) => {
-            // For multiple occurrences, show count in path and use first snippet
-            if (acc.count > 1) {
-              return {
-                path: `${acc.path} (${acc.count} occurrences)`,
-                value: acc.snippets[0] || '',
-                count: acc.count,
-              }
-            }
-            // For single occurrence, return as-is
-            return {
-              path: acc.path,
-              value: acc.snippets[0] || '',
-              count: acc.count,
-            }
-          })
-
-          const validMatches = matches.filter((m) => m.value && m.value.trim().length > 0)
-
-          if (validMatches.length > 0) {
-            searchResults.push({
-              title:
-                (item.name as string) ||
-                (item.title as string) ||
-                (item.slug as string) ||
-                'Untitled',
-              slug: (item.slug as string) || 'N/A',
-              sourceType: sourceType,
-              status: toStatus(item.status),
-              matches: validMatches,
-            })
-          }
-        }
+        failedScopes: failedScopeLabels,
+        failures: failureReasons,
+        ...(cancelled
+          ? { cancelled, error: 'Search cancelled before any scope finished.' }
+          : { error: `Failed to fetch all selected scopes. See the request log for details.` }),
       }
     }
 
-    searchResults.sort((a, b) => a.slug.localeCompare(b.slug))
+    const allResults = [...results].sort((a, b) => a.slug.localeCompare(b.slug))
     return {
       success: true,
-      results: searchResults,
-      totalItems: itemsWithSource.length,
-      failedScopes: failedScopes.length > 0 ? failedScopes : undefined,
+      results: allResults,
+      totalItems: scannedItems,
+      failedScopes: failedScopeLabels.length > 0 ? failedScopeLabels : undefined,
+      failures: failureReasons.length > 0 ? failureReasons : undefined,
+      incompleteScopes: incompleteScopes.length > 0 ? incompleteScopes.map(scopeLabel) : undefined,
+      cancelled: cancelled || undefined,
+      depthLimitedItems: depthLimitedItems || undefined,
+      ...searchMode,
+      ...(serverSearchFallback ? { serverSearchFallback } : {}),
     }
   } catch (error) {
     return {
       success: false,
       results: [],
       totalItems: null,
-      failedScopes,
       error: (error as Error).message,
     }
   }
 }
+
+/**
+ * Merge the response from retrying failed scopes into the response being shown, as if every scope
+ * had been searched in one run: results are re-sorted and totals recomputed. Scopes that fail again
+ * stay listed as failed.
+ */
+export function mergeSearchResponses(
+  previous: SearchResponse,
+  retry: SearchResponse,
+): SearchResponse {
+  if (!retry.success) {
+    return {
+      ...previous,
+      failedScopes: retry.failedScopes ?? previous.failedScopes,
+      failures: retry.failures ?? previous.failures,
+      incompleteScopes: retry.incompleteScopes,
+    }
+  }
+
+  return {
+    success: true,
+    results: [...previous.results, ...retry.results].sort((a, b) => a.slug.localeCompare(b.slug)),
+    totalItems: (previous.totalItems ?? 0) + (retry.totalItems ?? 0),
+    depthLimitedItems:
+      (previous.depthLimitedItems ?? 0) + (retry.depthLimitedItems ?? 0) || undefined,
+    failedScopes: retry.failedScopes,
+    failures: retry.failures,
+    incompleteScopes: retry.incompleteScopes,
+    cancelled: previous.cancelled,
+    blogSearchMode: previous.blogSearchMode,
+    serverSearchFallback: previous.serverSearchFallback,
+  }
+}
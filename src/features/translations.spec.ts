@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { auditTranslations } from './translations'
+
+const { getAllPages: mockGetAllPages, getAllPosts: mockGetAllPosts } = vi.hoisted(() => ({
+  getAllPages: vi.fn(),
+  getAllPosts: vi.fn(),
+}))
+
+vi.mock('@/core/pages', () => ({
+  getAllPages: mockGetAllPages,
+}))
+
+vi.mock('@/core/posts', () => ({
+  getAllPosts: mockGetAllPosts,
+}))
+
+function makePage(slug: string, status: 'published' | 'draft' | 'scheduled' = 'published') {
+  return { slug, name: slug.toUpperCase(), page_type: 'landing_page', status, fields: {} }
+}
+
+function makePost(slug: string, status: 'published' | 'draft' | 'scheduled' = 'published') {
+  return { slug, title: slug.toUpperCase(), status }
+}
+
+// Answer each page type and locale from a fixture, keyed `pageType@locale`
+function pagesByLocale(fixture: Record<string, unknown[]>) {
+  mockGetAllPages.mockImplementation(
+    async ({ pageType, locale }: { pageType: string; locale: string }) => {
+      const pages = fixture[`${pageType}@${locale}`]
+      if (!pages) throw new Error(`No ${pageType} pages in ${locale}`)
+      return pages
+    },
+  )
+}
+
+describe('auditTranslations', () => {
+  beforeEach(() => {
+    mockGetAllPages.mockReset()
+    mockGetAllPosts.mockReset()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  describe('Input validation', () => {
+    it('returns an error without a token', async () => {
+      const result = await auditTranslations('', false, ['landing_page'], false, ['en', 'fr'])
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('token')
+    })
+
+    it('returns an error with fewer than two locales', async () => {
+      const result = await auditTranslations('token', false, ['landing_page'], false, ['en'])
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Select at least two locales to compare')
+      expect(mockGetAllPages).not.toHaveBeenCalled()
+    })
+
+    it('returns an error when no scope is selected', async () => {
+      const result = await auditTranslations('token', false, [], false, ['en', 'fr'])
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('at least one scope')
+    })
+  })
+
+  it('fetches every selected scope once per locale', async () => {
+    pagesByLocale({ 'landing_page@en': [], 'landing_page@fr': [] })
+    mockGetAllPosts.mockResolvedValue([])
+
+    await auditTranslations('token', true, ['landing_page'], true, ['en', 'fr'])
+
+    expect(mockGetAllPages).toHaveBeenCalledWith(
+      expect.objectContaining({ pageType: 'landing_page', locale: 'en', preview: true }),
+    )
+    expect(mockGetAllPages).toHaveBeenCalledWith(
+      expect.objectContaining({ pageType: 'landing_page', locale: 'fr', preview: true }),
+    )
+    expect(mockGetAllPosts).toHaveBeenCalledTimes(2)
+  })
+
+  it('lists slugs that are missing or unpublished in another locale', async () => {
+    pagesByLocale({
+      'landing_page@en': [makePage('home'), makePage('pricing'), makePage('about')],
+      'landing_page@fr': [makePage('home'), makePage('pricing', 'draft'), makePage('contact')],
+    })
+
+    const result = await auditTranslations('token', true, ['landing_page'], false, ['en', 'fr'])
+
+    expect(result.success).toBe(true)
+    expect(result.totalSlugs).toBe(4)
+    expect(result.published).toEqual({ en: 3, fr: 2 })
+    expect(result.gaps).toEqual([
+      {
+        scope: 'landing_page',
+        slug: 'about',
+        title: 'ABOUT',
+        locales: { en: 'published', fr: 'missing' },
+      },
+      {
+        scope: 'landing_page',
+        slug: 'contact',
+        title: 'CONTACT',
+        locales: { en: 'missing', fr: 'published' },
+      },
+      {
+        scope: 'landing_page',
+        slug: 'pricing',
+        title: 'PRICING',
+        locales: { en: 'published', fr: 'draft' },
+      },
+    ])
+  })
+
+  it('matches slugs within a scope, not across scopes', async () => {
+    pagesByLocale({ 'landing_page@en': [makePage('news')], 'landing_page@fr': [] })
+    mockGetAllPosts.mockImplementation(async ({ locale }: { locale: string }) =>
+      locale === 'fr' ? [makePost('news')] : [],
+    )
+
+    const result = await auditTranslations('token', false, ['landing_page'], true, ['en', 'fr'])
+
+    expect(result.gaps.map(({ scope, locales }) => ({ scope, locales }))).toEqual([
+      { scope: 'Blog', locales: { en: 'missing', fr: 'published' } },
+      { scope: 'landing_page', locales: { en: 'published', fr: 'missing' } },
+    ])
+  })
+
+  it('leaves out scopes that failed in any locale and reports them', async () => {
+    pagesByLocale({
+      'landing_page@en': [makePage('home')],
+      'landing_page@fr': [makePage('home')],
+      'case_study@en': [makePage('acme')],
+    })
+
+    const result = await auditTranslations('token', false, ['landing_page', 'case_study'], false, [
+      'en',
+      'fr',
+    ])
+
+    expect(result.success).toBe(true)
+    expect(result.totalSlugs).toBe(1)
+    expect(result.gaps).toEqual([])
+    expect(result.failedScopes).toEqual(['Page Type: case_study (fr)'])
+    expect(result.failures?.[0]?.scope).toEqual({ kind: 'page', key: 'case_study', locale: 'fr' })
+  })
+
+  it('returns an error when no scope could be fetched in every locale', async () => {
+    pagesByLocale({ 'landing_page@en': [makePage('home')] })
+
+    const result = await auditTranslations('token', false, ['landing_page'], false, ['en', 'fr'])
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('Failed to fetch')
+    expect(result.failedScopes).toEqual(['Page Type: landing_page (fr)'])
+  })
+})
@@ -0,0 +1,166 @@
+import {
+  describeFailures,
+  fetchContent,
+  scopeLabel,
+  type ContentScope,
+  type ContentStatus,
+  type FailureReason,
+  type FetchContentOptions,
+} from '@/core/contentSource'
+
+/** How a slug stands in one locale. `missing` when the locale has no item with that slug */
+export type TranslationState = ContentStatus | 'missing'
+
+/** A slug that is not published in every compared locale */
+export interface TranslationGap {
+  /** Page type, or `Blog` */
+  scope: string
+  slug: string
+  /** Title from the first locale the slug was found in */
+  title: string
+  /** State of the slug in each compared locale, keyed by locale */
+  locales: Record<string, TranslationState>
+}
+
+export interface TranslationCoverageResponse {
+  success: boolean
+  /** Sorted by scope, then slug */
+  gaps: TranslationGap[]
+  /** Slugs found in at least one locale of the compared scopes */
+  totalSlugs: number
+  /** Slugs published in each locale, keyed by locale */
+  published: Record<string, number>
+  /** Scopes left out of the comparison because they failed in at least one locale */
+  failedScopes?: string[]
+  /** Why each failed scope could not be fetched, labelled as in `failedScopes` */
+  failures?: FailureReason[]
+  /** Set when the check was cancelled. Only scopes that finished in every locale are compared */
+  cancelled?: boolean
+  error?: string
+}
+
+interface SlugEntry {
+  scope: string
+  title: string
+  states: Map<string, ContentStatus>
+}
+
+/** Groups a scope's locales together, e.g. `page:landing_page` for every locale of it */
+function groupKey(scope: ContentScope): string {
+  return `${scope.kind}:${scope.key}`
+}
+
+/**
+ * Compare the selected page types and blog across `locales`, listing each slug that exists in one
+ * locale but is missing or not yet published in another. Slugs are matched within a page type (or
+ * the blog), and a scope is only compared once it has been fetched in every locale. Drafts and
+ * scheduled items are only visible with `preview`, so without it they count as missing.
+ */
+export async function auditTranslations(
+  token: string,
+  preview: boolean,
+  selectedPageTypes: string[],
+  includeBlog: boolean,
+  locales: string[],
+  options: Omit<FetchContentOptions, 'locales' | 'onItems'> = {},
+): Promise<TranslationCoverageResponse> {
+  const empty = { gaps: [], totalSlugs: 0, published: {} }
+  if (!token) {
+    return { success: false, ...empty, error: 'No API token provided' }
+  }
+
+  if (locales.length < 2) {
+    return { success: false, ...empty, error: 'Select at least two locales to compare' }
+  }
+
+  if (!includeBlog && selectedPageTypes.length === 0) {
+    return {
+      success: false,
+      ...empty,
+      error: 'Please select at least one scope (Blog or Page Type)',
+    }
+  }
+
+  // Only titles, slugs and statuses are kept, so items are never collected whole
+  const slugsByGroup = new Map<string, Map<string, SlugEntry>>()
+
+  try {
+    const { succeededScopes, failedScopes, failures, cancelledScopes } = await fetchContent({
+      token,
+      preview,
+      scopes: { blog: includeBlog, pageTypes: selectedPageTypes, collectionKeys: [] },
+      ...options,
+      locales,
+      onItems: (items, scope) => {
+        const slugs = slugsByGroup.get(groupKey(scope)) ?? new Map<string, SlugEntry>()
+        slugsByGroup.set(groupKey(scope), slugs)
+        for (const item of items) {
+          const entry = slugs.get(item.slug) ?? {
+            scope: item.scope,
+            title: item.title,
+            states: new Map(),
+          }
+          entry.states.set(scope.locale ?? '', item.status ?? 'published')
+          slugs.set(item.slug, entry)
+        }
+      },
+    })
+
+    const unfinished = new Set([...failedScopes, ...cancelledScopes].map(groupKey))
+    const compared = new Set(
+      succeededScopes.map(groupKey).filter((group) => !unfinished.has(group)),
+    )
+    const cancelled = cancelledScopes.length > 0
+    const failedScopeLabels = failedScopes.map(scopeLabel)
+    const failureReasons = describeFailures(failures)
+
+    if (compared.size === 0) {
+      return {
+        success: false,
+        ...empty,
+        failedScopes: failedScopeLabels,
+        failures: failureReasons,
+        ...(cancelled
+          ? {
+              cancelled,
+              error: 'Coverage check cancelled before any scope finished in every locale.',
+            }
+          : { error: 'Failed to fetch all selected scopes. See the request log for details.' }),
+      }
+    }
+
+    const gaps: TranslationGap[] = []
+    const published = Object.fromEntries(locales.map((locale) => [locale, 0]))
+    let totalSlugs = 0
+    for (const group of compared) {
+      for (const [slug, entry] of slugsByGroup.get(group) ?? []) {
+        totalSlugs++
+        const states = Object.fromEntries(
+          locales.map((locale): [string, TranslationState] => [
+            locale,
+            entry.states.get(locale) ?? 'missing',
+          ]),
+        )
+        for (const locale of locales) {
+          if (states[locale] === 'published') published[locale] = (published[locale] ?? 0) + 1
+        }
+        if (Object.values(states).some((state) => state !== 'published')) {
+          gaps.push({ scope: entry.scope, slug, title: entry.title, locales: states })
+        }
+      }
+    }
+    gaps.sort((a, b) => a.scope.localeCompare(b.scope) || a.slug.localeCompare(b.slug))
+
+    return {
+      success: true,
+      gaps,
+      totalSlugs,
+      published,
+      failedScopes: failedScopeLabels.length > 0 ? failedScopeLabels : undefined,
+      failures: failureReasons.length > 0 ? failureReasons : undefined,
+      cancelled: cancelled || undefined,
+    }
+  } catch (error) {
+    return { success: false, ...empty, error: (error as Error).message }
+  }
+}
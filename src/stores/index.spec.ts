@@ -1,6 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { createPinia, setActivePinia } from 'pinia'
+import { nextTick } from 'vue'
 import { useStore } from './index'
+import { DEMO_TOKEN } from '@/core/demo'
+import { fetchWithRetry } from '@/core/fetch'
+import { scopeCheckKey } from '@/core/configValidation'
+import type { ContentScope } from '@/core/contentSource'
 
 describe('useStore', () => {
   let consoleWarnSpy: ReturnType<typeof vi.spyOn>
@@ -335,6 +340,50 @@ describe('useStore', () => {
       expect(store.selectedScopes.blog).toBe(true)
       expect(store.selectedScopes.pageTypes).toEqual(['landing_page'])
     })
+
+    it('should drop field filters for page types that are removed', async () => {
+      const store = useStore()
+
+      store.pageTypes = ['landing_page', 'product_page']
+      store.selectedScopes = {
+        blog: false,
+        pageTypes: [],
+        collectionKeys: [],
+        fieldFilters: {
+          'page:landing_page': { region: 'us' },
+          'page:product_page': { region: 'eu' },
+        },
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 0))
+
+      store.pageTypes = ['product_page']
+
+      await new Promise((resolve) => setTimeout(resolve, 0))
+
+      expect(store.selectedScopes.fieldFilters).toEqual({ 'page:product_page': { region: 'eu' } })
+    })
+
+    it('should remove selected locales when locales are removed', async () => {
+      const store = useStore()
+
+      store.locales = ['en', 'fr']
+      store.selectedScopes = {
+        blog: true,
+        pageTypes: [],
+        collectionKeys: [],
+        locales: ['en', 'fr'],
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 0))
+
+      store.locales = ['en']
+
+      await new Promise((resolve) => setTimeout(resolve, 0))
+
+      expect(store.selectedScopes.locales).toEqual(['en'])
+      expect(store.selectedScopes.blog).toBe(true)
+    })
   })
 
   describe('LocalStorage Persistence', () => {
@@ -361,7 +410,16 @@ describe('useStore', () => {
         includePreview: true,
         pageTypes: ['landing_page'],
         collectionKeys: ['products'],
+        locales: [],
         knownComponents: [],
+        cacheTtlMinutes: 60,
+        requestOptions: {
+          baseUrl: 'https://api.buttercms.com/v2',
+          pageSize: 100,
+          levels: 5,
+          altMediaText: true,
+        },
+        monthlyApiBudget: 0,
         activeTabIndex: 0,
         selectedScopes: {
           blog: true,
@@ -536,4 +594,501 @@ describe('useStore', () => {
       expect(store2.knownComponents).toEqual(['my_component'])
     })
   })
+
+  describe('Content Cache Settings', () => {
+    it('should default cacheTtlMinutes to one hour', () => {
+      const store = useStore()
+      expect(store.cacheTtlMinutes).toBe(60)
+    })
+
+    it('should default cacheTtlMinutes when missing from localStorage', () => {
+      localStorage.setItem(
+        'butter_cms_config',
+        JSON.stringify({
+          token: 'test-token',
+          lockToken: false,
+          includePreview: false,
+          pageTypes: [],
+          collectionKeys: [],
+          activeTabIndex: 0,
+          selectedScopes: { blog: false, pageTypes: [], collectionKeys: [] },
+        }),
+      )
+
+      setActivePinia(createPinia())
+      const store = useStore()
+
+      expect(store.cacheTtlMinutes).toBe(60)
+    })
+
+    it('should allow 0 to disable the cache', () => {
+      const store = useStore()
+      store.cacheTtlMinutes = 0
+      expect(store.cacheTtlMinutes).toBe(0)
+    })
+
+    it('should reset invalid cacheTtlMinutes to the default', () => {
+      const store = useStore()
+      store.cacheTtlMinutes = -5
+      expect(store.cacheTtlMinutes).toBe(60)
+      store.cacheTtlMinutes = 1.5
+      expect(store.cacheTtlMinutes).toBe(60)
+    })
+
+    it('should have no last synced time when IndexedDB is unavailable', async () => {
+      const store = useStore()
+      store.token = 'test-token'
+      await store.syncLastSynced()
+      expect(store.lastSyncedAt).toBeNull()
+    })
+  })
+
+  describe('Request Options', () => {
+    it('should default to the public Butter CMS API with the previous request settings', () => {
+      const store = useStore()
+
+      expect(store.requestOptions).toEqual({
+        baseUrl: 'https://api.buttercms.com/v2',
+        pageSize: 100,
+        levels: 5,
+        altMediaText: true,
+      })
+    })
+
+    it('should default request options when missing from localStorage', () => {
+      localStorage.setItem(
+        'butter_cms_config',
+        JSON.stringify({ token: 'test-token', activeTabIndex: 0 }),
+      )
+
+      setActivePinia(createPinia())
+      const store = useStore()
+
+      expect(store.baseUrl).toBe('https://api.buttercms.com/v2')
+      expect(store.pageSize).toBe(100)
+      store.levels = 2
+      expect(store.requestOptions).toEqual({
+        baseUrl: 'https://api.buttercms.com/v2',
+        pageSize: 100,
+        levels: 2,
+        altMediaText: true,
+      })
+    })
+
+    it('should update and persist each request option', async () => {
+      const store = useStore()
+
+      store.baseUrl = ' http://localhost:4000/v2/ '
+      store.pageSize = 25
+      store.levels = 3
+      store.altMediaText = false
+      await new Promise((resolve) => setTimeout(resolve, 0))
+
+      expect(JSON.parse(localStorage.getItem('butter_cms_config')!).requestOptions).toEqual({
+        baseUrl: 'http://localhost:4000/v2/',
+        pageSize: 25,
+        levels: 3,
+        altMediaText: false,
+      })
+      expect(store.requestOptions.baseUrl).toBe('http://localhost:4000/v2')
+    })
+
+    it('should reset invalid page sizes and levels to the defaults', () => {
+      const store = useStore()
+
+      store.pageSize = 0
+      expect(store.pageSize).toBe(100)
+      store.pageSize = 250
+      expect(store.pageSize).toBe(100)
+      store.levels = 6
+      expect(store.levels).toBe(5)
+      store.levels = 1.5
+      expect(store.levels).toBe(5)
+    })
+
+    it('should fall back to the default API when the base URL is invalid', () => {
+      const store = useStore()
+
+      store.baseUrl = 'not a url'
+
+      expect(store.baseUrl).toBe('not a url')
+      expect(store.requestOptions.baseUrl).toBe('https://api.buttercms.com/v2')
+    })
+
+    it('should reset every request option', () => {
+      const store = useStore()
+      store.baseUrl = 'http://localhost:4000'
+      store.altMediaText = false
+
+      store.resetRequestOptions()
+
+      expect(store.baseUrl).toBe('https://api.buttercms.com/v2')
+      expect(store.altMediaText).toBe(true)
+    })
+  })
+
+  describe('Workspaces', () => {
+    it('should start in the default workspace', () => {
+      const store = useStore()
+
+      expect(store.workspace).toBe('Default')
+      expect(store.workspaceNames).toEqual(['Default'])
+    })
+
+    it('should start a new workspace empty and keep the previous one', () => {
+      const store = useStore()
+      store.token = 'staging-token'
+      store.pageTypes = ['landing_page']
+      store.cacheTtlMinutes = 5
+
+      store.createWorkspace(' Production ')
+
+      expect(store.workspace).toBe('Production')
+      expect(store.workspaceNames).toEqual(['Default', 'Production'])
+      expect(store.token).toBe('')
+      expect(store.pageTypes).toEqual([])
+      // Settings outside the workspace are shared
+      expect(store.cacheTtlMinutes).toBe(5)
+    })
+
+    it('should switch back to a workspace with its settings as they were left', () => {
+      const store = useStore()
+      store.token = 'staging-token'
+      store.includePreview = true
+      store.knownComponents = ['hero']
+      store.selectedScopes = { blog: true, pageTypes: [], collectionKeys: [] }
+      store.createWorkspace('Production')
+      store.token = 'production-token'
+
+      store.switchWorkspace('Default')
+
+      expect(store.token).toBe('staging-token')
+      expect(store.includePreview).toBe(true)
+      expect(store.knownComponents).toEqual(['hero'])
+      expect(store.selectedScopes.blog).toBe(true)
+
+      store.switchWorkspace('Production')
+      expect(store.token).toBe('production-token')
+      expect(store.includePreview).toBe(false)
+    })
+
+    it('should ignore names already in use and unknown workspaces', () => {
+      const store = useStore()
+      store.createWorkspace('Production')
+
+      store.createWorkspace('production')
+      store.switchWorkspace('Client A')
+
+      expect(store.workspaceNames).toEqual(['Default', 'Production'])
+      expect(store.workspace).toBe('Production')
+    })
+
+    it('should rename the active workspace', () => {
+      const store = useStore()
+      store.createWorkspace('Production')
+
+      store.renameWorkspace('Default')
+      expect(store.workspace).toBe('Production')
+
+      store.renameWorkspace('Client A')
+      expect(store.workspaceNames).toEqual(['Client A', 'Default'])
+    })
+
+    it('should give the active workspace a new id when switching but not when renaming', () => {
+      const store = useStore()
+      const initial = store.activeWorkspaceId
+
+      store.renameWorkspace('Staging')
+      expect(store.activeWorkspaceId).toBe(initial)
+
+      store.createWorkspace('Production')
+      const production = store.activeWorkspaceId
+      expect(production).not.toBe(initial)
+
+      store.switchWorkspace('Staging')
+      expect(store.activeWorkspaceId).not.toBe(production)
+    })
+
+    it('should switch to another workspace when the active one is deleted, but keep the last', () => {
+      const store = useStore()
+      store.token = 'staging-token'
+      store.createWorkspace('Production')
+
+      store.deleteWorkspace('Production')
+
+      expect(store.workspaceNames).toEqual(['Default'])
+      expect(store.token).toBe('staging-token')
+
+      store.deleteWorkspace('Default')
+      expect(store.workspaceNames).toEqual(['Default'])
+    })
+
+    it('should persist workspaces across store instances', async () => {
+      const store1 = useStore()
+      store1.token = 'staging-token'
+      store1.createWorkspace('Production')
+      await new Promise((resolve) => setTimeout(resolve, 0))
+
+      setActivePinia(createPinia())
+      const store2 = useStore()
+      expect(store2.workspace).toBe('Production')
+
+      store2.switchWorkspace('Default')
+      expect(store2.token).toBe('staging-token')
+    })
+  })
+
+  describe('Demo Mode', () => {
+    const postsUrl = `https://api.buttercms.com/v2/posts/?auth_token=${DEMO_TOKEN}&page_size=1`
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should only be on while the demo token is in use', () => {
+      const store = useStore()
+      expect(store.demoMode).toBe(false)
+
+      store.token = DEMO_TOKEN
+      expect(store.demoMode).toBe(true)
+
+      store.token = 'real-token'
+      expect(store.demoMode).toBe(false)
+    })
+
+    it('should serve requests from the demo account without the network', async () => {
+      const networkFetch = vi.fn().mockRejectedValue(new Error('offline'))
+      vi.stubGlobal('fetch', networkFetch)
+      const store = useStore()
+      store.token = DEMO_TOKEN
+      await nextTick()
+
+      const response = await fetchWithRetry(postsUrl)
+
+      expect(response.meta.count).toBeGreaterThan(0)
+      expect(networkFetch).not.toHaveBeenCalled()
+    })
+
+    it('should go back to the network when the demo token is replaced', async () => {
+      const networkFetch = vi.fn().mockResolvedValue({ ok: true, json: async () => ({}) })
+      vi.stubGlobal('fetch', networkFetch)
+      const store = useStore()
+      store.token = DEMO_TOKEN
+      await nextTick()
+      store.token = 'real-token'
+      await nextTick()
+
+      await fetchWithRetry(postsUrl)
+
+      expect(networkFetch).toHaveBeenCalledOnce()
+    })
+  })
+
+  describe('Scope Counts', () => {
+    const BLOG = { kind: 'post', key: 'Blog' } as const
+    const checkOf = (scope: ContentScope) => useStore().scopeChecks[scopeCheckKey(scope)]
+
+    it('should count the given scopes from the demo account', async () => {
+      const store = useStore()
+      store.token = DEMO_TOKEN
+      await nextTick()
+
+      await store.loadScopeCounts([
+        BLOG,
+        { kind: 'page', key: 'landing_page' },
+        { kind: 'page', key: 'missing_type' },
+        { kind: 'collection', key: 'faq' },
+        { kind: 'author', key: 'Authors' },
+        { kind: 'category', key: 'Categories' },
+        { kind: 'tag', key: 'Tags' },
+      ])
+
+      expect(checkOf(BLOG)).toEqual({ status: 'valid', count: expect.any(Number) })
+      expect(checkOf({ kind: 'page', key: 'landing_page' })?.count).toBeGreaterThan(0)
+      expect(checkOf({ kind: 'collection', key: 'faq' })?.count).toBeGreaterThan(0)
+      expect(checkOf({ kind: 'page', key: 'missing_type' })?.status).toBe('missing')
+      expect(checkOf({ kind: 'author', key: 'Authors' })).toEqual({ status: 'valid', count: 3 })
+      expect(checkOf({ kind: 'category', key: 'Categories' })).toEqual({
+        status: 'valid',
+        count: 4,
+      })
+      expect(checkOf({ kind: 'tag', key: 'Tags' })).toEqual({ status: 'valid', count: 6 })
+    })
+
+    it('should only count scopes it is given', async () => {
+      const store = useStore()
+      store.token = DEMO_TOKEN
+      store.pageTypes = ['landing_page']
+      await nextTick()
+
+      await store.loadScopeCounts([BLOG])
+
+      expect(Object.keys(store.scopeChecks)).toEqual([scopeCheckKey(BLOG)])
+    })
+
+    it('should count a filtered scope apart from the whole scope', async () => {
+      const store = useStore()
+      store.token = DEMO_TOKEN
+      await nextTick()
+      const filtered: ContentScope = {
+        kind: 'page',
+        key: 'landing_page',
+        fields: { region: 'nowhere' },
+      }
+
+      await store.loadScopeCounts([{ kind: 'page', key: 'landing_page' }, filtered])
+
+      expect(checkOf({ kind: 'page', key: 'landing_page' })?.count).toBeGreaterThan(0)
+      expect(checkOf(filtered)).toEqual({ status: 'valid', count: 0 })
+    })
+
+    it('should not count anything without a token', async () => {
+      const store = useStore()
+      await store.loadScopeCounts([BLOG])
+      expect(store.scopeChecks).toEqual({})
+    })
+
+    it('should forget counts when the account or preview setting changes', async () => {
+      const store = useStore()
+      store.token = DEMO_TOKEN
+      await nextTick()
+      await store.loadScopeCounts([BLOG])
+      const publishedPosts = checkOf(BLOG)?.count ?? 0
+
+      store.includePreview = true
+      await nextTick()
+      expect(store.scopeChecks).toEqual({})
+
+      await store.loadScopeCounts([BLOG])
+      expect(checkOf(BLOG)?.count).toBeGreaterThan(publishedPosts)
+    })
+  })
+
+  describe('API Usage', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    const ok = () => ({ ok: true, json: async () => ({}) })
+
+    it('should count every request to Butter CMS, including retries', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi
+          .fn()
+          .mockResolvedValueOnce(
+            new Response('{}', { status: 429, headers: { 'Retry-After': '0' } }),
+          )
+          .mockResolvedValueOnce(ok()),
+      )
+      const store = useStore()
+
+      await fetchWithRetry('https://api.buttercms.com/v2/posts/')
+
+      expect(store.sessionApiCalls).toBe(2)
+      expect(store.apiUsageTotals).toEqual({ today: 2, thisMonth: 2 })
+    })
+
+    it('should not count demo requests', async () => {
+      const store = useStore()
+      store.token = DEMO_TOKEN
+      await nextTick()
+
+      await fetchWithRetry(`https://api.buttercms.com/v2/posts/?auth_token=${DEMO_TOKEN}`)
+
+      expect(store.sessionApiCalls).toBe(0)
+    })
+
+    it('should persist usage but not the session count', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(ok()))
+      const store = useStore()
+      await fetchWithRetry('https://api.buttercms.com/v2/posts/')
+      await nextTick()
+      store.$dispose()
+
+      setActivePinia(createPinia())
+      const reloaded = useStore()
+
+      expect(reloaded.apiUsageTotals.today).toBe(1)
+      expect(reloaded.sessionApiCalls).toBe(0)
+    })
+
+    it('should stop counting once the store is disposed', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(ok()))
+      const store = useStore()
+      store.$dispose()
+
+      await fetchWithRetry('https://api.buttercms.com/v2/posts/')
+
+      expect(store.sessionApiCalls).toBe(0)
+    })
+
+    it('should reset usage', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(ok()))
+      const store = useStore()
+      await fetchWithRetry('https://api.buttercms.com/v2/posts/')
+
+      store.resetApiUsage()
+
+      expect(store.apiUsageTotals).toEqual({ today: 0, thisMonth: 0 })
+    })
+
+    it('should only accept a whole, non-negative monthly budget', () => {
+      const store = useStore()
+      store.monthlyApiBudget = 50_000
+      expect(store.monthlyApiBudget).toBe(50_000)
+
+      store.monthlyApiBudget = -1
+      expect(store.monthlyApiBudget).toBe(0)
+    })
+
+    it('should start from zero when stored usage is invalid', () => {
+      localStorage.setItem('butter_cms_api_usage', 'invalid json')
+      const store = useStore()
+      expect(store.apiUsageTotals).toEqual({ today: 0, thisMonth: 0 })
+      expect(consoleWarnSpy).toHaveBeenCalled()
+    })
+  })
+
+  describe('Request Log', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should log each request with its token redacted', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('{}', { status: 200 })))
+      const store = useStore()
+
+      await fetchWithRetry('https://api.buttercms.com/v2/posts/?auth_token=secret')
+
+      expect(store.requestLog).toEqual([
+        expect.objectContaining({
+          url: 'https://api.buttercms.com/v2/posts/?auth_token=REDACTED',
+          status: 200,
+          attempt: 1,
+          demo: false,
+        }),
+      ])
+    })
+
+    it('should log demo requests too', async () => {
+      const store = useStore()
+      store.token = DEMO_TOKEN
+      await nextTick()
+
+      await fetchWithRetry(`https://api.buttercms.com/v2/posts/?auth_token=${DEMO_TOKEN}`)
+
+      expect(store.requestLog).toEqual([expect.objectContaining({ demo: true, status: 200 })])
+    })
+
+    it('should clear the log', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('{}', { status: 200 })))
+      const store = useStore()
+      await fetchWithRetry('https://api.buttercms.com/v2/posts/')
+
+      store.clearRequestLog()
+
+      expect(store.requestLog).toEqual([])
+    })
+  })
 })
@@ -1,5 +1,30 @@
-import { ref, watch, computed } from 'vue'
+import { ref, shallowRef, watch, computed, onScopeDispose } from 'vue'
 import { defineStore } from 'pinia'
+import { apiUsageTotals as totalApiUsage, recordApiCalls, type ApiUsage } from '@/core/apiUsage'
+import { probeScopes, scopeCheckKey, type ScopeCheck } from '@/core/configValidation'
+import { getLastSyncedAt } from '@/core/contentCache'
+import { scopeId, type ContentScope } from '@/core/contentSource'
+import { DEMO_TOKEN, demoFetch } from '@/core/demo'
+import { addRequestListener, setFetchInterceptor } from '@/core/fetch'
+import { appendRequestLog, toRequestLogEntry, type RequestLogEntry } from '@/core/requestLog'
+import {
+  DEFAULT_REQUEST_OPTIONS,
+  MAX_LEVELS,
+  MAX_PAGE_SIZE,
+  resolveRequestOptions,
+  type RequestOptions,
+} from '@/core/requestOptions'
+import {
+  DEFAULT_WORKSPACE_NAME,
+  emptyWorkspace,
+  workspaceNameError,
+  workspaceSettings,
+  type SelectedScopes,
+  type WorkspaceSettings,
+} from '@/core/workspaces'
+
+/** Default time cached content stays fresh before it is revalidated against Butter CMS */
+export const DEFAULT_CACHE_TTL_MINUTES = 60
 
 export const useStore = defineStore('store', () => {
   // Initialize config from localStorage or default object
@@ -9,13 +34,17 @@ export const useStore = defineStore('store', () => {
     includePreview: boolean
     pageTypes: string[]
     collectionKeys: string[]
+    locales: string[]
     knownComponents: string[]
+    cacheTtlMinutes: number
+    requestOptions: RequestOptions
+    monthlyApiBudget: number
     activeTabIndex: number
-    selectedScopes: {
-      blog: boolean
-      pageTypes: string[]
-      collectionKeys: string[]
-    }
+    selectedScopes: SelectedScopes
+    /** Name of the active workspace, whose settings are the ones above */
+    workspace?: string
+    /** Settings of every other saved workspace, keyed by name */
+    workspaces?: Record<string, WorkspaceSettings>
   }>(
     (() => {
       const stored = localStorage.getItem('butter_cms_config')
@@ -46,7 +75,11 @@ export const useStore = defineStore('store', () => {
         includePreview: false,
         pageTypes: [],
         collectionKeys: [],
+        locales: [],
         knownComponents: [],
+        cacheTtlMinutes: DEFAULT_CACHE_TTL_MINUTES,
+        requestOptions: { ...DEFAULT_REQUEST_OPTIONS },
+        monthlyApiBudget: 0,
         activeTabIndex: 0,
         selectedScopes: {
           blog: false,
@@ -65,6 +98,9 @@ export const useStore = defineStore('store', () => {
     },
   })
 
+  /** Whether the bundled demo account is in use, so content is served offline */
+  const demoMode = computed(() => config.value.token === DEMO_TOKEN)
+
   const lockToken = computed({
     get: () => config.value.lockToken,
     set: (val: boolean) => {
@@ -93,6 +129,14 @@ export const useStore = defineStore('store', () => {
     },
   })
 
+  /** Locales configured for the account, e.g. `en` and `fr`, besides its default locale */
+  const locales = computed({
+    get: () => config.value.locales ?? [],
+    set: (val: string[]) => {
+      config.value.locales = val
+    },
+  })
+
   const knownComponents = computed({
     get: () => config.value.knownComponents ?? [],
     set: (val: string[]) => {
@@ -100,9 +144,163 @@ export const useStore = defineStore('store', () => {
     },
   })
 
+  const cacheTtlMinutes = computed({
+    get: () => config.value.cacheTtlMinutes ?? DEFAULT_CACHE_TTL_MINUTES,
+    set: (val: number) => {
+      // Validate: only allow non-negative integers (0 disables the cache)
+      config.value.cacheTtlMinutes =
+        Number.isInteger(val) && val >= 0 ? val : DEFAULT_CACHE_TTL_MINUTES
+    },
+  })
+
+  // Request options are edited one field at a time; stored configs from before they existed have none
+  function setRequestOption<Key extends keyof RequestOptions>(key: Key, val: RequestOptions[Key]) {
+    config.value.requestOptions = {
+      ...DEFAULT_REQUEST_OPTIONS,
+      ...config.value.requestOptions,
+      [key]: val,
+    }
+  }
+
+  const baseUrl = computed({
+    get: () => config.value.requestOptions?.baseUrl ?? DEFAULT_REQUEST_OPTIONS.baseUrl,
+    // Kept as typed so the field can be edited freely; invalid URLs fall back when requests are made
+    set: (val: string) => setRequestOption('baseUrl', val.trim()),
+  })
+
+  const pageSize = computed({
+    get: () => config.value.requestOptions?.pageSize ?? DEFAULT_REQUEST_OPTIONS.pageSize,
+    set: (val: number) => {
+      // Validate: only allow whole numbers from 1 to the largest page size
+      setRequestOption(
+        'pageSize',
+        Number.isInteger(val) && val >= 1 && val <= MAX_PAGE_SIZE
+          ? val
+          : DEFAULT_REQUEST_OPTIONS.pageSize,
+      )
+    },
+  })
+
+  const levels = computed({
+    get: () => config.value.requestOptions?.levels ?? DEFAULT_REQUEST_OPTIONS.levels,
+    set: (val: number) => {
+      // Validate: only allow whole numbers from 1 to the most levels Butter CMS expands
+      setRequestOption(
+        'levels',
+        Number.isInteger(val) && val >= 1 && val <= MAX_LEVELS
+          ? val
+          : DEFAULT_REQUEST_OPTIONS.levels,
+      )
+    },
+  })
+
+  const altMediaText = computed({
+    get: () => config.value.requestOptions?.altMediaText ?? DEFAULT_REQUEST_OPTIONS.altMediaText,
+    set: (val: boolean) => setRequestOption('altMediaText', val),
+  })
+
+  /** Every request option with defaults applied, ready to pass to features */
+  const requestOptions = computed(() => resolveRequestOptions(config.value.requestOptions))
+
+  function resetRequestOptions(): void {
+    config.value.requestOptions = { ...DEFAULT_REQUEST_OPTIONS }
+  }
+
+  const monthlyApiBudget = computed({
+    get: () => config.value.monthlyApiBudget ?? 0,
+    set: (val: number) => {
+      // Validate: only allow non-negative integers (0 means no budget)
+      config.value.monthlyApiBudget = Number.isInteger(val) && val >= 0 ? val : 0
+    },
+  })
+
+  // API calls per day, persisted apart from the config because it is usage rather than settings
+  const apiUsage = ref<ApiUsage>(
+    (() => {
+      try {
+        return JSON.parse(localStorage.getItem('butter_cms_api_usage') ?? '{}')
+      } catch {
+        console.warn('Failed to parse stored API usage, starting from zero')
+        return {}
+      }
+    })(),
+  )
+
+  // Not persisted: API calls made since the page loaded, so features can tell what a run cost
+  const sessionApiCalls = ref(0)
+
+  const apiUsageTotals = computed(() => totalApiUsage(apiUsage.value))
+
+  function resetApiUsage(): void {
+    apiUsage.value = {}
+  }
+
+  // Not persisted: recent requests with their tokens redacted, for diagnosing a misbehaving scan.
+  // Replaced wholesale on each request, so it is a shallow ref
+  const requestLog = shallowRef<RequestLogEntry[]>([])
+
+  function clearRequestLog(): void {
+    requestLog.value = []
+  }
+
+  // Count every request that reaches Butter CMS, retries included. Demo requests never leave the
+  // browser, so they are free, but they are still logged
+  onScopeDispose(
+    addRequestListener((event) => {
+      requestLog.value = appendRequestLog(requestLog.value, toRequestLogEntry(event))
+      if (event.intercepted) return
+      sessionApiCalls.value++
+      apiUsage.value = recordApiCalls(apiUsage.value, 1)
+    }),
+  )
+
+  // Not persisted: derived from the IndexedDB content cache for the current token
+  const lastSyncedAt = ref<number | null>(null)
+
+  async function syncLastSynced(): Promise<void> {
+    lastSyncedAt.value = await getLastSyncedAt(config.value.token, config.value.includePreview)
+  }
+
+  // Not persisted: what probing each scope found, keyed by scopeCheckKey so a scope is counted again
+  // with other filters or request options. Cleared whenever the account being counted changes, and
+  // filled in by loadScopeCounts
+  const scopeChecks = ref<Record<string, ScopeCheck>>({})
+  let scopeChecksGeneration = 0
+  const pendingScopeChecks = new Set<string>()
+
+  /** Count the items in each of `scopes` that has not been counted yet */
+  async function loadScopeCounts(scopes: ContentScope[]): Promise<void> {
+    if (!config.value.token) return
+    const checkKey = (scope: ContentScope) => scopeCheckKey(scope, config.value.requestOptions)
+    const uncounted = scopes.filter((scope) => {
+      const key = checkKey(scope)
+      return !(key in scopeChecks.value) && !pendingScopeChecks.has(key)
+    })
+    if (uncounted.length === 0) return
+
+    const generation = scopeChecksGeneration
+    const keys = uncounted.map(checkKey)
+    keys.forEach((key) => pendingScopeChecks.add(key))
+    try {
+      const checks = await probeScopes(uncounted, {
+        token: config.value.token,
+        preview: config.value.includePreview,
+        requestOptions: config.value.requestOptions,
+      })
+      // Counts for an account or preview setting that is no longer in use are dropped
+      if (generation === scopeChecksGeneration) {
+        scopeChecks.value = { ...scopeChecks.value, ...checks }
+      }
+    } finally {
+      if (generation === scopeChecksGeneration) {
+        keys.forEach((key) => pendingScopeChecks.delete(key))
+      }
+    }
+  }
+
   const selectedScopes = computed({
     get: () => config.value.selectedScopes ?? { blog: false, pageTypes: [], collectionKeys: [] },
-    set: (val: { blog: boolean; pageTypes: string[]; collectionKeys: string[] }) => {
+    set: (val: SelectedScopes) => {
       config.value.selectedScopes = val
     },
   })
@@ -119,6 +317,76 @@ export const useStore = defineStore('store', () => {
     },
   })
 
+  /** Name of the active workspace */
+  const workspace = computed(() => config.value.workspace ?? DEFAULT_WORKSPACE_NAME)
+
+  /** Every saved workspace, the active one included, in alphabetical order */
+  const workspaceNames = computed(() =>
+    [workspace.value, ...Object.keys(config.value.workspaces ?? {})].sort((a, b) =>
+      a.localeCompare(b),
+    ),
+  )
+
+  // Not persisted: identifies the active workspace for this session. It changes whenever another
+  // workspace becomes active but not when the active one is renamed, so views keyed on it start
+  // afresh in each workspace without losing results to a rename
+  const activeWorkspaceId = ref(0)
+
+  // Save the active workspace's settings under its name and make `settings` the active ones
+  function activateWorkspace(
+    name: string,
+    settings: WorkspaceSettings,
+    others: Record<string, WorkspaceSettings>,
+  ): void {
+    activeWorkspaceId.value++
+    config.value = {
+      ...config.value,
+      ...settings,
+      workspace: name,
+      workspaces: { ...others, [workspace.value]: workspaceSettings(config.value) },
+    }
+  }
+
+  /** Make a saved workspace the active one. Unknown names are ignored */
+  function switchWorkspace(name: string): void {
+    const saved = config.value.workspaces ?? {}
+    const settings = saved[name]
+    if (name === workspace.value || !settings) return
+    activateWorkspace(
+      name,
+      settings,
+      Object.fromEntries(Object.entries(saved).filter(([other]) => other !== name)),
+    )
+  }
+
+  /** Save the active workspace and start a new, empty one. Names in use are ignored */
+  function createWorkspace(name: string): void {
+    if (workspaceNameError(name, workspaceNames.value)) return
+    activateWorkspace(name.trim(), emptyWorkspace(), config.value.workspaces ?? {})
+  }
+
+  /** Rename the active workspace. Names in use are ignored */
+  function renameWorkspace(name: string): void {
+    const others = workspaceNames.value.filter((other) => other !== workspace.value)
+    if (workspaceNameError(name, others)) return
+    config.value.workspace = name.trim()
+  }
+
+  /**
+   * Delete a saved workspace. Deleting the active one switches to the first of the others, and the
+   * last workspace cannot be deleted.
+   */
+  function deleteWorkspace(name: string): void {
+    if (name === workspace.value) {
+      const next = workspaceNames.value.find((other) => other !== name)
+      if (!next) return
+      switchWorkspace(next)
+    }
+    config.value.workspaces = Object.fromEntries(
+      Object.entries(config.value.workspaces ?? {}).filter(([other]) => other !== name),
+    )
+  }
+
   // Watch for config changes and save to localStorage
   watch(
     config,
@@ -128,38 +396,113 @@ export const useStore = defineStore('store', () => {
     { deep: true },
   )
 
-  // Watch for changes in pageTypes and collectionKeys to clean up selectedScopes
+  watch(apiUsage, (usage) => {
+    localStorage.setItem('butter_cms_api_usage', JSON.stringify(usage))
+  })
+
+  // Watch for changes in pageTypes, collectionKeys and locales to clean up selectedScopes
   watch(
-    () => ({ pageTypes: config.value.pageTypes, collectionKeys: config.value.collectionKeys }),
+    () => ({
+      pageTypes: config.value.pageTypes,
+      collectionKeys: config.value.collectionKeys,
+      locales: config.value.locales ?? [],
+    }),
     (newValues) => {
+      const selectedLocales = config.value.selectedScopes.locales ?? []
       const cleanedPageTypes = config.value.selectedScopes.pageTypes.filter((pt) =>
         newValues.pageTypes.includes(pt),
       )
       const cleanedCollectionKeys = config.value.selectedScopes.collectionKeys.filter((ck) =>
         newValues.collectionKeys.includes(ck),
       )
+      const cleanedLocales = selectedLocales.filter((locale) => newValues.locales.includes(locale))
+      // Filters are kept for unselected scopes, but not for ones that are no longer configured
+      const fieldFilters = config.value.selectedScopes.fieldFilters ?? {}
+      const configuredIds = new Set([
+        ...newValues.pageTypes.map((key) => scopeId({ kind: 'page', key })),
+        ...newValues.collectionKeys.map((key) => scopeId({ kind: 'collection', key })),
+      ])
+      const cleanedFieldFilters = Object.fromEntries(
+        Object.entries(fieldFilters).filter(([id]) => configuredIds.has(id)),
+      )
 
       if (
         cleanedPageTypes.length !== config.value.selectedScopes.pageTypes.length ||
-        cleanedCollectionKeys.length !== config.value.selectedScopes.collectionKeys.length
+        cleanedCollectionKeys.length !== config.value.selectedScopes.collectionKeys.length ||
+        cleanedLocales.length !== selectedLocales.length ||
+        Object.keys(cleanedFieldFilters).length !== Object.keys(fieldFilters).length
       ) {
         config.value.selectedScopes = {
           ...config.value.selectedScopes,
           pageTypes: cleanedPageTypes,
           collectionKeys: cleanedCollectionKeys,
+          locales: cleanedLocales,
+          ...(config.value.selectedScopes.fieldFilters
+            ? { fieldFilters: cleanedFieldFilters }
+            : {}),
         }
       }
     },
   )
 
+  // Answer requests from the demo account for as long as its token is in use
+  watch(demoMode, (enabled) => setFetchInterceptor(enabled ? demoFetch : null), {
+    immediate: true,
+  })
+
+  watch(
+    () => [config.value.token, config.value.includePreview, baseUrl.value],
+    () => {
+      scopeChecksGeneration++
+      pendingScopeChecks.clear()
+      scopeChecks.value = {}
+    },
+  )
+
+  // Refresh the last synced time whenever the cache it describes changes
+  watch(
+    () => [config.value.token, config.value.includePreview],
+    () => {
+      syncLastSynced()
+    },
+    { immediate: true },
+  )
+
   return {
     token,
+    demoMode,
     lockToken,
     includePreview,
     pageTypes,
     collectionKeys,
+    locales,
     knownComponents,
+    cacheTtlMinutes,
+    baseUrl,
+    pageSize,
+    levels,
+    altMediaText,
+    requestOptions,
+    resetRequestOptions,
+    monthlyApiBudget,
+    apiUsage,
+    apiUsageTotals,
+    sessionApiCalls,
+    resetApiUsage,
+    requestLog,
+    clearRequestLog,
+    lastSyncedAt,
+    syncLastSynced,
+    scopeChecks,
+    loadScopeCounts,
     selectedScopes,
     activeTabIndex,
+    workspace,
+    workspaceNames,
+    activeWorkspaceId,
+    switchWorkspace,
+    createWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
   }
 })
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { createPatternMatcher } from './patternMatcher'
+
+describe('createPatternMatcher', () => {
+  it('should find every pattern in one pass', () => {
+    const matcher = createPatternMatcher(['mso-', 'figma='])
+
+    expect(matcher.findAll('<p style="mso-x" figma="1">mso-y</p>')).toEqual([
+      { pattern: 0, start: 10 },
+      { pattern: 1, start: 17 },
+      { pattern: 0, start: 27 },
+    ])
+  })
+
+  it('should report overlapping occurrences and patterns that contain each other', () => {
+    const matcher = createPatternMatcher(['data-', 'data-font', 'a-f'])
+
+    expect(matcher.findAll('data-font')).toEqual([
+      { pattern: 0, start: 0 },
+      { pattern: 2, start: 3 },
+      { pattern: 1, start: 0 },
+    ])
+    expect(createPatternMatcher(['aa']).findAll('aaaa')).toEqual([
+      { pattern: 0, start: 0 },
+      { pattern: 0, start: 1 },
+      { pattern: 0, start: 2 },
+    ])
+  })
+
+  it('should follow failure links after a partial match', () => {
+    const matcher = createPatternMatcher(['onclick=', 'click'])
+
+    expect(matcher.findAll('ononclick=')).toEqual([
+      { pattern: 1, start: 4 },
+      { pattern: 0, start: 2 },
+    ])
+  })
+
+  it('should be case-sensitive and ignore empty patterns', () => {
+    const matcher = createPatternMatcher(['', 'mso-'])
+
+    expect(matcher.findAll('MSO-')).toEqual([])
+    expect(matcher.findAll('')).toEqual([])
+  })
+})
@@ -0,0 +1,78 @@
+/** An occurrence of one of a matcher's patterns */
+export interface PatternMatch {
+  /** Index of the pattern in the list the matcher was built from */
+  pattern: number
+  /** Index in the text where the occurrence starts */
+  start: number
+}
+
+export interface PatternMatcher {
+  /**
+   * Find every occurrence of every pattern in `text`, overlapping ones included, in one pass.
+   * Occurrences are ordered by where they end.
+   */
+  findAll(text: string): PatternMatch[]
+}
+
+interface MatcherNode {
+  next: Map<string, number>
+  /** Node for the longest proper suffix of this node's prefix that is also a pattern prefix */
+  fail: number
+  /** Patterns that end at this node, including those reached through `fail` */
+  outputs: number[]
+}
+
+/**
+ * Build an Aho-Corasick automaton for `patterns`, so a string can be searched for all of them at
+ * once rather than once per pattern. Matching is case-sensitive; lowercase both sides to ignore
+ * case. Empty patterns never match.
+ */
+export function createPatternMatcher(patterns: readonly string[]): PatternMatcher {
+  const nodes: MatcherNode[] = [{ next: new Map(), fail: 0, outputs: [] }]
+
+  patterns.forEach((pattern, index) => {
+    if (pattern.length === 0) return
+    let state = 0
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i]!
+      let child = nodes[state]!.next.get(char)
+      if (child === undefined) {
+        child = nodes.push({ next: new Map(), fail: 0, outputs: [] }) - 1
+        nodes[state]!.next.set(char, child)
+      }
+      state = child
+    }
+    nodes[state]!.outputs.push(index)
+  })
+
+  // Breadth-first, so every node's failure target is finished before the node itself
+  const queue = [...nodes[0]!.next.values()]
+  for (let head = 0; head < queue.length; head++) {
+    const state = queue[head]!
+    for (const [char, child] of nodes[state]!.next) {
+      let fail = nodes[state]!.fail
+      while (fail !== 0 && !nodes[fail]!.next.has(char)) fail = nodes[fail]!.fail
+      const target = nodes[fail]!.next.get(char)
+      const node = nodes[child]!
+      node.fail = target !== undefined && target !== child ? target : 0
+      node.outputs.push(...nodes[node.fail]!.outputs)
+      queue.push(child)
+    }
+  }
+
+  return {
+    findAll(text) {
+      const matches: PatternMatch[] = []
+      let state = 0
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i]!
+        while (state !== 0 && !nodes[state]!.next.has(char)) state = nodes[state]!.fail
+        state = nodes[state]!.next.get(char) ?? 0
+        for (const pattern of nodes[state]!.outputs) {
+          matches.push({ pattern, start: i - patterns[pattern]!.length + 1 })
+        }
+      }
+      return matches
+    },
+  }
+}